@@ -1,16 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { TransferJob } from '../types';
+import { transferAPI } from '../services/api';
 
 interface TransferProgressProps {
   jobId: string;
+  onRerun?: (jobId: string) => void;
 }
 
-function TransferProgress({ jobId }: TransferProgressProps) {
+function TransferProgress({ jobId, onRerun }: TransferProgressProps) {
   const [job, setJob] = useState<TransferJob | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showActivityLog, setShowActivityLog] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [rerunning, setRerunning] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected' | 'fallback'>('connecting');
   
   const socketRef = useRef<Socket | null>(null);
@@ -83,6 +87,13 @@ function TransferProgress({ jobId }: TransferProgressProps) {
         }
       });
 
+      socket.on('job-cancelled', (data: { jobId: string; job: TransferJob }) => {
+        if (data.jobId === jobId && isActive) {
+          setJob(data.job);
+          setCancelling(false);
+        }
+      });
+
       socket.on('connect_error', () => {
         setConnectionStatus('fallback');
         startFallbackPolling();
@@ -189,9 +200,35 @@ function TransferProgress({ jobId }: TransferProgressProps) {
     );
   }
 
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      await transferAPI.cancelJob(job.id);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to cancel transfer');
+      setCancelling(false);
+    }
+  };
+
+  const handleRerun = async () => {
+    setRerunning(true);
+    try {
+      const response = await transferAPI.rerunJob(job.id);
+      const newJobId = response.data.data?.jobId;
+      if (newJobId && onRerun) {
+        onRerun(newJobId);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to start sync');
+    } finally {
+      setRerunning(false);
+    }
+  };
+
   const getStatusEmoji = (status: string) => {
     const statusMap: { [key: string]: string } = {
       pending: '⏳',
+      queued: '📥',
       running: '🔄',
       completed: '✅',
       failed: '❌',
@@ -203,6 +240,7 @@ function TransferProgress({ jobId }: TransferProgressProps) {
   const getStatusColor = (status: string) => {
     const colorMap: { [key: string]: string } = {
       pending: 'text-yellow-600 bg-yellow-50 border-yellow-200',
+      queued: 'text-yellow-600 bg-yellow-50 border-yellow-200',
       running: 'text-blue-600 bg-blue-50 border-blue-200',
       completed: 'text-green-600 bg-green-50 border-green-200',
       failed: 'text-red-600 bg-red-50 border-red-200',
@@ -249,9 +287,21 @@ function TransferProgress({ jobId }: TransferProgressProps) {
             <div>
               <h2 className="text-2xl font-bold capitalize">{job.status}</h2>
               <p className="opacity-75">Transfer Job: {job.id}</p>
+              {job.status === 'queued' && job.queuePosition && (
+                <p className="text-sm opacity-75">Position in queue: #{job.queuePosition}</p>
+              )}
             </div>
           </div>
           <div className="text-right">
+            {['pending', 'queued', 'running'].includes(job.status) && (
+              <button
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="mb-3 px-3 py-1 text-sm border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {cancelling ? 'Cancelling...' : 'Cancel Transfer'}
+              </button>
+            )}
             <p className="text-sm opacity-75">Started</p>
             <p className="font-semibold">
               {job.createdAt ? new Date(job.createdAt).toLocaleString() : 'Unknown'}
@@ -418,6 +468,97 @@ function TransferProgress({ jobId }: TransferProgressProps) {
         </div>
       </div>
 
+      {/* Sync Summary - Show for sync runs */}
+      {job.syncMode && job.progress?.syncSummary && (
+        <div className="bg-white border rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold flex items-center">
+              <span className="mr-2">🔄</span>
+              Sync Summary
+            </h3>
+            {['completed', 'failed', 'cancelled'].includes(job.status) && (
+              <button
+                onClick={handleRerun}
+                disabled={rerunning}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {rerunning ? 'Starting...' : 'Run Sync Again'}
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-bold text-green-700">{job.progress.syncSummary.insertedRows}</p>
+              <p className="text-sm text-gray-600">Inserted</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-blue-700">{job.progress.syncSummary.updatedRows}</p>
+              <p className="text-sm text-gray-600">Updated</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-gray-700">{job.progress.syncSummary.unchangedRows}</p>
+              <p className="text-sm text-gray-600">Unchanged</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-red-700">{job.progress.syncSummary.deletedRows}</p>
+              <p className="text-sm text-gray-600">Deleted</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Upsert Summary & Conflicts - Show for key column upserts */}
+      {job.progress?.upsertSummary && (
+        <div className="bg-white border rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <span className="mr-2">🔑</span>
+            Key Match Summary
+          </h3>
+          <div className="grid grid-cols-3 gap-4 text-center mb-4">
+            <div>
+              <p className="text-2xl font-bold text-green-700">{job.progress.upsertSummary.insertedRows}</p>
+              <p className="text-sm text-gray-600">Inserted</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-blue-700">{job.progress.upsertSummary.updatedRows}</p>
+              <p className="text-sm text-gray-600">Updated</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-yellow-700">{job.progress.upsertSummary.skippedRows}</p>
+              <p className="text-sm text-gray-600">Skipped</p>
+            </div>
+          </div>
+
+          {job.progress.conflicts && job.progress.conflicts.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <h4 className="font-medium text-yellow-900 mb-2">⚠️ Conflicts ({job.progress.conflicts.length})</h4>
+              <div className="max-h-64 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-yellow-800">
+                      <th className="pr-4 py-1">Row</th>
+                      <th className="pr-4 py-1">Key</th>
+                      <th className="py-1">Issue</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {job.progress.conflicts.map((conflict, index) => (
+                      <tr key={index} className="border-t border-yellow-100 text-yellow-900">
+                        <td className="pr-4 py-1 whitespace-nowrap">
+                          {conflict.tabName ? `${conflict.tabName} #${conflict.row}` : conflict.row}
+                        </td>
+                        <td className="pr-4 py-1 font-mono">{conflict.key || '—'}</td>
+                        <td className="py-1">{conflict.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Performance Report - Show when completed */}
       {job.status === 'completed' && (
         <div className="bg-white border rounded-lg p-6">
@@ -569,6 +710,42 @@ function TransferProgress({ jobId }: TransferProgressProps) {
         </div>
       )}
 
+      {/* Cancelled Transfer Report */}
+      {job.status === 'cancelled' && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center text-gray-800">
+            <span className="mr-2">⏹️</span>
+            Transfer Cancelled
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-800">Rows Written</span>
+                <span className="text-2xl">📊</span>
+              </div>
+              <p className="text-xl font-bold text-gray-900">
+                {job.progress?.processedRows || 0} / {job.progress?.totalRows || 0}
+              </p>
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-800">Images Written</span>
+                <span className="text-2xl">🖼️</span>
+              </div>
+              <p className="text-xl font-bold text-gray-900">
+                {(job.progress?.successfulImages || 0) + (job.progress?.fallbackImages || 0)} / {job.progress?.totalImages || 0}
+              </p>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-600">
+            Rows already written to Smartsheet were kept. Remaining rows were not transferred.
+          </p>
+        </div>
+      )}
+
       {/* Failed Transfer Report */}
       {job.status === 'failed' && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-6">
@@ -1,6 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { googleAPI, smartsheetAPI, transferAPI } from '../services/api';
-import { GoogleSheet, SmartsheetSheet, SmartsheetWorkspace, SmartsheetFolder, ColumnMapping } from '../types';
+import {
+  GoogleSheet,
+  SmartsheetSheet,
+  SmartsheetWorkspace,
+  SmartsheetFolder,
+  SmartsheetColumn,
+  SmartsheetColumnType,
+  ColumnMapping,
+  ColumnDataType,
+  ColumnTypeSuggestion,
+  HierarchySource,
+  MergedCellStrategy,
+  FloatingImageMode,
+  MultiTabMode
+} from '../types';
 import toast from 'react-hot-toast';
 
 interface TransferWizardProps {
@@ -9,6 +23,33 @@ interface TransferWizardProps {
 
 type WizardStep = 'google-selection' | 'header-selection' | 'smartsheet-target' | 'preview' | 'execution';
 
+const COLUMN_TYPE_LABELS: Record<SmartsheetColumnType, string> = {
+  TEXT_NUMBER: 'Text / Number',
+  DATE: 'Date',
+  CHECKBOX: 'Checkbox',
+  PICKLIST: 'Dropdown list',
+  MULTI_PICKLIST: 'Multi-select list',
+  CONTACT_LIST: 'Contact'
+};
+
+const dataTypeForColumnType = (type: string, suggestion?: ColumnTypeSuggestion): ColumnDataType => {
+  switch (type) {
+    case 'DATE':
+      return 'date';
+    case 'CHECKBOX':
+      return 'boolean';
+    case 'PICKLIST':
+      return 'picklist';
+    case 'MULTI_PICKLIST':
+      return 'multi_picklist';
+    case 'CONTACT_LIST':
+      return 'contact';
+    default:
+      // Plain columns keep what inference learned about numbers, links, images and attached files
+      return suggestion && ['number', 'hyperlink', 'image', 'attachment'].includes(suggestion.dataType) ? suggestion.dataType : 'text';
+  }
+};
+
 const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
   const [currentStep, setCurrentStep] = useState<WizardStep>('google-selection');
   const [loading, setLoading] = useState(false);
@@ -17,6 +58,10 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
   const [googleSheets, setGoogleSheets] = useState<GoogleSheet[]>([]);
   const [selectedSpreadsheet, setSelectedSpreadsheet] = useState<GoogleSheet | null>(null);
   const [selectedTab, setSelectedTab] = useState<string>('');
+  // The selected tab is set up step by step; other tabs follow it in a multi-tab transfer
+  const [multiTabMode, setMultiTabMode] = useState<MultiTabMode | ''>('');
+  const [otherTabs, setOtherTabs] = useState<string[]>([]);
+  const [includeSourceTabColumn, setIncludeSourceTabColumn] = useState(true);
 
   // Smartsheet data  
   const [workspaces, setWorkspaces] = useState<SmartsheetWorkspace[]>([]);
@@ -44,6 +89,11 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
   // Column mapping
   const [columnMappings, setColumnMappings] = useState<ColumnMapping[]>([]);
   const [googleHeaders, setGoogleHeaders] = useState<string[]>([]);
+  const [targetColumns, setTargetColumns] = useState<SmartsheetColumn[]>([]);
+  const [columnTypes, setColumnTypes] = useState<Record<number, ColumnTypeSuggestion>>({});
+  const [columnTypeOverrides, setColumnTypeOverrides] = useState<Record<number, SmartsheetColumnType>>({});
+  // Google column index -> Smartsheet column ID, or null to skip the column
+  const [columnTargets, setColumnTargets] = useState<Record<number, number | null>>({});
 
   // Row statistics
   const [rowStats, setRowStats] = useState<{
@@ -56,6 +106,16 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionStep, setExecutionStep] = useState('');
   const [createdSheet, setCreatedSheet] = useState<SmartsheetSheet | null>(null);
+  const [syncMode, setSyncMode] = useState(false);
+  const [deleteRemovedRows, setDeleteRemovedRows] = useState(false);
+  const [upsertKeyColumn, setUpsertKeyColumn] = useState<number | null>(null);
+  const [preserveFormatting, setPreserveFormatting] = useState(true);
+  const [includeComments, setIncludeComments] = useState(false);
+  const [hierarchySource, setHierarchySource] = useState<HierarchySource | ''>('');
+  const [hierarchyColumn, setHierarchyColumn] = useState<number | null>(null);
+  const [mergedCellStrategy, setMergedCellStrategy] = useState<MergedCellStrategy>('first');
+  const [floatingImageMode, setFloatingImageMode] = useState<FloatingImageMode | ''>('');
+  const [floatingImageColumn, setFloatingImageColumn] = useState<number | null>(null);
 
   useEffect(() => {
     loadGoogleSheets();
@@ -141,6 +201,70 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
     }
   };
 
+  const normalizeTitle = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+  const loadTargetColumns = async (sheetId: number) => {
+    try {
+      const response = await smartsheetAPI.getSheetDetails(sheetId);
+      if (!response.data.success || !response.data.data) {
+        toast.error('Failed to load target sheet columns');
+        return;
+      }
+
+      const columns = response.data.data.columns;
+      const originalHeaders = headerPreview?.rows[selectedHeaderRow] || [];
+      const claimed = new Set<number>();
+      const targets: Record<number, number | null> = {};
+
+      // Pre-select columns whose titles match; anything else starts out skipped
+      for (const colIndex of selectedColumns) {
+        const header = normalizeTitle(originalHeaders[colIndex] || `Column ${colIndex + 1}`);
+        const match = columns.find(column => !claimed.has(column.id) && normalizeTitle(column.title) === header);
+        targets[colIndex] = match ? match.id : null;
+        if (match) claimed.add(match.id);
+      }
+
+      setTargetColumns(columns);
+      setColumnTargets(targets);
+    } catch (error) {
+      toast.error('Failed to load target sheet columns');
+      console.error('Error loading target sheet columns:', error);
+    }
+  };
+
+  const loadColumnTypes = async () => {
+    if (!selectedSpreadsheet || !selectedTab) return;
+
+    try {
+      const response = await googleAPI.getColumnTypes(
+        selectedSpreadsheet.spreadsheetId,
+        selectedTab,
+        selectedHeaderRow,
+        selectedColumns
+      );
+      if (response.data.success && response.data.data) {
+        const suggestions: Record<number, ColumnTypeSuggestion> = {};
+        for (const suggestion of response.data.data) {
+          suggestions[suggestion.columnIndex] = suggestion;
+        }
+        setColumnTypes(suggestions);
+        setColumnTypeOverrides({});
+      }
+    } catch (error) {
+      // Types are a convenience - fall back to plain text columns
+      console.error('Error inferring column types:', error);
+    }
+  };
+
+  // The first column becomes the primary column, which Smartsheet requires to be TEXT_NUMBER
+  const getColumnType = (colIndex: number): SmartsheetColumnType => {
+    if (colIndex === selectedColumns[0]) return 'TEXT_NUMBER';
+    return columnTypeOverrides[colIndex] || columnTypes[colIndex]?.type || 'TEXT_NUMBER';
+  };
+
+  const mappedTargetIds = Object.values(columnTargets).filter((id): id is number => id !== null);
+  const hasDuplicateTargets = new Set(mappedTargetIds).size !== mappedTargetIds.length;
+
   const handleCreateFolder = async () => {
     if (!selectedWorkspace || !newFolderName.trim()) {
       toast.error('Please select a workspace and enter a folder name');
@@ -223,11 +347,9 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
       const response = await googleAPI.previewSpreadsheet(selectedSpreadsheet.spreadsheetId, [selectedTab]);
       
       if (response.data.success && response.data.data) {
-        const previewData = response.data.data.preview;
-        const tabData = previewData ? previewData[selectedTab] : null;
+        const actualRows = response.data.data.summary?.tabRowCounts?.[selectedTab];
         
-        if (tabData && Array.isArray(tabData)) {
-          const actualRows = tabData.length; // This is what Google Sheets API returns (excludes empty rows)
+        if (typeof actualRows === 'number') {
           const headerRows = selectedHeaderRow + 1;
           const dataRowsToTransfer = Math.max(0, actualRows - headerRows);
           
@@ -249,7 +371,7 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
   const canProceedFromStep = (step: WizardStep): boolean => {
     switch (step) {
       case 'google-selection':
-        return selectedSpreadsheet !== null && selectedTab !== '';
+        return selectedSpreadsheet !== null && selectedTab !== '' && (!multiTabMode || otherTabs.length > 0);
       case 'header-selection':
         return headerPreview !== null && selectedHeaderRow >= 0 && selectedColumns.length > 0;
       case 'smartsheet-target':
@@ -259,6 +381,15 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
           return selectedExistingSheet !== null && selectedWorkspace !== null && selectedFolder !== null;
         }
       case 'preview':
+        if (hierarchySource === 'column' && hierarchyColumn === null) {
+          return false;
+        }
+        if (floatingImageMode === 'image_column' && floatingImageColumn === null) {
+          return false;
+        }
+        if (targetOption === 'existing') {
+          return mappedTargetIds.length > 0 && !hasDuplicateTargets;
+        }
         return true;
       default:
         return false;
@@ -283,6 +414,12 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
     if (currentStep === 'smartsheet-target' && canProceedFromStep(currentStep)) {
       // Load row statistics for the preview
       await loadRowStatistics();
+
+      await loadColumnTypes();
+
+      if (targetOption === 'existing' && selectedExistingSheet) {
+        await loadTargetColumns(selectedExistingSheet.id);
+      }
     }
     
     if (currentIndex < steps.length - 1) {
@@ -377,12 +514,23 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
           return originalHeaders[colIndex] || `Column ${colIndex + 1}`;
         });
         
-        const columns = selectedHeaders.map((header, index) => {
+        const columns: Array<{
+          title: string;
+          type: SmartsheetColumnType;
+          primary: boolean;
+          options?: string[];
+          validation?: boolean;
+        }> = selectedHeaders.map((header, index) => {
           const sanitizedTitle = sanitizeColumnTitle(header, index, selectedHeaders);
+          const type = getColumnType(selectedColumns[index]);
+          const suggestion = columnTypes[selectedColumns[index]];
+          const isPicklist = type === 'PICKLIST' || type === 'MULTI_PICKLIST';
           return {
             title: sanitizedTitle,
-            type: 'TEXT_NUMBER' as const,
-            primary: index === 0
+            type,
+            primary: index === 0,
+            options: isPicklist ? suggestion?.options : undefined,
+            validation: isPicklist ? suggestion?.validation : undefined
           };
         });
 
@@ -390,7 +538,7 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
         if (columns.length === 0) {
           columns.push({
             title: 'Column 1',
-            type: 'TEXT_NUMBER' as const,
+            type: 'TEXT_NUMBER',
             primary: true
           });
         }
@@ -409,21 +557,6 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
 
         targetSheet = response.data.data!;
         setCreatedSheet(targetSheet);
-        
-        
-        // Create temporary column mappings based on selected columns (backend will fix with real IDs)
-        const tempMappings: ColumnMapping[] = selectedHeaders
-          .map((header, index) => {
-            const cleanHeader = header?.trim() || `Column ${selectedColumns[index] + 1}`;
-            return {
-              googleColumn: cleanHeader,
-              smartsheetColumnId: index + 1, // Temporary - backend will fix
-              dataType: 'text' as const,
-              googleColumnIndex: selectedColumns[index] // Add original column index for backend
-            };
-          });
-
-        setColumnMappings(tempMappings);
         toast.success('Smartsheet created successfully');
       } else {
         if (!selectedExistingSheet) {
@@ -431,64 +564,36 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
           return;
         }
         targetSheet = selectedExistingSheet;
-        
-        // Create temporary column mappings for existing sheet based on selected columns (backend will fix with real IDs)
-        const selectedHeaders = selectedColumns.map(colIndex => {
-          const originalHeaders = headerPreview?.rows[selectedHeaderRow] || [];
-          return originalHeaders[colIndex] || `Column ${colIndex + 1}`;
-        });
-        
-        const tempMappings: ColumnMapping[] = selectedHeaders
-          .map((header, index) => {
-            const cleanHeader = header?.trim() || `Column ${selectedColumns[index] + 1}`;
-            return {
-              googleColumn: cleanHeader,
-              smartsheetColumnId: index + 1, // Temporary - backend will fix
-              dataType: 'text' as const,
-              googleColumnIndex: selectedColumns[index] // Add original column index for backend
-            };
-          });
-
-        setColumnMappings(tempMappings);
       }
 
       setExecutionStep('Creating transfer job...');
 
-      // Get the actual mappings to use (from whichever path was taken above)
-      let mappingsToUse: ColumnMapping[];
-      if (targetOption === 'new') {
-        // For new sheets, create the mappings again to ensure we have them
-        const selectedHeaders = selectedColumns.map(colIndex => {
-          const originalHeaders = headerPreview?.rows[selectedHeaderRow] || [];
-          return originalHeaders[colIndex] || `Column ${colIndex + 1}`;
-        });
-        
-        mappingsToUse = selectedHeaders.map((header, index) => {
-          const cleanHeader = header?.trim() || `Column ${selectedColumns[index] + 1}`;
-          return {
-            googleColumn: cleanHeader,
-            smartsheetColumnId: index + 1, // Temporary - backend will fix
-            dataType: 'text' as const,
-            googleColumnIndex: selectedColumns[index] // Add original column index for backend
-          };
-        });
-      } else {
-        // For existing sheets, create the mappings again
-        const selectedHeaders = selectedColumns.map(colIndex => {
-          const originalHeaders = headerPreview?.rows[selectedHeaderRow] || [];
-          return originalHeaders[colIndex] || `Column ${colIndex + 1}`;
-        });
-        
-        mappingsToUse = selectedHeaders.map((header, index) => {
-          const cleanHeader = header?.trim() || `Column ${selectedColumns[index] + 1}`;
-          return {
-            googleColumn: cleanHeader,
-            smartsheetColumnId: index + 1, // Temporary - backend will fix
-            dataType: 'text' as const,
-            googleColumnIndex: selectedColumns[index] // Add original column index for backend
-          };
+      const originalHeaders = headerPreview?.rows[selectedHeaderRow] || [];
+      const mappingsToUse: ColumnMapping[] = [];
+      selectedColumns.forEach((colIndex, index) => {
+        const cleanHeader = originalHeaders[colIndex]?.trim() || `Column ${colIndex + 1}`;
+        // A new sheet's columns were created in selection order; existing sheets use the chosen targets
+        const targetColumn = targetOption === 'new'
+          ? targetSheet.columns[index]
+          : targetColumns.find(column => column.id === columnTargets[colIndex]);
+
+        if (!targetColumn) {
+          return; // Skipped
+        }
+
+        mappingsToUse.push({
+          googleColumn: cleanHeader,
+          smartsheetColumnId: targetColumn.id,
+          smartsheetColumnTitle: targetColumn.title,
+          dataType: dataTypeForColumnType(
+            targetOption === 'new' ? getColumnType(colIndex) : targetColumn.type,
+            columnTypes[colIndex]
+          ),
+          googleColumnIndex: colIndex
         });
-      }
+      });
+
+      setColumnMappings(mappingsToUse);
 
       // Validate selected columns before creating job
       if (selectedColumns.length === 0) {
@@ -510,14 +615,47 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
         dryRun: boolean;
         headerRowIndex: number;
         selectedColumns: number[];
+        syncMode: boolean;
+        deleteRemovedRows: boolean;
+        upsertKeyColumnIndex?: number;
+        preserveFormatting: boolean;
+        includeComments: boolean;
+        hierarchySource?: HierarchySource;
+        hierarchyColumnIndex?: number;
+        mergedCellStrategy: MergedCellStrategy;
+        floatingImageMode?: FloatingImageMode;
+        floatingImageColumnIndex?: number;
+        multiTabMode?: MultiTabMode;
+        includeSourceTabColumn?: boolean;
+        targetWorkspaceId?: number;
+        targetFolderId?: number;
       } = {
         googleSpreadsheetId: selectedSpreadsheet.spreadsheetId,
-        googleSheetTabs: [selectedTab],
+        googleSheetTabs: multiTabMode ? [selectedTab, ...otherTabs] : [selectedTab],
         smartsheetId: targetSheet.id,
         columnMappings: mappingsToUse,
         dryRun: false,
         headerRowIndex: selectedHeaderRow,
-        selectedColumns: selectedColumns
+        selectedColumns: selectedColumns,
+        // Multi-tab transfers write each tab in its own pass, which sync and key matching don't support
+        syncMode: syncMode && !multiTabMode,
+        deleteRemovedRows: syncMode && !multiTabMode && deleteRemovedRows,
+        // Key matching only applies to existing sheets and is handled separately from sync
+        upsertKeyColumnIndex: targetOption === 'existing' && !syncMode && !multiTabMode && upsertKeyColumn !== null &&
+          mappingsToUse.some(mapping => mapping.googleColumnIndex === upsertKeyColumn)
+          ? upsertKeyColumn
+          : undefined,
+        preserveFormatting,
+        includeComments,
+        hierarchySource: hierarchySource || undefined,
+        hierarchyColumnIndex: hierarchySource === 'column' && hierarchyColumn !== null ? hierarchyColumn : undefined,
+        mergedCellStrategy,
+        floatingImageMode: floatingImageMode || undefined,
+        floatingImageColumnIndex: floatingImageMode === 'image_column' && floatingImageColumn !== null ? floatingImageColumn : undefined,
+        multiTabMode: multiTabMode || undefined,
+        includeSourceTabColumn: multiTabMode === 'merge' ? includeSourceTabColumn : undefined,
+        targetWorkspaceId: multiTabMode === 'fan_out' ? selectedWorkspace?.id : undefined,
+        targetFolderId: multiTabMode === 'fan_out' ? selectedFolder?.id : undefined
       };
       
       const jobResponse = await transferAPI.createJob(jobData as any);
@@ -742,6 +880,7 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
                 onClick={() => {
                   setSelectedSpreadsheet(sheet);
                   setSelectedTab(''); // Reset tab selection when spreadsheet changes
+                  setOtherTabs([]);
                 }}
               >
                 <div className="font-medium">{sheet.title}</div>
@@ -763,7 +902,10 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
                   name="selectedTab"
                   value={tab.title}
                   checked={selectedTab === tab.title}
-                  onChange={(e) => setSelectedTab(e.target.value)}
+                  onChange={(e) => {
+                    setSelectedTab(e.target.value);
+                    setOtherTabs(otherTabs.filter(tabName => tabName !== e.target.value));
+                  }}
                   className="text-primary-600 focus:ring-primary-500 border-gray-300"
                 />
                 <span className="text-sm">{tab.title}</span>
@@ -775,6 +917,56 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
           </div>
         </div>
       )}
+
+      {selectedSpreadsheet && selectedTab && selectedSpreadsheet.sheets.length > 1 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2">
+          <label className="block text-sm font-medium text-gray-900">Other tabs</label>
+          <select
+            value={multiTabMode}
+            onChange={(e) => setMultiTabMode(e.target.value as MultiTabMode | '')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">Transfer only this tab</option>
+            <option value="merge">Merge other tabs into the same sheet</option>
+            <option value="fan_out">Create a sheet for each other tab</option>
+          </select>
+          {multiTabMode && (
+            <>
+              <div className="space-y-1 max-h-40 overflow-y-auto">
+                {selectedSpreadsheet.sheets.filter(tab => tab.title !== selectedTab).map(tab => (
+                  <label key={tab.sheetId} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={otherTabs.includes(tab.title)}
+                      onChange={(e) => setOtherTabs(e.target.checked
+                        ? [...otherTabs, tab.title]
+                        : otherTabs.filter(tabName => tabName !== tab.title))}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    <span>{tab.title}</span>
+                  </label>
+                ))}
+              </div>
+              {multiTabMode === 'merge' && (
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includeSourceTabColumn}
+                    onChange={(e) => setIncludeSourceTabColumn(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span className="text-gray-700">Add a "Source Tab" column with each row's tab</span>
+                </label>
+              )}
+              <p className="text-xs text-gray-500">
+                {multiTabMode === 'merge'
+                  ? 'Each tab\'s header row is detected and its columns are matched to this tab\'s columns by header.'
+                  : 'Each tab\'s header row is detected and it gets its own sheet in the chosen folder, with columns from its headers.'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 
@@ -1008,6 +1200,11 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
           <div>
             <span className="font-medium">Tab:</span> {selectedTab}
           </div>
+          {multiTabMode && (
+            <div>
+              <span className="font-medium">{multiTabMode === 'merge' ? 'Merged tabs:' : 'Tabs with their own sheet:'}</span> {otherTabs.join(', ')}
+            </div>
+          )}
           <div>
             <span className="font-medium">Header Row:</span> Row {selectedHeaderRow + 1}
           </div>
@@ -1067,6 +1264,251 @@ const TransferWizard: React.FC<TransferWizardProps> = ({ onJobCreated }) => {
             </div>
           </div>
         )}
+
+        {/* Column types for new sheets */}
+        {targetOption === 'new' && (
+          <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            <h4 className="font-medium text-gray-900">Column Types</h4>
+            <p className="text-xs text-gray-500">
+              Suggested from the sheet's data. The first column is the primary column and is always Text / Number.
+            </p>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {selectedColumns.map((colIndex, index) => {
+                const type = getColumnType(colIndex);
+                const suggestion = columnTypes[colIndex];
+                const options = suggestion?.options;
+                return (
+                  <div key={colIndex} className="grid grid-cols-2 gap-3 items-center">
+                    <span className="text-sm text-gray-900 truncate">
+                      {headerPreview?.rows[selectedHeaderRow]?.[colIndex] || `Column ${colIndex + 1}`}
+                    </span>
+                    <div>
+                      <select
+                        value={type}
+                        disabled={index === 0}
+                        onChange={(e) => setColumnTypeOverrides({
+                          ...columnTypeOverrides,
+                          [colIndex]: e.target.value as SmartsheetColumnType
+                        })}
+                        className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                      >
+                        {(Object.keys(COLUMN_TYPE_LABELS) as SmartsheetColumnType[]).map(columnType => (
+                          <option key={columnType} value={columnType}>{COLUMN_TYPE_LABELS[columnType]}</option>
+                        ))}
+                      </select>
+                      {(type === 'PICKLIST' || type === 'MULTI_PICKLIST') && options && (
+                        <p className="text-xs text-gray-500 mt-1 truncate" title={options.join(', ')}>
+                          {suggestion?.fromDataValidation ? 'From dropdown' : 'Options'}
+                          {suggestion?.validation ? ' (restricted)' : ''}: {options.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Column mapping for existing sheets */}
+        {targetOption === 'existing' && (
+          <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            <h4 className="font-medium text-gray-900">Column Mapping</h4>
+            <p className="text-xs text-gray-500">
+              Columns are matched by title. Pick a target for anything unmatched, or skip it.
+            </p>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {selectedColumns.map(colIndex => {
+                const target = columnTargets[colIndex] ?? null;
+                const isDuplicate = target !== null && mappedTargetIds.filter(id => id === target).length > 1;
+                return (
+                  <div key={colIndex} className="grid grid-cols-2 gap-3 items-center">
+                    <span className="text-sm text-gray-900 truncate">
+                      {headerPreview?.rows[selectedHeaderRow]?.[colIndex] || `Column ${colIndex + 1}`}
+                    </span>
+                    <select
+                      value={target ?? ''}
+                      onChange={(e) => setColumnTargets({
+                        ...columnTargets,
+                        [colIndex]: e.target.value === '' ? null : Number(e.target.value)
+                      })}
+                      className={`px-3 py-1 border rounded-md text-sm ${
+                        isDuplicate ? 'border-red-400 bg-red-50' : target === null ? 'border-yellow-300 bg-yellow-50' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="">Skip this column</option>
+                      {targetColumns.map(column => (
+                        <option key={column.id} value={column.id}>{column.title}</option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+            {hasDuplicateTargets && (
+              <p className="text-xs text-red-600">Each Smartsheet column can only receive one Google column.</p>
+            )}
+            {mappedTargetIds.length === 0 && (
+              <p className="text-xs text-red-600">Map at least one column to continue.</p>
+            )}
+          </div>
+        )}
+
+        {/* Formatting and comment options */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2">
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={preserveFormatting}
+              onChange={(e) => setPreserveFormatting(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <span className="font-medium text-gray-900">Keep cell formatting</span>
+          </label>
+          <p className="text-xs text-gray-500 ml-6">
+            Copy bold, italic, fonts, colors and alignment. Colors are matched to the nearest Smartsheet color.
+          </p>
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includeComments}
+              onChange={(e) => setIncludeComments(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <span className="font-medium text-gray-900">Copy notes and comments</span>
+          </label>
+          <p className="text-xs text-gray-500 ml-6">
+            Add cell notes and comment threads to the new rows as Smartsheet discussions, with the original author and date.
+          </p>
+        </div>
+
+        {/* Merged cells */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2">
+          <label className="block text-sm font-medium text-gray-900">Merged cells</label>
+          <select
+            value={mergedCellStrategy}
+            onChange={(e) => setMergedCellStrategy(e.target.value as MergedCellStrategy)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="first">Keep the value in the first cell only</option>
+            <option value="fill">Fill the value into every merged cell</option>
+            <option value="concatenate">Join all merged values into the first cell</option>
+          </select>
+          <p className="text-xs text-gray-500">
+            Smartsheet has no merged cells. Filling is useful for category columns that are merged down several rows.
+          </p>
+        </div>
+
+        {/* Floating images */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2">
+          <label className="block text-sm font-medium text-gray-900">Images placed over cells</label>
+          <select
+            value={floatingImageMode}
+            onChange={(e) => setFloatingImageMode(e.target.value as FloatingImageMode | '')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">Leave them out</option>
+            <option value="image_column">Put them in an image column of their row</option>
+            <option value="attachment">Attach them to their row</option>
+          </select>
+          {floatingImageMode === 'image_column' && (
+            <select
+              value={floatingImageColumn ?? ''}
+              onChange={(e) => setFloatingImageColumn(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Choose a column...</option>
+              {selectedColumns.filter(colIndex => targetOption === 'new' || (columnTargets[colIndex] ?? null) !== null).map(colIndex => (
+                <option key={colIndex} value={colIndex}>
+                  {headerPreview?.rows[selectedHeaderRow]?.[colIndex] || `Column ${colIndex + 1}`}
+                </option>
+              ))}
+            </select>
+          )}
+          <p className="text-xs text-gray-500">
+            Pictures inserted over the grid belong to the row under their top-left corner. A cell holds one image, so extra pictures on a row are attached.
+          </p>
+        </div>
+
+        {/* Row hierarchy */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2">
+          <label className="block text-sm font-medium text-gray-900">Row hierarchy</label>
+          <select
+            value={hierarchySource}
+            onChange={(e) => setHierarchySource(e.target.value as HierarchySource | '')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">Flat - no parent/child rows</option>
+            <option value="row_groups">From the sheet's row groups</option>
+            <option value="column">From a WBS or indented column</option>
+          </select>
+          {hierarchySource === 'column' && (
+            <select
+              value={hierarchyColumn ?? ''}
+              onChange={(e) => setHierarchyColumn(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Choose a column...</option>
+              {(headerPreview?.rows[selectedHeaderRow] || []).map((header, colIndex) => (
+                <option key={colIndex} value={colIndex}>{header || `Column ${colIndex + 1}`}</option>
+              ))}
+            </select>
+          )}
+          <p className="text-xs text-gray-500">
+            Rows are indented under their parent in Smartsheet. WBS numbers like 1, 1.1 and 1.1.2 or leading spaces set the level.
+          </p>
+        </div>
+
+        {/* Sync options */}
+        {!multiTabMode && (
+          <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2">
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={syncMode}
+                onChange={(e) => setSyncMode(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span className="font-medium text-gray-900">Keep in sync</span>
+            </label>
+            <p className="text-xs text-gray-500 ml-6">
+              Remember which rows were transferred so later runs only add new rows and update changed ones.
+            </p>
+            {syncMode && (
+              <label className="flex items-center space-x-2 text-sm ml-6">
+                <input
+                  type="checkbox"
+                  checked={deleteRemovedRows}
+                  onChange={(e) => setDeleteRemovedRows(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="text-gray-700">Delete Smartsheet rows that are removed from the Google Sheet</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Key column for updating existing rows */}
+        {targetOption === 'existing' && !syncMode && !multiTabMode && (
+          <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2">
+            <label className="block text-sm font-medium text-gray-900">Match existing rows by key column</label>
+            <select
+              value={upsertKeyColumn ?? ''}
+              onChange={(e) => setUpsertKeyColumn(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">No key - add all rows as new</option>
+              {selectedColumns.filter(colIndex => columnTargets[colIndex] != null).map(colIndex => (
+                <option key={colIndex} value={colIndex}>
+                  {headerPreview?.rows[selectedHeaderRow]?.[colIndex] || `Column ${colIndex + 1}`}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">
+              Rows whose key already exists in the sheet are updated; the rest are inserted.
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
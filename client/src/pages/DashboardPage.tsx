@@ -62,6 +62,8 @@ function DashboardPage() {
         return 'Cancelled';
       case 'running':
         return 'Running';
+      case 'queued':
+        return 'Queued';
       default:
         return 'Pending';
     }
@@ -18,7 +18,7 @@ function HistoryPage() {
   const [jobs, setJobs] = useState<TransferJob[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'completed' | 'failed' | 'running' | 'pending'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'completed' | 'failed' | 'running' | 'queued' | 'pending'>('all');
 
   useEffect(() => {
     const fetchJobs = async () => {
@@ -63,6 +63,8 @@ function HistoryPage() {
         return 'Cancelled';
       case 'running':
         return 'Running';
+      case 'queued':
+        return 'Queued';
       default:
         return 'Pending';
     }
@@ -162,6 +164,7 @@ function HistoryPage() {
                 <option value="all">All Status</option>
                 <option value="completed">Completed</option>
                 <option value="running">Running</option>
+                <option value="queued">Queued</option>
                 <option value="failed">Failed</option>
                 <option value="pending">Pending</option>
               </select>
@@ -23,7 +23,7 @@ function TransferPage() {
             Back to New Transfer
           </button>
         </div>
-        <TransferProgress jobId={jobId} />
+        <TransferProgress jobId={jobId} onRerun={handleJobCreated} />
       </div>
     );
   }
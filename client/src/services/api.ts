@@ -5,7 +5,15 @@ import {
   GoogleSheet, 
   SmartsheetSheet, 
   TransferJob, 
-  DryRunResult 
+  DryRunResult,
+  TransferSchedule,
+  FolderMigration,
+  ColumnTypeSuggestion,
+  HierarchySource,
+  MergedCellStrategy,
+  FloatingImageMode,
+  MultiTabMode,
+  TabTransferSettings
 } from '../types';
 
 const API_BASE_URL = process.env.NODE_ENV === 'production' 
@@ -82,6 +90,14 @@ export const googleAPI = {
       params: { sheetTab }
     }),
 
+  getColumnTypes: (
+    spreadsheetId: string,
+    sheetTab: string,
+    headerRowIndex: number,
+    columns: number[]
+  ): Promise<AxiosResponse<APIResponse<ColumnTypeSuggestion[]>>> =>
+    api.post(`/api/google/spreadsheets/${spreadsheetId}/column-types`, { sheetTab, headerRowIndex, columns }),
+
   previewSpreadsheet: (spreadsheetId: string, sheetTabs: string[]): Promise<AxiosResponse<APIResponse<any>>> =>
     api.post(`/api/google/spreadsheets/${spreadsheetId}/preview`, { sheetTabs }),
 
@@ -111,7 +127,7 @@ export const smartsheetAPI = {
 
   createSheet: (
     name: string, 
-    columns: Array<{ title: string; type: string; primary?: boolean }>,
+    columns: Array<{ title: string; type: string; primary?: boolean; options?: string[]; validation?: boolean }>,
     workspaceId?: number,
     folderId?: number
   ): Promise<AxiosResponse<APIResponse<SmartsheetSheet>>> =>
@@ -140,9 +156,28 @@ export const transferAPI = {
     dryRun?: boolean;
     headerRowIndex?: number;
     selectedColumns?: number[];
-  }): Promise<AxiosResponse<APIResponse<{ jobId: string; status: string }>>> =>
+    priority?: number;
+    syncMode?: boolean;
+    deleteRemovedRows?: boolean;
+    upsertKeyColumnIndex?: number;
+    preserveFormatting?: boolean;
+    includeComments?: boolean;
+    hierarchySource?: HierarchySource;
+    hierarchyColumnIndex?: number;
+    mergedCellStrategy?: MergedCellStrategy;
+    floatingImageMode?: FloatingImageMode;
+    floatingImageColumnIndex?: number;
+    multiTabMode?: MultiTabMode;
+    tabSettings?: TabTransferSettings[];
+    includeSourceTabColumn?: boolean;
+    targetWorkspaceId?: number;
+    targetFolderId?: number;
+  }): Promise<AxiosResponse<APIResponse<{ jobId: string; status: string; queuePosition?: number }>>> =>
     api.post('/api/transfer/jobs', jobData),
 
+  rerunJob: (jobId: string, options?: { deleteRemovedRows?: boolean }): Promise<AxiosResponse<APIResponse<{ jobId: string; status: string; queuePosition?: number }>>> =>
+    api.post(`/api/transfer/jobs/${jobId}/rerun`, options || {}),
+
   getJob: (jobId: string): Promise<AxiosResponse<APIResponse<TransferJob>>> =>
     api.get(`/api/transfer/jobs/${jobId}`),
 
@@ -162,4 +197,86 @@ export const transferAPI = {
     api.get(`/api/transfer/jobs/${jobId}/errors`),
 };
 
+// Schedule API
+type ScheduleInput = {
+  name: string;
+  cronExpression: string;
+  googleSpreadsheetId: string;
+  googleSheetTabs: string[];
+  smartsheetId: number;
+  columnMappings: any[];
+  headerRowIndex?: number;
+  selectedColumns?: number[];
+  syncMode?: boolean;
+  deleteRemovedRows?: boolean;
+  upsertKeyColumnIndex?: number;
+  preserveFormatting?: boolean;
+  includeComments?: boolean;
+  hierarchySource?: HierarchySource;
+  hierarchyColumnIndex?: number;
+  mergedCellStrategy?: MergedCellStrategy;
+  floatingImageMode?: FloatingImageMode;
+  floatingImageColumnIndex?: number;
+  multiTabMode?: MultiTabMode;
+  tabSettings?: TabTransferSettings[];
+  includeSourceTabColumn?: boolean;
+  targetWorkspaceId?: number;
+  targetFolderId?: number;
+};
+
+// Source, target, mappings and options left out are copied from the template job
+type TemplateScheduleInput = Partial<ScheduleInput> & {
+  name: string;
+  cronExpression: string;
+  templateJobId: string;
+};
+
+export const scheduleAPI = {
+  getSchedules: (): Promise<AxiosResponse<APIResponse<TransferSchedule[]>>> =>
+    api.get('/api/transfer/schedules'),
+
+  getSchedule: (scheduleId: string): Promise<AxiosResponse<APIResponse<TransferSchedule>>> =>
+    api.get(`/api/transfer/schedules/${scheduleId}`),
+
+  createSchedule: (scheduleData: ScheduleInput | TemplateScheduleInput): Promise<AxiosResponse<APIResponse<TransferSchedule>>> =>
+    api.post('/api/transfer/schedules', scheduleData),
+
+  updateSchedule: (scheduleId: string, scheduleData: Partial<ScheduleInput>): Promise<AxiosResponse<APIResponse<TransferSchedule>>> =>
+    api.put(`/api/transfer/schedules/${scheduleId}`, scheduleData),
+
+  deleteSchedule: (scheduleId: string): Promise<AxiosResponse<APIResponse>> =>
+    api.delete(`/api/transfer/schedules/${scheduleId}`),
+
+  pauseSchedule: (scheduleId: string): Promise<AxiosResponse<APIResponse<TransferSchedule>>> =>
+    api.post(`/api/transfer/schedules/${scheduleId}/pause`),
+
+  resumeSchedule: (scheduleId: string): Promise<AxiosResponse<APIResponse<TransferSchedule>>> =>
+    api.post(`/api/transfer/schedules/${scheduleId}/resume`),
+
+  runScheduleNow: (scheduleId: string): Promise<AxiosResponse<APIResponse<{ jobId: string; status: string }>>> =>
+    api.post(`/api/transfer/schedules/${scheduleId}/run`),
+
+  getScheduleRuns: (scheduleId: string, limit?: number): Promise<AxiosResponse<APIResponse<TransferJob[]>>> =>
+    api.get(`/api/transfer/schedules/${scheduleId}/runs`, { params: { limit } }),
+};
+
+// Drive folder migration API
+export const migrationAPI = {
+  getMigrations: (): Promise<AxiosResponse<APIResponse<FolderMigration[]>>> =>
+    api.get('/api/transfer/migrations'),
+
+  getMigration: (migrationId: string): Promise<AxiosResponse<APIResponse<FolderMigration>>> =>
+    api.get(`/api/transfer/migrations/${migrationId}`),
+
+  // driveFolderId can also be the folder's URL
+  startMigration: (driveFolderId: string, workspaceId: number): Promise<AxiosResponse<APIResponse<FolderMigration>>> =>
+    api.post('/api/transfer/migrations', { driveFolderId, workspaceId }),
+
+  getMigrationJobs: (migrationId: string): Promise<AxiosResponse<APIResponse<TransferJob[]>>> =>
+    api.get(`/api/transfer/migrations/${migrationId}/jobs`),
+
+  cancelMigration: (migrationId: string): Promise<AxiosResponse<APIResponse<FolderMigration>>> =>
+    api.post(`/api/transfer/migrations/${migrationId}/cancel`),
+};
+
 export default api;
\ No newline at end of file
@@ -26,6 +26,7 @@ export interface SmartsheetSheet {
   name: string;
   columns: SmartsheetColumn[];
   permalink: string;
+  totalRowCount?: number;
 }
 
 export interface SmartsheetColumn {
@@ -34,6 +35,7 @@ export interface SmartsheetColumn {
   type: string;
   primary?: boolean;
   index: number;
+  formula?: string; // Column formula, if the column has one
 }
 
 export interface SmartsheetWorkspace {
@@ -48,11 +50,56 @@ export interface SmartsheetFolder {
   permalink: string;
 }
 
+export type ColumnDataType =
+  'text' | 'number' | 'date' | 'boolean' | 'picklist' | 'multi_picklist' | 'contact' | 'image' | 'hyperlink' | 'attachment';
+
+export type HierarchySource = 'row_groups' | 'column';
+
+export type MergedCellStrategy = 'fill' | 'first' | 'concatenate';
+
+// Where pictures placed over the grid go: into a mapped image column of their row, or attached to the row
+export type FloatingImageMode = 'image_column' | 'attachment';
+
+// How a transfer of several tabs is laid out: every tab's rows in one sheet, or one sheet per tab
+export type MultiTabMode = 'merge' | 'fan_out';
+
+export type SmartsheetColumnType = 'TEXT_NUMBER' | 'DATE' | 'CHECKBOX' | 'PICKLIST' | 'MULTI_PICKLIST' | 'CONTACT_LIST';
+
+export interface ColumnTypeSuggestion {
+  columnIndex: number;
+  header: string;
+  type: SmartsheetColumnType;
+  dataType: ColumnDataType;
+  options?: string[]; // PICKLIST and MULTI_PICKLIST only
+  validation?: boolean; // Restrict the column to its options, as the Google rule did
+  fromDataValidation?: boolean; // Options came from a Google data-validation rule rather than the values
+  sampleSize: number; // Non-empty values the suggestion is based on
+}
+
 export interface ColumnMapping {
   googleColumn: string;
   smartsheetColumnId: number;
-  dataType: 'text' | 'number' | 'date' | 'image' | 'hyperlink';
+  dataType: ColumnDataType;
   googleColumnIndex?: number;
+  smartsheetColumnTitle?: string; // Used to re-match the column when its ID is stale
+  skip?: boolean; // Leave this source column out of the transfer
+  columnFormula?: string; // Set during a transfer when the whole column is written as a column formula
+  attachAsDriveLink?: boolean; // 'attachment' only: attach a link to the Drive file instead of a copy
+}
+
+export interface TabTransferSettings {
+  tabName: string;
+  headerRowIndex?: number;
+  columnMappings?: ColumnMapping[];
+  smartsheetId?: number;
+}
+
+export interface UnresolvedColumnMapping {
+  googleColumn: string;
+  googleColumnIndex: number;
+  smartsheetColumnId?: number;
+  smartsheetColumnTitle?: string;
+  reason: 'column_not_found' | 'duplicate_target';
 }
 
 export interface TransferJob {
@@ -62,9 +109,29 @@ export interface TransferJob {
   googleSheetTabs: string[];
   smartsheetId: number;
   columnMappings: ColumnMapping[];
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: TransferProgress;
   dryRun: boolean;
+  priority?: number;
+  queuePosition?: number;
+  syncMode?: boolean;
+  lineageId?: string;
+  deleteRemovedRows?: boolean;
+  upsertKeyColumnIndex?: number;
+  scheduleId?: string;
+  migrationId?: string;
+  preserveFormatting?: boolean;
+  includeComments?: boolean;
+  hierarchySource?: HierarchySource;
+  hierarchyColumnIndex?: number;
+  mergedCellStrategy?: MergedCellStrategy;
+  floatingImageMode?: FloatingImageMode;
+  floatingImageColumnIndex?: number;
+  multiTabMode?: MultiTabMode;
+  tabSettings?: TabTransferSettings[];
+  includeSourceTabColumn?: boolean;
+  targetWorkspaceId?: number;
+  targetFolderId?: number;
   createdAt: string;
   completedAt?: string;
   // Enhanced job metadata
@@ -73,6 +140,74 @@ export interface TransferJob {
   logs?: TransferLog[];
 }
 
+export interface FolderMigration {
+  id: string;
+  userId: string;
+  driveFolderId: string;
+  driveFolderName: string;
+  workspaceId: number;
+  status: 'preparing' | 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'cancelled';
+  foldersCreated: number;
+  spreadsheetsFound: number;
+  failures: FolderMigrationFailure[];
+  progress?: FolderMigrationProgress;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface FolderMigrationFailure {
+  path: string;
+  message: string;
+  jobId?: string;
+}
+
+export interface FolderMigrationProgress {
+  totalJobs: number;
+  waitingJobs: number;
+  runningJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  cancelledJobs: number;
+  totalRows: number;
+  processedRows: number;
+}
+
+export interface TransferSchedule {
+  id: string;
+  userId: string;
+  name: string;
+  cronExpression: string;
+  googleSpreadsheetId: string;
+  googleSheetTabs: string[];
+  smartsheetId: number;
+  columnMappings: ColumnMapping[];
+  headerRowIndex?: number;
+  selectedColumns?: number[];
+  syncMode: boolean;
+  deleteRemovedRows: boolean;
+  upsertKeyColumnIndex?: number;
+  preserveFormatting?: boolean;
+  includeComments?: boolean;
+  hierarchySource?: HierarchySource;
+  hierarchyColumnIndex?: number;
+  mergedCellStrategy?: MergedCellStrategy;
+  floatingImageMode?: FloatingImageMode;
+  floatingImageColumnIndex?: number;
+  multiTabMode?: MultiTabMode;
+  tabSettings?: TabTransferSettings[];
+  includeSourceTabColumn?: boolean;
+  targetWorkspaceId?: number;
+  targetFolderId?: number;
+  status: 'active' | 'paused';
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastJobId?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface TransferProgress {
   totalRows: number;
   processedRows: number;
@@ -83,12 +218,37 @@ export interface TransferProgress {
   failedImages?: number;
   currentBatch?: number;
   totalBatches?: number;
+  syncSummary?: SyncSummary;
+  upsertSummary?: UpsertSummary;
+  conflicts?: UpsertConflict[];
   errors: TransferError[];
   warnings: TransferWarning[];
   progressPercentage?: number;
   imageProgressPercentage?: number;
 }
 
+export interface SyncSummary {
+  insertedRows: number;
+  updatedRows: number;
+  unchangedRows: number;
+  deletedRows: number;
+}
+
+export interface UpsertSummary {
+  insertedRows: number;
+  updatedRows: number;
+  skippedRows: number;
+}
+
+export interface UpsertConflict {
+  type: 'duplicate_source_key' | 'duplicate_target_key' | 'missing_key';
+  key: string;
+  tabName?: string;
+  row?: number;
+  smartsheetRowIds?: number[];
+  message: string;
+}
+
 export interface SourceInfo {
   spreadsheetTitle: string;
   tabNames: string[];
@@ -113,13 +273,13 @@ export interface TransferLog {
 }
 
 export interface TransferWarning {
-  type: 'image_fallback' | 'data_truncation' | 'type_conversion';
+  type: 'image_fallback' | 'data_truncation' | 'type_conversion' | 'comment_skipped' | 'hierarchy_flattened' | 'attachment_skipped' | 'floating_image_skipped' | 'row_changed';
   message: string;
   count?: number;
 }
 
 export interface TransferError {
-  type: 'image_access_denied' | 'image_upload_failed' | 'row_insert_failed' | 'general_error';
+  type: 'image_access_denied' | 'image_upload_failed' | 'row_insert_failed' | 'row_update_failed' | 'row_delete_failed' | 'column_unresolved' | 'general_error';
   message: string;
   row?: number;
   column?: string;
@@ -3,6 +3,7 @@ import config from '../config';
 import { encryptionService } from '../utils/encryption';
 import { generateCodeVerifier, generateCodeChallenge, generateState, createAuthorizationUrl } from '../utils/pkce';
 import database from '../database';
+import { smartsheetHttpClient } from '../smartsheet/http';
 import { EncryptedTokens } from '../types';
 
 export class SmartsheetAuthService {
@@ -194,13 +195,10 @@ export class SmartsheetAuthService {
     endpoint: string,
     data?: any
   ): Promise<any> {
-    const tokens = encryptionService.decryptTokens(encryptedTokens.encryptedData);
-    
     const config: any = {
       method,
       url: endpoint.startsWith('http') ? endpoint : `${this.apiUrl}${endpoint}`,
       headers: {
-        Authorization: `Bearer ${tokens.accessToken}`,
         'Content-Type': 'application/json'
       }
     };
@@ -210,7 +208,7 @@ export class SmartsheetAuthService {
     }
 
     try {
-      const response = await axios(config);
+      const response = await smartsheetHttpClient.request(encryptedTokens, config);
       return response.data;
     } catch (error: any) {
       if (error.response?.status === 401) {
@@ -68,14 +68,22 @@ export const config = {
       'https://www.googleapis.com/auth/userinfo.email',
       'https://www.googleapis.com/auth/userinfo.profile'
     ],
-    redirectUri: `${process.env.BASE_URL || 'http://localhost:3001'}/auth/google/callback`
+    redirectUri: `${process.env.BASE_URL || 'http://localhost:3001'}/auth/google/callback`,
+    // Retries for quota (429, 403 rate limit) and server errors from the Sheets and Drive APIs
+    maxRetries: parseInt(process.env.GOOGLE_MAX_RETRIES || '5', 10),
+    retryBaseDelayMs: parseInt(process.env.GOOGLE_RETRY_BASE_DELAY_MS || '1000', 10)
   },
   
   smartsheet: {
     clientId: process.env.SMARTSHEET_CLIENT_ID || '',
     clientSecret: process.env.SMARTSHEET_CLIENT_SECRET || '',
     scopes: ['READ_SHEETS', 'WRITE_SHEETS', 'CREATE_SHEETS', 'SHARE_SHEETS'],
-    redirectUri: `${process.env.BASE_URL || 'http://localhost:3001'}/auth/smartsheet/callback`
+    redirectUri: `${process.env.BASE_URL || 'http://localhost:3001'}/auth/smartsheet/callback`,
+    // Smartsheet allows 300 requests per minute per access token
+    requestsPerMinute: parseInt(process.env.SMARTSHEET_REQUESTS_PER_MINUTE || '300', 10),
+    // Retries for rate-limited (429/4003) and unavailable (503) responses
+    maxRetries: parseInt(process.env.SMARTSHEET_MAX_RETRIES || '6', 10),
+    retryBaseDelayMs: parseInt(process.env.SMARTSHEET_RETRY_BASE_DELAY_MS || '1000', 10)
   },
   
   session: {
@@ -93,6 +101,39 @@ export const config = {
     jwtSecret: process.env.JWT_SECRET || 'default-jwt-secret',
   },
   
+  queue: {
+    globalConcurrency: parseInt(process.env.QUEUE_GLOBAL_CONCURRENCY || '3', 10),
+    perUserConcurrency: parseInt(process.env.QUEUE_PER_USER_CONCURRENCY || '1', 10),
+    pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '5000', 10),
+  },
+  
+  scheduler: {
+    pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '60000', 10),
+  },
+  
+  transfer: {
+    // What happens to images already queued for inserted rows when a job is cancelled:
+    // 'finish' uploads them, 'link' writes them as hyperlinks, 'abandon' stops immediately
+    cancelImageDrain: (process.env.TRANSFER_CANCEL_IMAGE_DRAIN || 'finish') as 'finish' | 'link' | 'abandon',
+    // Rows read from Google per request; plain transfers stream tabs in windows of this size
+    readWindowRows: parseInt(process.env.TRANSFER_READ_WINDOW_ROWS || '1000', 10),
+    // Images downloaded from Google and uploaded to Smartsheet at the same time
+    imageDownloadConcurrency: parseInt(process.env.TRANSFER_IMAGE_DOWNLOAD_CONCURRENCY || '4', 10),
+    imageUploadConcurrency: parseInt(process.env.TRANSFER_IMAGE_UPLOAD_CONCURRENCY || '2', 10),
+    // Larger Drive files are attached to rows as Drive links rather than uploaded
+    maxAttachmentBytes: parseInt(process.env.TRANSFER_MAX_ATTACHMENT_BYTES || '31457280', 10), // 30MB
+  },
+  
+  imageStore: {
+    // Downloaded images are kept here and reused across jobs; least recently used ones go first over the limit
+    dir: process.env.IMAGE_STORE_DIR || './data/images',
+    maxBytes: parseInt(process.env.IMAGE_STORE_MAX_BYTES || '524288000', 10), // 500MB
+    // Plain URLs have no modified time to check, so their bytes are only reused while recently used
+    urlMaxAgeMs: parseInt(process.env.IMAGE_STORE_URL_MAX_AGE_MS || '3600000', 10),
+    // How long a Drive file's modified time is trusted before Drive is asked again
+    driveCheckTtlMs: parseInt(process.env.IMAGE_STORE_DRIVE_CHECK_TTL_MS || '300000', 10),
+  },
+  
   upload: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB
     uploadDir: process.env.UPLOAD_DIR || './uploads',
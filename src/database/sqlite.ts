@@ -2,7 +2,7 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import config from '../config';
-import { User, TransferJob, TransferLog, SourceInfo, TargetInfo, ImageCache, OAuthState } from '../types';
+import { User, TransferJob, TransferLog, SourceInfo, TargetInfo, ImageCache, OAuthState, TransferCheckpoint, QueueEntry, SyncFingerprint, TransferSchedule, TabTransferSettings, FolderMigration } from '../types';
 
 interface DatabaseData {
   users: User[];
@@ -32,6 +32,7 @@ class SQLiteDatabaseManager {
     try {
       // Create tables if they don't exist
       this.createTables();
+      this.migrateTables();
       console.log('SQLite database initialized successfully');
     } catch (error) {
       console.error('Error initializing SQLite database:', error);
@@ -77,6 +78,93 @@ class SQLiteDatabaseManager {
       )
     `);
 
+    // Transfer checkpoints table (one row per job, rewritten after every batch)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS transfer_checkpoints (
+        job_id TEXT PRIMARY KEY,
+        tab_name TEXT NOT NULL,
+        batch_index INTEGER NOT NULL DEFAULT 0,
+        inserted_rows INTEGER NOT NULL DEFAULT 0,
+        pending_images TEXT NOT NULL,
+        hierarchy TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (job_id) REFERENCES transfer_jobs (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Durable transfer queue - 'active' entries are reset to 'waiting' on startup
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_queue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id TEXT UNIQUE NOT NULL,
+        user_id TEXT NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0,
+        state TEXT NOT NULL DEFAULT 'waiting',
+        enqueued_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        started_at DATETIME,
+        FOREIGN KEY (job_id) REFERENCES transfer_jobs (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Sync fingerprints - maps each synced Google row to its Smartsheet row, per job lineage
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_fingerprints (
+        lineage_id TEXT NOT NULL,
+        smartsheet_row_id INTEGER NOT NULL,
+        tab_name TEXT NOT NULL,
+        row_index INTEGER NOT NULL,
+        fingerprint TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (lineage_id, smartsheet_row_id)
+      )
+    `);
+
+    // Saved transfer configurations that run on a cron schedule
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        cron_expression TEXT NOT NULL,
+        google_spreadsheet_id TEXT NOT NULL,
+        google_sheet_tabs TEXT NOT NULL,
+        smartsheet_id INTEGER NOT NULL,
+        column_mappings TEXT NOT NULL,
+        header_row_index INTEGER,
+        selected_columns TEXT,
+        sync_mode BOOLEAN DEFAULT FALSE,
+        delete_removed_rows BOOLEAN DEFAULT FALSE,
+        upsert_key_column_index INTEGER,
+        status TEXT NOT NULL DEFAULT 'active',
+        next_run_at TEXT,
+        last_run_at TEXT,
+        last_job_id TEXT,
+        last_error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )
+    `);
+
+    // Drive folders moved into a Smartsheet workspace; each tab's transfer job points back here
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS folder_migrations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        drive_folder_id TEXT NOT NULL,
+        drive_folder_name TEXT NOT NULL,
+        workspace_id INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        folders_created INTEGER DEFAULT 0,
+        spreadsheets_found INTEGER DEFAULT 0,
+        failures TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        completed_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )
+    `);
+
     // Image cache table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS image_cache (
@@ -87,6 +175,16 @@ class SQLiteDatabaseManager {
       )
     `);
 
+    // Where stored image bytes came from; several URLs or Drive files can share the same bytes
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS image_sources (
+        source TEXT PRIMARY KEY,
+        hash TEXT NOT NULL,
+        drive_modified_time TEXT,
+        last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     // OAuth states table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS oauth_states (
@@ -106,9 +204,82 @@ class SQLiteDatabaseManager {
       CREATE INDEX IF NOT EXISTS idx_transfer_jobs_status ON transfer_jobs (status);
       CREATE INDEX IF NOT EXISTS idx_transfer_jobs_created_at ON transfer_jobs (created_at);
       CREATE INDEX IF NOT EXISTS idx_oauth_states_created_at ON oauth_states (created_at);
+      CREATE INDEX IF NOT EXISTS idx_job_queue_state ON job_queue (state, priority, id);
+      CREATE INDEX IF NOT EXISTS idx_sync_fingerprints_fingerprint ON sync_fingerprints (lineage_id, fingerprint);
+      CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules (status, next_run_at);
+      CREATE INDEX IF NOT EXISTS idx_folder_migrations_user_id ON folder_migrations (user_id);
+      CREATE INDEX IF NOT EXISTS idx_image_sources_hash ON image_sources (hash);
     `);
   }
 
+  // Add columns introduced after the initial schema to existing databases
+  private migrateTables(): void {
+    this.addColumnIfMissing('transfer_jobs', 'priority', 'INTEGER DEFAULT 0');
+    this.addColumnIfMissing('transfer_jobs', 'sync_mode', 'BOOLEAN DEFAULT FALSE');
+    this.addColumnIfMissing('transfer_jobs', 'lineage_id', 'TEXT');
+    this.addColumnIfMissing('transfer_jobs', 'delete_removed_rows', 'BOOLEAN DEFAULT FALSE');
+    this.addColumnIfMissing('transfer_jobs', 'upsert_key_column_index', 'INTEGER');
+    this.addColumnIfMissing('transfer_jobs', 'schedule_id', 'TEXT');
+    this.addColumnIfMissing('transfer_jobs', 'preserve_formatting', 'BOOLEAN DEFAULT TRUE');
+    this.addColumnIfMissing('transfer_jobs', 'include_comments', 'BOOLEAN DEFAULT FALSE');
+    this.addColumnIfMissing('transfer_jobs', 'hierarchy_source', 'TEXT');
+    this.addColumnIfMissing('transfer_jobs', 'hierarchy_column_index', 'INTEGER');
+    this.addColumnIfMissing('transfer_jobs', 'merged_cell_strategy', 'TEXT');
+    this.addColumnIfMissing('transfer_jobs', 'floating_image_mode', 'TEXT');
+    this.addColumnIfMissing('transfer_jobs', 'floating_image_column_index', 'INTEGER');
+    this.addColumnIfMissing('transfer_jobs', 'multi_tab_mode', 'TEXT');
+    this.addColumnIfMissing('transfer_jobs', 'tab_settings', 'TEXT');
+    this.addColumnIfMissing('transfer_jobs', 'include_source_tab_column', 'INTEGER DEFAULT 0');
+    this.addColumnIfMissing('transfer_jobs', 'target_workspace_id', 'INTEGER');
+    this.addColumnIfMissing('transfer_jobs', 'target_folder_id', 'INTEGER');
+    this.addColumnIfMissing('transfer_jobs', 'migration_id', 'TEXT');
+    this.addColumnIfMissing('schedules', 'preserve_formatting', 'BOOLEAN DEFAULT TRUE');
+    this.addColumnIfMissing('schedules', 'include_comments', 'BOOLEAN DEFAULT FALSE');
+    this.addColumnIfMissing('schedules', 'hierarchy_source', 'TEXT');
+    this.addColumnIfMissing('schedules', 'hierarchy_column_index', 'INTEGER');
+    this.addColumnIfMissing('schedules', 'merged_cell_strategy', 'TEXT');
+    this.addColumnIfMissing('schedules', 'floating_image_mode', 'TEXT');
+    this.addColumnIfMissing('schedules', 'floating_image_column_index', 'INTEGER');
+    this.addColumnIfMissing('schedules', 'multi_tab_mode', 'TEXT');
+    this.addColumnIfMissing('schedules', 'tab_settings', 'TEXT');
+    this.addColumnIfMissing('schedules', 'include_source_tab_column', 'INTEGER DEFAULT 0');
+    this.addColumnIfMissing('schedules', 'target_workspace_id', 'INTEGER');
+    this.addColumnIfMissing('schedules', 'target_folder_id', 'INTEGER');
+    this.addColumnIfMissing('transfer_checkpoints', 'hierarchy', 'TEXT');
+    this.addColumnIfMissing('image_cache', 'drive_file_id', 'TEXT');
+    this.addColumnIfMissing('image_cache', 'drive_modified_time', 'TEXT');
+    this.addColumnIfMissing('image_cache', 'size', 'INTEGER DEFAULT 0');
+    this.addColumnIfMissing('image_cache', 'mime_type', 'TEXT');
+    this.addColumnIfMissing('image_cache', 'filename', 'TEXT');
+    this.addColumnIfMissing('image_cache', 'last_used_at', 'DATETIME');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_image_cache_drive_file_id ON image_cache (drive_file_id)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_image_cache_url ON image_cache (url)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_transfer_jobs_schedule_id ON transfer_jobs (schedule_id)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_transfer_jobs_migration_id ON transfer_jobs (migration_id)');
+
+    // Checkpoints used to keep the ID of every row the job had inserted; only the count is kept now
+    if (this.hasColumn('transfer_checkpoints', 'inserted_row_ids')) {
+      this.db.transaction(() => {
+        this.db.exec(`
+          ALTER TABLE transfer_checkpoints ADD COLUMN inserted_rows INTEGER NOT NULL DEFAULT 0;
+          UPDATE transfer_checkpoints SET inserted_rows = json_array_length(inserted_row_ids);
+          ALTER TABLE transfer_checkpoints DROP COLUMN inserted_row_ids;
+        `);
+      })();
+    }
+  }
+
+  private hasColumn(table: string, column: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    return columns.some(col => col.name === column);
+  }
+
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    if (!this.hasColumn(table, column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   // User operations
   public async createUser(user: Omit<User, 'createdAt' | 'updatedAt'>): Promise<User> {
     const stmt = this.db.prepare(`
@@ -182,8 +353,12 @@ class SQLiteDatabaseManager {
     const stmt = this.db.prepare(`
       INSERT INTO transfer_jobs (
         id, user_id, google_spreadsheet_id, google_sheet_tabs, smartsheet_id,
-        column_mappings, status, progress, logs, dry_run, header_row_index, selected_columns
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        column_mappings, status, progress, logs, dry_run, header_row_index, selected_columns, priority,
+        sync_mode, lineage_id, delete_removed_rows, upsert_key_column_index, schedule_id, preserve_formatting,
+        include_comments, hierarchy_source, hierarchy_column_index, merged_cell_strategy, floating_image_mode,
+        floating_image_column_index, multi_tab_mode, tab_settings, include_source_tab_column, target_workspace_id,
+        target_folder_id, migration_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const params = [
@@ -198,7 +373,26 @@ class SQLiteDatabaseManager {
       job.logs ? JSON.stringify(job.logs) : null,
       job.dryRun ? 1 : 0, // Convert boolean to integer
       job.headerRowIndex ?? null,
-      job.selectedColumns ? JSON.stringify(job.selectedColumns) : null
+      job.selectedColumns ? JSON.stringify(job.selectedColumns) : null,
+      job.priority ?? 0,
+      job.syncMode ? 1 : 0,
+      job.lineageId ?? null,
+      job.deleteRemovedRows ? 1 : 0,
+      job.upsertKeyColumnIndex ?? null,
+      job.scheduleId ?? null,
+      job.preserveFormatting === false ? 0 : 1,
+      job.includeComments ? 1 : 0,
+      job.hierarchySource ?? null,
+      job.hierarchyColumnIndex ?? null,
+      job.mergedCellStrategy ?? 'first',
+      job.floatingImageMode ?? null,
+      job.floatingImageColumnIndex ?? null,
+      job.multiTabMode ?? null,
+      job.tabSettings ? JSON.stringify(job.tabSettings) : null,
+      job.includeSourceTabColumn ? 1 : 0,
+      job.targetWorkspaceId ?? null,
+      job.targetFolderId ?? null,
+      job.migrationId ?? null
     ];
 
     // Debug: Log parameter types to identify the problematic one
@@ -253,6 +447,14 @@ class SQLiteDatabaseManager {
     stmt.run(JSON.stringify(logs), id);
   }
 
+  public async updateTransferJobTabSettings(id: string, tabSettings: TabTransferSettings[]): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE transfer_jobs SET tab_settings = ? WHERE id = ?
+    `);
+
+    stmt.run(JSON.stringify(tabSettings), id);
+  }
+
   public async updateTransferJobInfo(id: string, sourceInfo?: SourceInfo, targetInfo?: TargetInfo): Promise<void> {
     let query = 'UPDATE transfer_jobs SET';
     const params: any[] = [];
@@ -289,6 +491,17 @@ class SQLiteDatabaseManager {
     return rows.map(row => this.parseTransferJobRow(row));
   }
 
+  public async getInterruptedTransferJobs(): Promise<TransferJob[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM transfer_jobs 
+      WHERE status = 'running' 
+      ORDER BY created_at ASC
+    `);
+
+    const rows = stmt.all() as any[];
+    return rows.map(row => this.parseTransferJobRow(row));
+  }
+
   private parseTransferJobRow(row: any): TransferJob {
     return {
       id: row.id,
@@ -310,6 +523,25 @@ class SQLiteDatabaseManager {
       dryRun: Boolean(row.dry_run),
       headerRowIndex: row.header_row_index,
       selectedColumns: row.selected_columns ? JSON.parse(row.selected_columns) : undefined,
+      priority: row.priority ?? 0,
+      syncMode: Boolean(row.sync_mode),
+      lineageId: row.lineage_id ?? undefined,
+      deleteRemovedRows: Boolean(row.delete_removed_rows),
+      upsertKeyColumnIndex: row.upsert_key_column_index ?? undefined,
+      scheduleId: row.schedule_id ?? undefined,
+      preserveFormatting: row.preserve_formatting !== 0,
+      includeComments: Boolean(row.include_comments),
+      hierarchySource: row.hierarchy_source ?? undefined,
+      hierarchyColumnIndex: row.hierarchy_column_index ?? undefined,
+      mergedCellStrategy: row.merged_cell_strategy ?? 'first',
+      floatingImageMode: row.floating_image_mode ?? undefined,
+      floatingImageColumnIndex: row.floating_image_column_index ?? undefined,
+      multiTabMode: row.multi_tab_mode ?? undefined,
+      tabSettings: row.tab_settings ? JSON.parse(row.tab_settings) : undefined,
+      includeSourceTabColumn: Boolean(row.include_source_tab_column),
+      targetWorkspaceId: row.target_workspace_id ?? undefined,
+      targetFolderId: row.target_folder_id ?? undefined,
+      migrationId: row.migration_id ?? undefined,
       sourceInfo: row.source_info ? JSON.parse(row.source_info) : undefined,
       targetInfo: row.target_info ? JSON.parse(row.target_info) : undefined,
       createdAt: new Date(row.created_at),
@@ -317,11 +549,497 @@ class SQLiteDatabaseManager {
     };
   }
 
+  // Transfer checkpoint operations
+  // A batch's progress and checkpoint are written together, so a crash can't leave one ahead of the other
+  public async recordBatchCheckpoint(
+    jobId: string,
+    progress: TransferJob['progress'],
+    checkpoint: Omit<TransferCheckpoint, 'jobId' | 'updatedAt'>
+  ): Promise<void> {
+    const progressStmt = this.db.prepare(`
+      UPDATE transfer_jobs SET status = 'running', progress = ? WHERE id = ?
+    `);
+    const checkpointStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO transfer_checkpoints (job_id, tab_name, batch_index, inserted_rows, pending_images, hierarchy, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    const recordBoth = this.db.transaction(() => {
+      progressStmt.run(JSON.stringify(progress), jobId);
+      checkpointStmt.run(
+        jobId,
+        checkpoint.tabName,
+        checkpoint.batchIndex,
+        checkpoint.insertedRows,
+        JSON.stringify(checkpoint.pendingImages),
+        checkpoint.hierarchy ? JSON.stringify(checkpoint.hierarchy) : null
+      );
+    });
+
+    recordBoth();
+  }
+
+  public async getTransferCheckpoint(jobId: string): Promise<TransferCheckpoint | null> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM transfer_checkpoints WHERE job_id = ?
+    `);
+
+    const row = stmt.get(jobId) as any;
+    if (!row) return null;
+
+    return {
+      jobId: row.job_id,
+      tabName: row.tab_name,
+      batchIndex: row.batch_index,
+      insertedRows: row.inserted_rows,
+      pendingImages: JSON.parse(row.pending_images),
+      hierarchy: row.hierarchy ? JSON.parse(row.hierarchy) : undefined,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  public async deleteTransferCheckpoint(jobId: string): Promise<void> {
+    const stmt = this.db.prepare(`
+      DELETE FROM transfer_checkpoints WHERE job_id = ?
+    `);
+
+    stmt.run(jobId);
+  }
+
+  // Job queue operations
+  public async enqueueTransferJob(jobId: string, userId: string, priority: number = 0): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO job_queue (job_id, user_id, priority, state)
+      VALUES (?, ?, ?, 'waiting')
+    `);
+
+    stmt.run(jobId, userId, priority);
+  }
+
+  public async getWaitingQueueEntries(): Promise<QueueEntry[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM job_queue 
+      WHERE state = 'waiting' 
+      ORDER BY priority DESC, id ASC
+    `);
+
+    const rows = stmt.all() as any[];
+    return rows.map(row => this.parseQueueEntryRow(row));
+  }
+
+  public async getActiveQueueEntries(): Promise<QueueEntry[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM job_queue WHERE state = 'active'
+    `);
+
+    const rows = stmt.all() as any[];
+    return rows.map(row => this.parseQueueEntryRow(row));
+  }
+
+  public async markQueueEntryActive(jobId: string): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE job_queue SET state = 'active', started_at = CURRENT_TIMESTAMP WHERE job_id = ?
+    `);
+
+    stmt.run(jobId);
+  }
+
+  public async resetActiveQueueEntries(): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE job_queue SET state = 'waiting', started_at = NULL WHERE state = 'active'
+    `);
+
+    stmt.run();
+  }
+
+  public async removeQueueEntry(jobId: string): Promise<void> {
+    const stmt = this.db.prepare(`
+      DELETE FROM job_queue WHERE job_id = ?
+    `);
+
+    stmt.run(jobId);
+  }
+
+  public async getQueuePosition(jobId: string): Promise<number | null> {
+    const entry = this.db.prepare(`
+      SELECT * FROM job_queue WHERE job_id = ? AND state = 'waiting'
+    `).get(jobId) as any;
+    if (!entry) return null;
+
+    const ahead = this.db.prepare(`
+      SELECT COUNT(*) AS count FROM job_queue 
+      WHERE state = 'waiting' AND (priority > ? OR (priority = ? AND id < ?))
+    `).get(entry.priority, entry.priority, entry.id) as { count: number };
+
+    return ahead.count + 1;
+  }
+
+  private parseQueueEntryRow(row: any): QueueEntry {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      userId: row.user_id,
+      priority: row.priority,
+      state: row.state,
+      enqueuedAt: new Date(row.enqueued_at),
+      startedAt: row.started_at ? new Date(row.started_at) : undefined
+    };
+  }
+
+  public async getScheduleTransferJobs(scheduleId: string, limit: number = 20): Promise<TransferJob[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM transfer_jobs 
+      WHERE schedule_id = ? 
+      ORDER BY created_at DESC 
+      LIMIT ?
+    `);
+
+    const rows = stmt.all(scheduleId, limit) as any[];
+    return rows.map(row => this.parseTransferJobRow(row));
+  }
+
+  public async getMigrationTransferJobs(migrationId: string): Promise<TransferJob[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM transfer_jobs 
+      WHERE migration_id = ? 
+      ORDER BY created_at ASC
+    `);
+
+    const rows = stmt.all(migrationId) as any[];
+    return rows.map(row => this.parseTransferJobRow(row));
+  }
+
+  // Folder migration operations
+  public async createFolderMigration(
+    migration: Omit<FolderMigration, 'createdAt' | 'updatedAt' | 'completedAt' | 'progress'>
+  ): Promise<FolderMigration> {
+    const stmt = this.db.prepare(`
+      INSERT INTO folder_migrations (
+        id, user_id, drive_folder_id, drive_folder_name, workspace_id, status, folders_created, spreadsheets_found, failures
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      migration.id,
+      migration.userId,
+      migration.driveFolderId,
+      migration.driveFolderName,
+      migration.workspaceId,
+      migration.status,
+      migration.foldersCreated,
+      migration.spreadsheetsFound,
+      JSON.stringify(migration.failures)
+    );
+
+    return (await this.getFolderMigrationById(migration.id))!;
+  }
+
+  public async getFolderMigrationById(id: string): Promise<FolderMigration | null> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM folder_migrations WHERE id = ?
+    `);
+
+    const row = stmt.get(id) as any;
+    if (!row) return null;
+
+    return this.parseFolderMigrationRow(row);
+  }
+
+  public async getUserFolderMigrations(userId: string): Promise<FolderMigration[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM folder_migrations WHERE user_id = ? ORDER BY created_at DESC
+    `);
+
+    const rows = stmt.all(userId) as any[];
+    return rows.map(row => this.parseFolderMigrationRow(row));
+  }
+
+  public async getFolderMigrationsByStatus(status: FolderMigration['status']): Promise<FolderMigration[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM folder_migrations WHERE status = ?
+    `);
+
+    const rows = stmt.all(status) as any[];
+    return rows.map(row => this.parseFolderMigrationRow(row));
+  }
+
+  public async updateFolderMigration(
+    id: string,
+    update: Partial<Pick<FolderMigration, 'status' | 'foldersCreated' | 'spreadsheetsFound' | 'failures'>>
+  ): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE folder_migrations SET
+        status = COALESCE(?, status), folders_created = COALESCE(?, folders_created),
+        spreadsheets_found = COALESCE(?, spreadsheets_found), failures = COALESCE(?, failures),
+        completed_at = CASE WHEN ? IN ('completed', 'completed_with_errors', 'failed', 'cancelled') THEN CURRENT_TIMESTAMP ELSE completed_at END,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+    stmt.run(
+      update.status ?? null,
+      update.foldersCreated ?? null,
+      update.spreadsheetsFound ?? null,
+      update.failures ? JSON.stringify(update.failures) : null,
+      update.status ?? null,
+      id
+    );
+  }
+
+  private parseFolderMigrationRow(row: any): FolderMigration {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      driveFolderId: row.drive_folder_id,
+      driveFolderName: row.drive_folder_name,
+      workspaceId: row.workspace_id,
+      status: row.status,
+      foldersCreated: row.folders_created ?? 0,
+      spreadsheetsFound: row.spreadsheets_found ?? 0,
+      failures: row.failures ? JSON.parse(row.failures) : [],
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    };
+  }
+
+  // Schedule operations
+  public async createSchedule(schedule: Omit<TransferSchedule, 'createdAt' | 'updatedAt'>): Promise<TransferSchedule> {
+    const stmt = this.db.prepare(`
+      INSERT INTO schedules (
+        id, user_id, name, cron_expression, google_spreadsheet_id, google_sheet_tabs, smartsheet_id,
+        column_mappings, header_row_index, selected_columns, sync_mode, delete_removed_rows,
+        upsert_key_column_index, preserve_formatting, include_comments, hierarchy_source, hierarchy_column_index,
+        merged_cell_strategy, floating_image_mode, floating_image_column_index, multi_tab_mode, tab_settings,
+        include_source_tab_column, target_workspace_id, target_folder_id, status, next_run_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      schedule.id,
+      schedule.userId,
+      schedule.name,
+      schedule.cronExpression,
+      schedule.googleSpreadsheetId,
+      JSON.stringify(schedule.googleSheetTabs),
+      schedule.smartsheetId,
+      JSON.stringify(schedule.columnMappings),
+      schedule.headerRowIndex ?? null,
+      schedule.selectedColumns ? JSON.stringify(schedule.selectedColumns) : null,
+      schedule.syncMode ? 1 : 0,
+      schedule.deleteRemovedRows ? 1 : 0,
+      schedule.upsertKeyColumnIndex ?? null,
+      schedule.preserveFormatting === false ? 0 : 1,
+      schedule.includeComments ? 1 : 0,
+      schedule.hierarchySource ?? null,
+      schedule.hierarchyColumnIndex ?? null,
+      schedule.mergedCellStrategy ?? 'first',
+      schedule.floatingImageMode ?? null,
+      schedule.floatingImageColumnIndex ?? null,
+      schedule.multiTabMode ?? null,
+      schedule.tabSettings ? JSON.stringify(schedule.tabSettings) : null,
+      schedule.includeSourceTabColumn ? 1 : 0,
+      schedule.targetWorkspaceId ?? null,
+      schedule.targetFolderId ?? null,
+      schedule.status,
+      schedule.nextRunAt ? schedule.nextRunAt.toISOString() : null
+    );
+
+    return (await this.getScheduleById(schedule.id))!;
+  }
+
+  public async getScheduleById(id: string): Promise<TransferSchedule | null> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM schedules WHERE id = ?
+    `);
+
+    const row = stmt.get(id) as any;
+    if (!row) return null;
+
+    return this.parseScheduleRow(row);
+  }
+
+  public async getUserSchedules(userId: string): Promise<TransferSchedule[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM schedules WHERE user_id = ? ORDER BY created_at DESC
+    `);
+
+    const rows = stmt.all(userId) as any[];
+    return rows.map(row => this.parseScheduleRow(row));
+  }
+
+  public async getDueSchedules(now: Date): Promise<TransferSchedule[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM schedules 
+      WHERE status = 'active' AND next_run_at IS NOT NULL AND next_run_at <= ?
+      ORDER BY next_run_at ASC
+    `);
+
+    const rows = stmt.all(now.toISOString()) as any[];
+    return rows.map(row => this.parseScheduleRow(row));
+  }
+
+  public async updateSchedule(schedule: TransferSchedule): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE schedules SET
+        name = ?, cron_expression = ?, google_spreadsheet_id = ?, google_sheet_tabs = ?, smartsheet_id = ?,
+        column_mappings = ?, header_row_index = ?, selected_columns = ?, sync_mode = ?, delete_removed_rows = ?,
+        upsert_key_column_index = ?, preserve_formatting = ?, include_comments = ?, hierarchy_source = ?,
+        hierarchy_column_index = ?, merged_cell_strategy = ?, floating_image_mode = ?, floating_image_column_index = ?,
+        multi_tab_mode = ?, tab_settings = ?, include_source_tab_column = ?, target_workspace_id = ?, target_folder_id = ?,
+        status = ?, next_run_at = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+    stmt.run(
+      schedule.name,
+      schedule.cronExpression,
+      schedule.googleSpreadsheetId,
+      JSON.stringify(schedule.googleSheetTabs),
+      schedule.smartsheetId,
+      JSON.stringify(schedule.columnMappings),
+      schedule.headerRowIndex ?? null,
+      schedule.selectedColumns ? JSON.stringify(schedule.selectedColumns) : null,
+      schedule.syncMode ? 1 : 0,
+      schedule.deleteRemovedRows ? 1 : 0,
+      schedule.upsertKeyColumnIndex ?? null,
+      schedule.preserveFormatting === false ? 0 : 1,
+      schedule.includeComments ? 1 : 0,
+      schedule.hierarchySource ?? null,
+      schedule.hierarchyColumnIndex ?? null,
+      schedule.mergedCellStrategy ?? 'first',
+      schedule.floatingImageMode ?? null,
+      schedule.floatingImageColumnIndex ?? null,
+      schedule.multiTabMode ?? null,
+      schedule.tabSettings ? JSON.stringify(schedule.tabSettings) : null,
+      schedule.includeSourceTabColumn ? 1 : 0,
+      schedule.targetWorkspaceId ?? null,
+      schedule.targetFolderId ?? null,
+      schedule.status,
+      schedule.nextRunAt ? schedule.nextRunAt.toISOString() : null,
+      schedule.id
+    );
+  }
+
+  public async recordScheduleRun(
+    id: string,
+    run: { lastRunAt?: Date; nextRunAt?: Date; lastJobId?: string; lastError?: string }
+  ): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE schedules SET
+        last_run_at = COALESCE(?, last_run_at), next_run_at = ?, last_job_id = COALESCE(?, last_job_id),
+        last_error = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+    stmt.run(
+      run.lastRunAt ? run.lastRunAt.toISOString() : null,
+      run.nextRunAt ? run.nextRunAt.toISOString() : null,
+      run.lastJobId ?? null,
+      run.lastError ?? null,
+      id
+    );
+  }
+
+  public async deleteSchedule(id: string): Promise<void> {
+    const stmt = this.db.prepare(`
+      DELETE FROM schedules WHERE id = ?
+    `);
+
+    stmt.run(id);
+  }
+
+  private parseScheduleRow(row: any): TransferSchedule {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      cronExpression: row.cron_expression,
+      googleSpreadsheetId: row.google_spreadsheet_id,
+      googleSheetTabs: JSON.parse(row.google_sheet_tabs),
+      smartsheetId: row.smartsheet_id,
+      columnMappings: JSON.parse(row.column_mappings),
+      headerRowIndex: row.header_row_index ?? undefined,
+      selectedColumns: row.selected_columns ? JSON.parse(row.selected_columns) : undefined,
+      syncMode: Boolean(row.sync_mode),
+      deleteRemovedRows: Boolean(row.delete_removed_rows),
+      upsertKeyColumnIndex: row.upsert_key_column_index ?? undefined,
+      preserveFormatting: row.preserve_formatting !== 0,
+      includeComments: Boolean(row.include_comments),
+      hierarchySource: row.hierarchy_source ?? undefined,
+      hierarchyColumnIndex: row.hierarchy_column_index ?? undefined,
+      mergedCellStrategy: row.merged_cell_strategy ?? 'first',
+      floatingImageMode: row.floating_image_mode ?? undefined,
+      floatingImageColumnIndex: row.floating_image_column_index ?? undefined,
+      multiTabMode: row.multi_tab_mode ?? undefined,
+      tabSettings: row.tab_settings ? JSON.parse(row.tab_settings) : undefined,
+      includeSourceTabColumn: Boolean(row.include_source_tab_column),
+      targetWorkspaceId: row.target_workspace_id ?? undefined,
+      targetFolderId: row.target_folder_id ?? undefined,
+      status: row.status,
+      nextRunAt: row.next_run_at ? new Date(row.next_run_at) : undefined,
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+      lastJobId: row.last_job_id ?? undefined,
+      lastError: row.last_error ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  // Sync fingerprint operations
+  public async getSyncFingerprints(lineageId: string): Promise<SyncFingerprint[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM sync_fingerprints WHERE lineage_id = ?
+    `);
+
+    const rows = stmt.all(lineageId) as any[];
+    return rows.map(row => ({
+      lineageId: row.lineage_id,
+      tabName: row.tab_name,
+      rowIndex: row.row_index,
+      fingerprint: row.fingerprint,
+      smartsheetRowId: row.smartsheet_row_id,
+      updatedAt: new Date(row.updated_at)
+    }));
+  }
+
+  public async saveSyncFingerprints(fingerprints: Array<Omit<SyncFingerprint, 'updatedAt'>>): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO sync_fingerprints (lineage_id, smartsheet_row_id, tab_name, row_index, fingerprint, updated_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    const saveAll = this.db.transaction((records: Array<Omit<SyncFingerprint, 'updatedAt'>>) => {
+      for (const record of records) {
+        stmt.run(record.lineageId, record.smartsheetRowId, record.tabName, record.rowIndex, record.fingerprint);
+      }
+    });
+
+    saveAll(fingerprints);
+  }
+
+  public async deleteSyncFingerprints(lineageId: string, smartsheetRowIds: number[]): Promise<void> {
+    const stmt = this.db.prepare(`
+      DELETE FROM sync_fingerprints WHERE lineage_id = ? AND smartsheet_row_id = ?
+    `);
+
+    const deleteAll = this.db.transaction((rowIds: number[]) => {
+      for (const rowId of rowIds) {
+        stmt.run(lineageId, rowId);
+      }
+    });
+
+    deleteAll(smartsheetRowIds);
+  }
+
   // Image cache operations
   public async cacheImage(hash: string, smartsheetImageId: string, url: string): Promise<void> {
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO image_cache (hash, smartsheet_image_id, url)
-      VALUES (?, ?, ?)
+      INSERT INTO image_cache (hash, smartsheet_image_id, url, last_used_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(hash) DO UPDATE SET
+        smartsheet_image_id = excluded.smartsheet_image_id,
+        last_used_at = CURRENT_TIMESTAMP
     `);
 
     stmt.run(hash, smartsheetImageId, url);
@@ -333,13 +1051,135 @@ class SQLiteDatabaseManager {
     `);
 
     const row = stmt.get(hash) as any;
-    if (!row) return null;
+    return row ? this.parseImageCacheRow(row) : null;
+  }
 
+  // Records bytes kept in the local image store, leaving any cached Smartsheet image ID in place, and the URL and
+  // Drive file they were downloaded from. Sources are keyed 'url:<url>' or 'drive:<file ID>'.
+  public async saveStoredImage(
+    image: Omit<ImageCache, 'smartsheetImageId' | 'createdAt' | 'lastUsedAt'>
+  ): Promise<void> {
+    const imageStmt = this.db.prepare(`
+      INSERT INTO image_cache (hash, smartsheet_image_id, url, drive_file_id, drive_modified_time, size, mime_type, filename, last_used_at)
+      VALUES (?, '', ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(hash) DO UPDATE SET
+        size = excluded.size,
+        mime_type = excluded.mime_type,
+        filename = excluded.filename,
+        last_used_at = CURRENT_TIMESTAMP
+    `);
+    const sourceStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO image_sources (source, hash, drive_modified_time, last_used_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    const saveAll = this.db.transaction(() => {
+      imageStmt.run(
+        image.hash,
+        image.url,
+        image.driveFileId || null,
+        image.driveModifiedTime || null,
+        image.size,
+        image.mimeType || null,
+        image.filename || null
+      );
+      sourceStmt.run(`url:${image.url}`, image.hash, null);
+      if (image.driveFileId) {
+        sourceStmt.run(`drive:${image.driveFileId}`, image.hash, image.driveModifiedTime || null);
+      }
+    });
+
+    saveAll();
+  }
+
+  public async getStoredImageByDriveFile(driveFileId: string, modifiedTime: string): Promise<ImageCache | null> {
+    const stmt = this.db.prepare(`
+      SELECT image_cache.* FROM image_sources
+      JOIN image_cache ON image_cache.hash = image_sources.hash
+      WHERE image_sources.source = ? AND image_sources.drive_modified_time = ? AND image_cache.size > 0
+    `);
+
+    const row = stmt.get(`drive:${driveFileId}`, modifiedTime) as any;
+    return row ? this.parseImageCacheRow(row) : null;
+  }
+
+  public async getStoredImageByUrl(url: string, usedSince: Date): Promise<ImageCache | null> {
+    const stmt = this.db.prepare(`
+      SELECT image_cache.* FROM image_sources
+      JOIN image_cache ON image_cache.hash = image_sources.hash
+      WHERE image_sources.source = ? AND image_sources.last_used_at >= ? AND image_cache.size > 0
+    `);
+
+    const row = stmt.get(`url:${url}`, usedSince.toISOString().replace('T', ' ').slice(0, 19)) as any;
+    return row ? this.parseImageCacheRow(row) : null;
+  }
+
+  // Marks stored bytes as used, and the URL they were found by when given
+  public async touchCachedImage(hash: string, url?: string): Promise<void> {
+    const imageStmt = this.db.prepare(`
+      UPDATE image_cache SET last_used_at = CURRENT_TIMESTAMP WHERE hash = ?
+    `);
+    const sourceStmt = this.db.prepare(`
+      UPDATE image_sources SET last_used_at = CURRENT_TIMESTAMP WHERE source = ?
+    `);
+
+    imageStmt.run(hash);
+    if (url) {
+      sourceStmt.run(`url:${url}`);
+    }
+  }
+
+  public async getImageStoreSize(): Promise<number> {
+    const row = this.db.prepare('SELECT COALESCE(SUM(size), 0) AS total FROM image_cache').get() as any;
+    return row.total;
+  }
+
+  // Stored images, least recently used first
+  public async getLeastRecentlyUsedImages(limit: number): Promise<ImageCache[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM image_cache
+      WHERE size > 0
+      ORDER BY COALESCE(last_used_at, created_at) ASC
+      LIMIT ?
+    `);
+
+    return (stmt.all(limit) as any[]).map(row => this.parseImageCacheRow(row));
+  }
+
+  // Forgets stored bytes that left the disk. An image already uploaded to Smartsheet keeps its row so the upload
+  // is still reused.
+  public async forgetStoredImageBytes(hash: string): Promise<void> {
+    const imageStmt = this.db.prepare(`
+      UPDATE image_cache SET size = 0 WHERE hash = ? AND smartsheet_image_id != ''
+    `);
+    const unusedStmt = this.db.prepare(`
+      DELETE FROM image_cache WHERE hash = ? AND smartsheet_image_id = ''
+    `);
+    const sourceStmt = this.db.prepare(`
+      DELETE FROM image_sources WHERE hash = ?
+    `);
+
+    const forgetAll = this.db.transaction(() => {
+      imageStmt.run(hash);
+      unusedStmt.run(hash);
+      sourceStmt.run(hash);
+    });
+
+    forgetAll();
+  }
+
+  private parseImageCacheRow(row: any): ImageCache {
     return {
       hash: row.hash,
       smartsheetImageId: row.smartsheet_image_id,
       url: row.url,
-      createdAt: new Date(row.created_at)
+      driveFileId: row.drive_file_id ?? undefined,
+      driveModifiedTime: row.drive_modified_time ?? undefined,
+      size: row.size ?? 0,
+      mimeType: row.mime_type ?? undefined,
+      filename: row.filename ?? undefined,
+      createdAt: new Date(row.created_at),
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined
     };
   }
 
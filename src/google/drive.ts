@@ -2,7 +2,23 @@ import { google } from 'googleapis';
 import axios from 'axios';
 import { googleAuthService } from '../auth/google';
 import { encryptionService } from '../utils/encryption';
-import { EncryptedTokens } from '../types';
+import { ConcurrencyPool } from '../utils/concurrency';
+import { EncryptedTokens, GoogleDriveComment, GoogleDriveFile } from '../types';
+import { isGoogleQuotaError, withGoogleRetry } from './retry';
+
+// Metadata lookups made at the same time when classifying linked files
+const METADATA_CONCURRENCY = 8;
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const SPREADSHEET_MIME_TYPE = 'application/vnd.google-apps.spreadsheet';
+
+// Files in Drive's own formats have no bytes to download, so they are exported instead
+const EXPORT_FORMATS: { [mimeType: string]: { mimeType: string; extension: string } } = {
+  'application/vnd.google-apps.document': { mimeType: 'application/pdf', extension: 'pdf' },
+  'application/vnd.google-apps.spreadsheet': { mimeType: 'application/pdf', extension: 'pdf' },
+  'application/vnd.google-apps.presentation': { mimeType: 'application/pdf', extension: 'pdf' },
+  'application/vnd.google-apps.drawing': { mimeType: 'image/png', extension: 'png' }
+};
 
 export class GoogleDriveService {
   public async downloadImage(
@@ -23,13 +39,194 @@ export class GoogleDriveService {
         return await this.downloadDirectUrl(imageUrl);
       }
     } catch (error: any) {
-      if (error.code === 403) {
+      if (error.code === 403 && !isGoogleQuotaError(error)) {
         throw new Error('Access denied to image file');
       }
       throw new Error(`Failed to download image: ${error.message}`);
     }
   }
 
+  // Changes whenever the file's content does, so it tells whether stored bytes are still current
+  public async getFileModifiedTime(encryptedTokens: EncryptedTokens, fileId: string): Promise<string | undefined> {
+    const oauth2Client = googleAuthService.createOAuth2Client(encryptedTokens);
+    const driveClient = google.drive({ version: 'v3', auth: oauth2Client });
+
+    const response = await withGoogleRetry(() => driveClient.files.get({
+      fileId,
+      fields: 'modifiedTime'
+    }), 'files.get');
+
+    return response.data.modifiedTime || undefined;
+  }
+
+  // Name, MIME type and size of each file. Files that can't be looked up are left out.
+  public async getFilesInfo(encryptedTokens: EncryptedTokens, fileIds: string[]): Promise<Map<string, GoogleDriveFile>> {
+    const oauth2Client = googleAuthService.createOAuth2Client(encryptedTokens);
+    const driveClient = google.drive({ version: 'v3', auth: oauth2Client });
+    const pool = new ConcurrencyPool(METADATA_CONCURRENCY);
+    const files = new Map<string, GoogleDriveFile>();
+
+    await Promise.all(fileIds.map(fileId => pool.run(async () => {
+      try {
+        const response = await withGoogleRetry(() => driveClient.files.get({
+          fileId,
+          fields: 'id,name,mimeType,size,webViewLink',
+          supportsAllDrives: true
+        }), 'files.get');
+
+        const { name, mimeType, size, webViewLink } = response.data;
+        files.set(fileId, {
+          id: fileId,
+          name: name || fileId,
+          mimeType: mimeType || 'application/octet-stream',
+          size: size ? parseInt(size, 10) : undefined,
+          webViewLink: webViewLink || undefined
+        });
+      } catch (error: any) {
+        if (isGoogleQuotaError(error)) throw error;
+        // Not shared with the user or deleted; the cell is read as if it were a plain link
+      }
+    })));
+
+    return files;
+  }
+
+  public async getFolder(encryptedTokens: EncryptedTokens, folderId: string): Promise<GoogleDriveFile> {
+    const oauth2Client = googleAuthService.createOAuth2Client(encryptedTokens);
+    const driveClient = google.drive({ version: 'v3', auth: oauth2Client });
+
+    let file;
+    try {
+      const response = await withGoogleRetry(() => driveClient.files.get({
+        fileId: folderId,
+        fields: 'id,name,mimeType',
+        supportsAllDrives: true
+      }), 'files.get');
+      file = response.data;
+    } catch (error: any) {
+      if (error.code === 404) {
+        throw new Error('Drive folder not found');
+      }
+      throw new Error(`Failed to get Drive folder: ${error.message}`);
+    }
+
+    if (file.mimeType !== FOLDER_MIME_TYPE) {
+      throw new Error(`"${file.name}" is not a folder`);
+    }
+    return { id: folderId, name: file.name || folderId, mimeType: FOLDER_MIME_TYPE };
+  }
+
+  // The spreadsheets and subfolders directly inside a folder, in name order. Trashed files are left out.
+  public async listFolder(
+    encryptedTokens: EncryptedTokens,
+    folderId: string
+  ): Promise<{ folders: GoogleDriveFile[]; spreadsheets: GoogleDriveFile[] }> {
+    const oauth2Client = googleAuthService.createOAuth2Client(encryptedTokens);
+    const driveClient = google.drive({ version: 'v3', auth: oauth2Client });
+    const contents: { folders: GoogleDriveFile[]; spreadsheets: GoogleDriveFile[] } = { folders: [], spreadsheets: [] };
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await withGoogleRetry(() => driveClient.files.list({
+          q: `'${folderId}' in parents and trashed = false and ` +
+            `(mimeType = '${FOLDER_MIME_TYPE}' or mimeType = '${SPREADSHEET_MIME_TYPE}')`,
+          fields: 'nextPageToken,files(id,name,mimeType)',
+          orderBy: 'name',
+          pageSize: 1000,
+          pageToken,
+          supportsAllDrives: true,
+          includeItemsFromAllDrives: true
+        }), 'files.list');
+
+        for (const file of response.data.files || []) {
+          if (!file.id) continue;
+          const entry = { id: file.id, name: file.name || file.id, mimeType: file.mimeType || '' };
+          (entry.mimeType === FOLDER_MIME_TYPE ? contents.folders : contents.spreadsheets).push(entry);
+        }
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error: any) {
+      throw new Error(`Failed to list Drive folder: ${error.message}`);
+    }
+
+    return contents;
+  }
+
+  // Downloads any Drive file, exporting Docs, Sheets, Slides and Drawings to a format they can be attached in
+  public async downloadFile(
+    encryptedTokens: EncryptedTokens,
+    file: GoogleDriveFile
+  ): Promise<{ buffer: Buffer; mimeType: string; filename: string }> {
+    const oauth2Client = googleAuthService.createOAuth2Client(encryptedTokens);
+    const driveClient = google.drive({ version: 'v3', auth: oauth2Client });
+    const exportFormat = EXPORT_FORMATS[file.mimeType];
+
+    try {
+      if (exportFormat) {
+        const response = await withGoogleRetry(() => driveClient.files.export({
+          fileId: file.id,
+          mimeType: exportFormat.mimeType
+        }, {
+          responseType: 'arraybuffer'
+        }), 'files.export');
+
+        return {
+          buffer: Buffer.from(response.data as ArrayBuffer),
+          mimeType: exportFormat.mimeType,
+          filename: `${file.name}.${exportFormat.extension}`
+        };
+      }
+
+      if (file.mimeType.startsWith('application/vnd.google-apps.')) {
+        throw new Error(`Drive files of type ${file.mimeType} can't be downloaded`);
+      }
+
+      const response = await withGoogleRetry(() => driveClient.files.get({
+        fileId: file.id,
+        alt: 'media',
+        supportsAllDrives: true
+      }, {
+        responseType: 'arraybuffer'
+      }), 'files.get');
+
+      return { buffer: Buffer.from(response.data as ArrayBuffer), mimeType: file.mimeType, filename: file.name };
+    } catch (error: any) {
+      if (isGoogleQuotaError(error)) {
+        throw new Error('Google Drive quota exceeded');
+      }
+      if (error.errors?.[0]?.reason === 'exportSizeLimitExceeded') {
+        throw new Error('File too large to export from Drive (max 10MB)');
+      }
+      if (error.code === 403) {
+        throw new Error('Access denied to Drive file');
+      }
+      if (error.code === 404) {
+        throw new Error('Drive file not found');
+      }
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+  }
+
+  // Uses the export link rather than files.export, which refuses exports over 10MB and photos soon add up to that
+  public async exportSpreadsheetAsXlsx(encryptedTokens: EncryptedTokens, spreadsheetId: string): Promise<Buffer> {
+    const oauth2Client = googleAuthService.createOAuth2Client(encryptedTokens);
+
+    try {
+      const response = await withGoogleRetry<{ data: ArrayBuffer }>(() => oauth2Client.request({
+        url: `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=xlsx`,
+        responseType: 'arraybuffer'
+      }), 'spreadsheet export');
+
+      return Buffer.from(response.data);
+    } catch (error: any) {
+      if (isGoogleQuotaError(error)) {
+        throw new Error('Google Drive quota exceeded');
+      }
+      throw new Error(`Failed to export spreadsheet: ${error.message}`);
+    }
+  }
+
   private async downloadDriveFile(
     encryptedTokens: EncryptedTokens,
     fileId: string
@@ -39,10 +236,10 @@ export class GoogleDriveService {
 
     try {
       // Get file metadata first
-      const metadataResponse = await driveClient.files.get({
+      const metadataResponse = await withGoogleRetry(() => driveClient.files.get({
         fileId,
         fields: 'name,mimeType,size'
-      });
+      }), 'files.get');
 
       const { name, mimeType, size } = metadataResponse.data;
       
@@ -52,12 +249,12 @@ export class GoogleDriveService {
       }
 
       // Download file content
-      const response = await driveClient.files.get({
+      const response = await withGoogleRetry(() => driveClient.files.get({
         fileId,
         alt: 'media'
       }, {
         responseType: 'arraybuffer'
-      });
+      }), 'files.get');
 
       const buffer = Buffer.from(response.data as ArrayBuffer);
       
@@ -67,6 +264,9 @@ export class GoogleDriveService {
         filename: name || `image_${fileId}.jpg`
       };
     } catch (error: any) {
+      if (isGoogleQuotaError(error)) {
+        throw new Error('Google Drive quota exceeded');
+      }
       if (error.code === 403) {
         throw new Error('Access denied to Drive file');
       }
@@ -84,14 +284,14 @@ export class GoogleDriveService {
       // Fix malformed Google Drive URLs
       const fixedUrl = imageUrl.replace('export=&id=', 'export=download&id=');
       
-      const response = await axios.get(fixedUrl, {
+      const response = await withGoogleRetry(() => axios.get(fixedUrl, {
         responseType: 'arraybuffer',
         timeout: 30000, // 30 seconds timeout
         maxContentLength: 10 * 1024 * 1024, // 10MB limit
         headers: {
           'User-Agent': 'Google-Smartsheet-Transfer/1.0'
         }
-      });
+      }), 'image download');
 
       const buffer = Buffer.from(response.data);
       const mimeType = response.headers['content-type'] || 'image/jpeg';
@@ -119,6 +319,57 @@ export class GoogleDriveService {
     }
   }
 
+  // Lists every undeleted comment thread on a file, following pagination
+  public async getFileComments(
+    encryptedTokens: EncryptedTokens,
+    fileId: string
+  ): Promise<GoogleDriveComment[]> {
+    const oauth2Client = googleAuthService.createOAuth2Client(encryptedTokens);
+    const driveClient = google.drive({ version: 'v3', auth: oauth2Client });
+    const comments: GoogleDriveComment[] = [];
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await withGoogleRetry(() => driveClient.comments.list({
+          fileId,
+          pageToken,
+          pageSize: 100,
+          fields: 'nextPageToken,comments(id,author(displayName),content,createdTime,resolved,deleted,anchor,quotedFileContent(value),replies(author(displayName),content,createdTime,deleted))'
+        }), 'comments.list');
+
+        for (const comment of response.data.comments || []) {
+          if (comment.deleted || !comment.id) continue;
+          comments.push({
+            id: comment.id,
+            author: comment.author?.displayName || 'Unknown',
+            content: comment.content || '',
+            createdTime: comment.createdTime || undefined,
+            resolved: Boolean(comment.resolved),
+            anchor: comment.anchor || undefined,
+            quotedValue: comment.quotedFileContent?.value || undefined,
+            replies: (comment.replies || [])
+              .filter(reply => !reply.deleted && reply.content)
+              .map(reply => ({
+                author: reply.author?.displayName || 'Unknown',
+                content: reply.content!,
+                createdTime: reply.createdTime || undefined
+              }))
+          });
+        }
+
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return comments;
+    } catch (error: any) {
+      if (error.code === 403 && !isGoogleQuotaError(error)) {
+        throw new Error('Access denied to file comments');
+      }
+      throw new Error(`Failed to get file comments: ${error.message}`);
+    }
+  }
+
   public async validateImageAccess(
     encryptedTokens: EncryptedTokens,
     imageUrl: string,
@@ -129,10 +380,10 @@ export class GoogleDriveService {
         const oauth2Client = googleAuthService.createOAuth2Client(encryptedTokens);
         const driveClient = google.drive({ version: 'v3', auth: oauth2Client });
 
-        await driveClient.files.get({
+        await withGoogleRetry(() => driveClient.files.get({
           fileId: driveFileId,
           fields: 'id'
-        });
+        }), 'files.get');
       } else {
         await axios.head(imageUrl, {
           timeout: 10000,
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import config from '../config';
+import { isGoogleQuotaError, withGoogleRetry } from './retry';
+
+const apiError = (status: number, reason?: string): Error =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, data: { error: { errors: reason ? [{ reason }] : [] } } }
+  });
+
+describe('isGoogleQuotaError', () => {
+  it('accepts 429 and 403 responses with a quota reason', () => {
+    expect(isGoogleQuotaError(apiError(429))).toBe(true);
+    expect(isGoogleQuotaError(apiError(403, 'userRateLimitExceeded'))).toBe(true);
+    expect(isGoogleQuotaError(Object.assign(new Error('quota'), { code: 403, errors: [{ reason: 'rateLimitExceeded' }] }))).toBe(true);
+  });
+
+  it('rejects permission errors', () => {
+    expect(isGoogleQuotaError(apiError(403, 'forbidden'))).toBe(false);
+    expect(isGoogleQuotaError(apiError(403))).toBe(false);
+  });
+});
+
+describe('withGoogleRetry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('retries a quota 403 until it succeeds', async () => {
+    const operation = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(apiError(403, 'rateLimitExceeded'))
+      .mockResolvedValueOnce('values');
+
+    const result = withGoogleRetry(operation, 'read');
+    await jest.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('values');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a 403 without a quota reason', async () => {
+    const operation = jest.fn<() => Promise<string>>().mockRejectedValue(apiError(403, 'forbidden'));
+
+    await expect(withGoogleRetry(operation, 'read')).rejects.toThrow('status code 403');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying server errors after the configured limit', async () => {
+    const operation = jest.fn<() => Promise<string>>().mockRejectedValue(apiError(503));
+
+    const result = withGoogleRetry(operation, 'read');
+    const failure = expect(result).rejects.toThrow('status code 503');
+    await jest.runAllTimersAsync();
+
+    await failure;
+    expect(operation).toHaveBeenCalledTimes(config.google.maxRetries + 1);
+  });
+});
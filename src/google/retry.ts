@@ -0,0 +1,41 @@
+import config from '../config';
+
+// Per-user and per-project quota errors come back as 403 with one of these reasons, or as a plain 429
+const QUOTA_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded'];
+const MAX_BACKOFF_MS = 64 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function errorStatus(error: any): number | undefined {
+  const status = Number(error?.response?.status ?? error?.code);
+  return isNaN(status) ? undefined : status;
+}
+
+export function isGoogleQuotaError(error: any): boolean {
+  const status = errorStatus(error);
+  if (status === 429) return true;
+
+  const reasons = [...(error?.errors || []), ...(error?.response?.data?.error?.errors || [])]
+    .map((detail: any) => detail?.reason);
+  return status === 403 && reasons.some(reason => QUOTA_REASONS.includes(reason));
+}
+
+// Runs a Sheets or Drive call, retrying quota errors and 5xx responses with exponential backoff and jitter
+export async function withGoogleRetry<T>(operation: () => Promise<T>, description: string): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error: any) {
+      const status = errorStatus(error);
+      const retryable = isGoogleQuotaError(error) || (status !== undefined && status >= 500 && status < 600);
+      if (!retryable || attempt >= config.google.maxRetries) {
+        throw error;
+      }
+
+      const ceiling = Math.min(config.google.retryBaseDelayMs * 2 ** attempt, MAX_BACKOFF_MS);
+      const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+      console.warn(`⏳ Google API ${status} on ${description}, retrying in ${delay}ms (attempt ${attempt + 1}/${config.google.maxRetries})`);
+      await sleep(delay);
+    }
+  }
+}
@@ -1,7 +1,42 @@
 import { google, sheets_v4 } from 'googleapis';
 import { googleAuthService } from '../auth/google';
 import { encryptionService } from '../utils/encryption';
-import { GoogleSheet, GoogleSheetTab, GoogleCellValue, EncryptedTokens } from '../types';
+import { googleDriveService } from './drive';
+import {
+  GoogleSheet,
+  GoogleSheetTab,
+  GoogleCellValue,
+  GoogleCellChip,
+  GoogleCellFormat,
+  GoogleDataValidation,
+  GoogleDriveFile,
+  GoogleSpreadsheetSettings,
+  SheetReadOptions,
+  SheetRowWindow,
+  EncryptedTokens
+} from '../types';
+import config from '../config';
+import { applyMergedCellStrategy, MergedRange } from '../utils/mergedCells';
+import { findFloatingImages, FloatingImageSource } from '../utils/floatingImages';
+import { columnIndexToLetters } from '../utils/formulas';
+import { isGoogleQuotaError, withGoogleRetry } from './retry';
+import { parseLocaleDate, parseLocaleNumber, serialToIsoDate } from '../utils/cellValues';
+
+// Number formats whose cells hold numbers even when the value was entered as text
+const NUMERIC_FORMAT_TYPES = ['NUMBER', 'CURRENCY', 'PERCENT', 'SCIENTIFIC'];
+
+// Size of a tab's grid and its merged ranges
+export interface TabLayout {
+  rowCount: number;
+  columnCount: number;
+  merges: MergedRange[];
+}
+
+// What every read of a spreadsheet's tabs needs up front, fetched once for a job that reads them several times
+export interface SpreadsheetLayout {
+  settings: GoogleSpreadsheetSettings;
+  tabs: Map<string, TabLayout>;
+}
 
 export class GoogleSheetsService {
   private async createSheetsClient(encryptedTokens: EncryptedTokens): Promise<sheets_v4.Sheets> {
@@ -17,12 +52,12 @@ export class GoogleSheetsService {
         auth: googleAuthService.createOAuth2Client(encryptedTokens) 
       });
 
-      const response = await driveClient.files.list({
+      const response = await withGoogleRetry(() => driveClient.files.list({
         q: "mimeType='application/vnd.google-apps.spreadsheet' and trashed=false",
         fields: 'files(id,name,modifiedTime)',
         orderBy: 'modifiedTime desc',
         pageSize: 100
-      });
+      }), 'files.list');
 
       const spreadsheets: GoogleSheet[] = [];
 
@@ -54,10 +89,10 @@ export class GoogleSheetsService {
     try {
       const sheetsClient = await this.createSheetsClient(encryptedTokens);
       
-      const response = await sheetsClient.spreadsheets.get({
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.get({
         spreadsheetId,
         fields: 'sheets(properties(sheetId,title,gridProperties(rowCount,columnCount)))'
-      });
+      }), 'spreadsheets.get');
 
       const sheets = response.data.sheets || [];
       
@@ -74,63 +109,259 @@ export class GoogleSheetsService {
     }
   }
 
-  public async getSpreadsheetData(
+  // Locale settings and the grid of each of the given tabs, in one request
+  public async getSpreadsheetLayout(
     encryptedTokens: EncryptedTokens,
     spreadsheetId: string,
-    sheetTabs: string[],
-    includeFormulas: boolean = true,
-    headerRowIndex?: number
-  ): Promise<{ [tabName: string]: GoogleCellValue[][] }> {
+    tabNames: string[]
+  ): Promise<SpreadsheetLayout> {
     try {
       const sheetsClient = await this.createSheetsClient(encryptedTokens);
-      const data: { [tabName: string]: GoogleCellValue[][] } = {};
-
-      for (const tabName of sheetTabs) {
-        try {
-          // If headerRowIndex is provided, get data starting from that row
-          // Otherwise get all data and let the caller handle it
-          const range = headerRowIndex !== undefined 
-            ? `'${tabName}'!A${headerRowIndex + 1}:ZZ` // Get from header row to end, all columns and rows
-            : `'${tabName}'`;
-          
-          
-          const valueRenderOption = includeFormulas ? 'FORMULA' : 'FORMATTED_VALUE';
-          
-          const [valuesResponse, formulasResponse, sheetDataResponse] = await Promise.all([
-            sheetsClient.spreadsheets.values.get({
-              spreadsheetId,
-              range,
-              valueRenderOption: 'FORMATTED_VALUE'
-            }),
-            includeFormulas ? sheetsClient.spreadsheets.values.get({
-              spreadsheetId,
-              range,
-              valueRenderOption: 'FORMULA'
-            }) : Promise.resolve({ data: { values: [] } }),
-            // Get sheet data with embedded objects to detect images
-            sheetsClient.spreadsheets.get({
-              spreadsheetId,
-              ranges: [range],
-              includeGridData: true,
-              fields: 'sheets(data(rowData(values(effectiveValue,formattedValue,hyperlink,textFormatRuns,note))))'
-            }).catch(() => ({ data: { sheets: [] } })) // Fallback if this fails
-          ]);
-
-          const values = valuesResponse.data.values || [];
-          const formulas = formulasResponse.data.values || [];
-          const embeddedData = sheetDataResponse.data.sheets?.[0]?.data?.[0]?.rowData || [];
-          
-          const processedData = this.processSheetData(values, formulas, embeddedData);
-          data[tabName] = processedData;
-        } catch (error) {
-          console.warn(`Failed to get data for tab ${tabName}:`, error);
-          data[tabName] = [];
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.get({
+        spreadsheetId,
+        ranges: tabNames.map(tabName => `'${tabName}'`),
+        fields: 'properties(locale,timeZone),sheets(properties(title,gridProperties(rowCount,columnCount)),merges)'
+      }), 'spreadsheets.get');
+
+      const tabs = new Map<string, TabLayout>();
+      for (const sheet of response.data.sheets || []) {
+        tabs.set(sheet.properties?.title || '', {
+          rowCount: sheet.properties?.gridProperties?.rowCount || 0,
+          columnCount: sheet.properties?.gridProperties?.columnCount || 0,
+          merges: sheet.merges || []
+        });
+      }
+
+      return {
+        settings: {
+          locale: response.data.properties?.locale || undefined,
+          timeZone: response.data.properties?.timeZone || undefined
+        },
+        tabs
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get spreadsheet layout: ${error.message}`);
+    }
+  }
+
+  // Reads a tab from fromRowIndex (0-based) in windows of rows, so a large tab never has to be held in memory at once.
+  // Each window spans every column in the tab's grid. Blank rows are only yielded when data follows them, which drops
+  // the empty rows at the end of the grid the same way the values API does. Callers that read the same spreadsheet
+  // more than once pass its layout in; otherwise it is looked up for this read.
+  public async *readTabWindows(
+    encryptedTokens: EncryptedTokens,
+    spreadsheetId: string,
+    tabName: string,
+    fromRowIndex: number = 0,
+    options: SheetReadOptions = {},
+    spreadsheetLayout?: SpreadsheetLayout
+  ): AsyncGenerator<SheetRowWindow> {
+    const sheetsClient = await this.createSheetsClient(encryptedTokens);
+    const settings = spreadsheetLayout?.settings || await this.getSpreadsheetSettings(sheetsClient, spreadsheetId);
+    const layout = spreadsheetLayout?.tabs.get(tabName) || await this.getTabLayout(sheetsClient, spreadsheetId, tabName);
+    const windowRows = Math.max(1, options.windowRows || config.transfer.readWindowRows);
+    const lastColumn = columnIndexToLetters(Math.max(layout.columnCount, 1) - 1);
+    // Merges that run past the end of a window fill in from the value read in the earlier window
+    const carriedMerges = new Map<string, GoogleCellValue>();
+    // Drive lookups already made for this tab; null when the file couldn't be looked up
+    const driveFiles = new Map<string, GoogleDriveFile | null>();
+    let blankRows = 0;
+
+    for (let start = fromRowIndex; start < layout.rowCount; start += windowRows) {
+      const end = Math.min(start + windowRows, layout.rowCount);
+      const rows = await this.readRange(sheetsClient, spreadsheetId, `'${tabName}'!A${start + 1}:${lastColumn}${end}`, options, settings);
+
+      if (rows.length === 0) {
+        blankRows += end - start;
+        continue;
+      }
+      await this.classifyDriveLinks(encryptedTokens, rows, driveFiles);
+
+      const padding: GoogleCellValue[][] = Array.from({ length: blankRows }, () => []);
+      const window: SheetRowWindow = { startRowIndex: start - blankRows, rows: [...padding, ...rows] };
+      if (options.mergedCells) {
+        applyMergedCellStrategy(window.rows, layout.merges, window.startRowIndex, options.mergedCells, carriedMerges);
+      }
+
+      yield window;
+      blankRows = end - start - rows.length;
+    }
+  }
+
+  // Pictures placed over the grid aren't in the Sheets API at all, so they are read from an XLSX export
+  public async getFloatingImages(
+    encryptedTokens: EncryptedTokens,
+    spreadsheetId: string,
+    tabNames: string[]
+  ): Promise<FloatingImageSource> {
+    const xlsx = await googleDriveService.exportSpreadsheetAsXlsx(encryptedTokens, spreadsheetId);
+    const source = findFloatingImages(xlsx);
+    return { ...source, anchors: source.anchors.filter(anchor => tabNames.includes(anchor.tabName)) };
+  }
+
+  // Looks up the Drive files that cells link to. Links to files that aren't images, such as PDFs, documents and
+  // drawings, stop being read as images so they can be attached to rows instead.
+  private async classifyDriveLinks(
+    encryptedTokens: EncryptedTokens,
+    rows: GoogleCellValue[][],
+    known: Map<string, GoogleDriveFile | null>
+  ): Promise<void> {
+    const linked: Array<{ cell: GoogleCellValue; fileId: string }> = [];
+    for (const row of rows) {
+      for (const cell of row) {
+        const fileId = cell.imageId || (cell.hyperlink ? this.extractDriveImageFromValue(cell.hyperlink)?.id : undefined);
+        if (fileId) {
+          linked.push({ cell, fileId });
+        }
+      }
+    }
+
+    const unknown = Array.from(new Set(linked.map(link => link.fileId).filter(fileId => !known.has(fileId))));
+    if (unknown.length > 0) {
+      const files = await googleDriveService.getFilesInfo(encryptedTokens, unknown);
+      for (const fileId of unknown) {
+        known.set(fileId, files.get(fileId) || null);
+      }
+    }
+
+    for (const { cell, fileId } of linked) {
+      const file = known.get(fileId);
+      if (!file) continue;
+
+      cell.driveFile = file;
+      if (cell.isImage && !file.mimeType.startsWith('image/')) {
+        cell.isImage = false;
+        cell.imageUrl = undefined;
+        cell.imageId = undefined;
+        cell.hyperlink = cell.hyperlink || file.webViewLink;
+        if (cell.value === '' || cell.value === 'Embedded Image') {
+          cell.value = file.name;
+        }
+      }
+    }
+  }
+
+  private async getTabLayout(
+    sheetsClient: sheets_v4.Sheets,
+    spreadsheetId: string,
+    tabName: string
+  ): Promise<TabLayout> {
+    const response = await withGoogleRetry(() => sheetsClient.spreadsheets.get({
+      spreadsheetId,
+      ranges: [`'${tabName}'`],
+      fields: 'sheets(properties(gridProperties(rowCount,columnCount)),merges)'
+    }), 'spreadsheets.get');
+
+    const sheet = response.data.sheets?.[0];
+    return {
+      rowCount: sheet?.properties?.gridProperties?.rowCount || 0,
+      columnCount: sheet?.properties?.gridProperties?.columnCount || 0,
+      merges: sheet?.merges || []
+    };
+  }
+
+  private async readRange(
+    sheetsClient: sheets_v4.Sheets,
+    spreadsheetId: string,
+    range: string,
+    options: SheetReadOptions,
+    settings: GoogleSpreadsheetSettings
+  ): Promise<GoogleCellValue[][]> {
+    const includeFormulas = options.includeFormulas !== false;
+    const cellFields = [
+      'effectiveValue',
+      'formattedValue',
+      'hyperlink',
+      'textFormatRuns',
+      'chipRuns',
+      'note',
+      'dataValidation',
+      // Formats make the response much larger, so they are only requested when they will be used
+      options.includeFormatting
+        ? 'effectiveFormat(numberFormat(type),backgroundColor,backgroundColorStyle,horizontalAlignment,verticalAlignment,textFormat)'
+        : 'effectiveFormat(numberFormat(type))',
+      ...(includeFormulas ? ['userEnteredValue(formulaValue)'] : [])
+    ];
+
+    const [valuesResponse, unformattedResponse, sheetDataResponse] = await Promise.all([
+      withGoogleRetry(() => sheetsClient.spreadsheets.values.get({
+        spreadsheetId,
+        range,
+        valueRenderOption: 'FORMATTED_VALUE'
+      }), 'spreadsheets.values.get'),
+      // Typed values: numbers without formatting and dates as serial numbers
+      withGoogleRetry(() => sheetsClient.spreadsheets.values.get({
+        spreadsheetId,
+        range,
+        valueRenderOption: 'UNFORMATTED_VALUE',
+        dateTimeRenderOption: 'SERIAL_NUMBER'
+      }), 'spreadsheets.values.get'),
+      // Get sheet data with embedded objects to detect images
+      withGoogleRetry(() => sheetsClient.spreadsheets.get({
+        spreadsheetId,
+        ranges: [range],
+        includeGridData: true,
+        fields: `sheets(data(rowData(values(${cellFields.join(',')}))))`
+      }), 'spreadsheets.get').catch(error => {
+        // Fallback if this fails, unless it's the quota, which would fail the value reads as well
+        if (isGoogleQuotaError(error)) throw error;
+        return { data: { sheets: [] as sheets_v4.Schema$Sheet[] } };
+      })
+    ]);
+
+    const values = valuesResponse.data.values || [];
+    const unformatted = unformattedResponse.data.values || [];
+    const gridDataRead = (sheetDataResponse.data.sheets || []).length > 0;
+    const embeddedData = sheetDataResponse.data.sheets?.[0]?.data?.[0]?.rowData || [];
+
+    // Formulas come with the grid data; the FORMULA render is only needed when that read failed
+    let formulas: any[][] = [];
+    if (includeFormulas && gridDataRead) {
+      formulas = embeddedData.map(row => (row.values || []).map(cell => cell.userEnteredValue?.formulaValue || ''));
+    } else if (includeFormulas) {
+      const formulasResponse = await withGoogleRetry(() => sheetsClient.spreadsheets.values.get({
+        spreadsheetId,
+        range,
+        valueRenderOption: 'FORMULA'
+      }), 'spreadsheets.values.get');
+      formulas = formulasResponse.data.values || [];
+    }
+
+    const processedData = this.processSheetData(values, formulas, embeddedData);
+    this.applyTypedValues(processedData, unformatted, embeddedData, settings);
+    if (options.includeFormatting) {
+      this.applyCellFormats(processedData, embeddedData);
+    }
+    await this.resolveValidationRanges(sheetsClient, spreadsheetId, processedData);
+    return processedData;
+  }
+
+  // Group depth of each sheet row (0-based index), from the tab's row groups. Rows outside any group are left unset.
+  public async getRowGroupDepths(
+    encryptedTokens: EncryptedTokens,
+    spreadsheetId: string,
+    tabName: string
+  ): Promise<number[]> {
+    try {
+      const sheetsClient = await this.createSheetsClient(encryptedTokens);
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.get({
+        spreadsheetId,
+        ranges: [`'${tabName}'`],
+        fields: 'sheets(rowGroups(range(startIndex,endIndex),depth))'
+      }), 'spreadsheets.get');
+
+      const depths: number[] = [];
+      for (const group of response.data.sheets?.[0]?.rowGroups || []) {
+        const start = group.range?.startIndex ?? 0;
+        const end = group.range?.endIndex ?? start;
+        for (let row = start; row < end; row++) {
+          depths[row] = Math.max(depths[row] || 0, group.depth || 0);
         }
       }
 
-      return data;
+      return depths;
     } catch (error: any) {
-      throw new Error(`Failed to get spreadsheet data: ${error.message}`);
+      throw new Error(`Failed to get row groups for ${tabName}: ${error.message}`);
     }
   }
 
@@ -159,7 +390,8 @@ export class GoogleSheetsService {
         
         const cellData: GoogleCellValue = {
           value: cellValue,
-          formula: formula !== cellValue ? formula : undefined,
+          // Non-formula cells come back from the FORMULA render as plain numbers, booleans or text
+          formula: typeof formula === 'string' && formula.startsWith('=') ? formula : undefined,
           isImage: false
         };
 
@@ -202,6 +434,26 @@ export class GoogleSheetsService {
           }
         }
 
+        if (embeddedCell?.dataValidation) {
+          cellData.validation = this.parseDataValidation(embeddedCell.dataValidation);
+        }
+
+        if (embeddedCell?.note) {
+          cellData.note = embeddedCell.note;
+        }
+
+        if (embeddedCell?.chipRuns) {
+          const chips = this.parseChipRuns(embeddedCell);
+          if (chips.length > 0) {
+            cellData.chips = chips;
+            // A file chip links its file, so it is classified, attached or linked like any other Drive link
+            const fileChip = chips.find(chip => chip.type === 'file');
+            if (fileChip && !cellData.isImage && !cellData.hyperlink) {
+              cellData.hyperlink = fileChip.uri;
+            }
+          }
+        }
+
         // Check cell value for Google Drive image links (for directly imported images with URLs)
         if (!cellData.isImage && cellValue && typeof cellValue === 'string') {
           const driveImageMatch = this.extractDriveImageFromValue(cellValue);
@@ -221,6 +473,195 @@ export class GoogleSheetsService {
     return processedData;
   }
 
+  // Each chip run covers the cell's text from its startIndex to the next run's. Date chips don't appear here:
+  // the API reports them as date-formatted values, which applyTypedValues already reads as dates.
+  private parseChipRuns(embeddedCell: any): GoogleCellChip[] {
+    const runs: any[] = embeddedCell.chipRuns || [];
+    const text = String(embeddedCell.formattedValue ?? '');
+    const chips: GoogleCellChip[] = [];
+
+    runs.forEach((run, index) => {
+      if (!run.chip) return; // Plain text between chips
+      const chipText = text.slice(run.startIndex ?? 0, runs[index + 1]?.startIndex ?? text.length).trim();
+      const { personProperties, richLinkProperties } = run.chip;
+
+      if (personProperties?.email) {
+        chips.push({ type: 'person', text: chipText || personProperties.email, email: personProperties.email });
+      } else if (richLinkProperties?.uri) {
+        chips.push({ type: 'file', text: chipText, uri: richLinkProperties.uri, mimeType: richLinkProperties.mimeType || undefined });
+      } else {
+        chips.push({ type: 'unknown', text: chipText });
+      }
+    });
+
+    return chips;
+  }
+
+  private async getSpreadsheetSettings(
+    sheetsClient: sheets_v4.Sheets,
+    spreadsheetId: string
+  ): Promise<GoogleSpreadsheetSettings> {
+    try {
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.get({
+        spreadsheetId,
+        fields: 'properties(locale,timeZone)'
+      }), 'spreadsheets.get');
+      return {
+        locale: response.data.properties?.locale || undefined,
+        timeZone: response.data.properties?.timeZone || undefined
+      };
+    } catch (error) {
+      console.warn(`Failed to get locale for spreadsheet ${spreadsheetId}, assuming en_US:`, error);
+      return {};
+    }
+  }
+
+  // Numbers and booleans come from the unformatted values; serial numbers in date-formatted cells become ISO dates.
+  // Text is only read in the spreadsheet's locale when the cell is formatted as a date or number, so text such as
+  // IDs and zip codes like "01234" stays text.
+  private applyTypedValues(
+    rows: GoogleCellValue[][],
+    unformatted: any[][],
+    embeddedData: sheets_v4.Schema$RowData[],
+    settings: GoogleSpreadsheetSettings
+  ): void {
+    rows.forEach((row, rowIndex) => {
+      row.forEach((cell, colIndex) => {
+        if (cell.isImage) return;
+        const raw = unformatted[rowIndex]?.[colIndex];
+        const numberType = embeddedData[rowIndex]?.values?.[colIndex]?.effectiveFormat?.numberFormat?.type;
+
+        if (typeof raw === 'number') {
+          if (numberType === 'DATE' || numberType === 'DATE_TIME') {
+            cell.dateValue = serialToIsoDate(raw, numberType === 'DATE_TIME');
+          } else if (numberType !== 'TIME') {
+            cell.typedValue = raw;
+          }
+        } else if (typeof raw === 'boolean') {
+          cell.typedValue = raw;
+        } else if (typeof raw === 'string' && raw.trim() !== '') {
+          if (numberType === 'DATE' || numberType === 'DATE_TIME') {
+            cell.dateValue = parseLocaleDate(raw, settings);
+          } else if (numberType && NUMERIC_FORMAT_TYPES.includes(numberType)) {
+            cell.typedValue = parseLocaleNumber(raw, settings.locale);
+          }
+        }
+      });
+    });
+  }
+
+  private applyCellFormats(rows: GoogleCellValue[][], embeddedData: sheets_v4.Schema$RowData[]): void {
+    rows.forEach((row, rowIndex) => {
+      row.forEach((cell, colIndex) => {
+        const embeddedCell = embeddedData[rowIndex]?.values?.[colIndex];
+        if (embeddedCell?.effectiveFormat) {
+          cell.format = this.parseCellFormat(embeddedCell);
+        }
+      });
+    });
+  }
+
+  private parseCellFormat(cell: sheets_v4.Schema$CellData): GoogleCellFormat | undefined {
+    const effectiveFormat = cell.effectiveFormat!;
+    const textFormat = effectiveFormat.textFormat || {};
+    const runs = cell.textFormatRuns || [];
+    // Smartsheet has no rich text, so a style only carries over when it covers the whole cell
+    const styled = (key: 'bold' | 'italic' | 'underline' | 'strikethrough'): boolean | undefined =>
+      textFormat[key] || (runs.length > 0 && runs.every(run => run.format?.[key])) || undefined;
+
+    const format: GoogleCellFormat = {
+      bold: styled('bold'),
+      italic: styled('italic'),
+      underline: styled('underline'),
+      strikethrough: styled('strikethrough'),
+      fontFamily: textFormat.fontFamily || undefined,
+      fontSize: textFormat.fontSize || undefined,
+      textColor: this.colorToHex(textFormat.foregroundColorStyle?.rgbColor || textFormat.foregroundColor),
+      backgroundColor: this.colorToHex(effectiveFormat.backgroundColorStyle?.rgbColor || effectiveFormat.backgroundColor),
+      horizontalAlignment: ['LEFT', 'CENTER', 'RIGHT'].includes(effectiveFormat.horizontalAlignment || '')
+        ? effectiveFormat.horizontalAlignment as GoogleCellFormat['horizontalAlignment']
+        : undefined,
+      verticalAlignment: ['TOP', 'MIDDLE', 'BOTTOM'].includes(effectiveFormat.verticalAlignment || '')
+        ? effectiveFormat.verticalAlignment as GoogleCellFormat['verticalAlignment']
+        : undefined
+    };
+
+    return Object.values(format).some(value => value !== undefined) ? format : undefined;
+  }
+
+  // Google omits color channels that are 0
+  private colorToHex(color?: sheets_v4.Schema$Color | null): string | undefined {
+    if (!color) return undefined;
+    const channel = (value?: number | null) => Math.round((value || 0) * 255).toString(16).padStart(2, '0');
+    return `#${channel(color.red)}${channel(color.green)}${channel(color.blue)}`.toUpperCase();
+  }
+
+  // Only dropdown-style rules are kept; number/date/custom rules have no Smartsheet equivalent
+  private parseDataValidation(rule: sheets_v4.Schema$DataValidationRule): GoogleDataValidation | undefined {
+    const type = rule.condition?.type;
+    const conditionValues = (rule.condition?.values || [])
+      .map(conditionValue => conditionValue.userEnteredValue)
+      .filter((value): value is string => typeof value === 'string' && value !== '');
+
+    if (type === 'ONE_OF_LIST') {
+      return { type, values: conditionValues, strict: rule.strict === true };
+    }
+
+    if (type === 'ONE_OF_RANGE' && conditionValues[0]) {
+      return {
+        type,
+        values: [],
+        strict: rule.strict === true,
+        sourceRange: conditionValues[0].replace(/^=/, '')
+      };
+    }
+
+    return undefined;
+  }
+
+  // Fills in the allowed values of ONE_OF_RANGE rules, fetching each distinct range once
+  private async resolveValidationRanges(
+    sheetsClient: sheets_v4.Sheets,
+    spreadsheetId: string,
+    rows: GoogleCellValue[][]
+  ): Promise<void> {
+    const rangeRules: GoogleDataValidation[] = [];
+    for (const row of rows) {
+      for (const cell of row) {
+        if (cell.validation?.sourceRange) {
+          rangeRules.push(cell.validation);
+        }
+      }
+    }
+
+    const ranges = Array.from(new Set(rangeRules.map(rule => rule.sourceRange!)));
+    if (ranges.length === 0) return;
+
+    try {
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges,
+        valueRenderOption: 'FORMATTED_VALUE'
+      }), 'spreadsheets.values.batchGet');
+
+      const valuesByRange = new Map<string, string[]>();
+      (response.data.valueRanges || []).forEach((valueRange, index) => {
+        const values = (valueRange.values || [])
+          .flat()
+          .map(value => String(value ?? '').trim())
+          .filter(value => value !== '');
+        valuesByRange.set(ranges[index], Array.from(new Set(values)));
+      });
+
+      for (const rule of rangeRules) {
+        rule.values = valuesByRange.get(rule.sourceRange!) || [];
+      }
+    } catch (error) {
+      // Leave the rules without values; callers then fall back to inferring from the data
+      console.warn('Failed to resolve data validation ranges:', error);
+    }
+  }
+
   private extractImageFromFormula(formula: string): { url: string; id?: string } | null {
     const imageRegex = /=IMAGE\s*\(\s*"([^"]+)"\s*[^)]*\)/i;
     const hyperlinkImageRegex = /=HYPERLINK\s*\([^,]+,\s*IMAGE\s*\(\s*"([^"]+)"\s*[^)]*\)\s*\)/i;
@@ -267,11 +708,11 @@ export class GoogleSheetsService {
       const sheetsClient = await this.createSheetsClient(encryptedTokens);
       
       // Get first 5 rows to analyze for the best header row
-      const response = await sheetsClient.spreadsheets.values.get({
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.values.get({
         spreadsheetId,
         range: `'${sheetTab}'!1:5`,
         valueRenderOption: 'FORMATTED_VALUE'
-      });
+      }), 'spreadsheets.values.get');
 
       const rows = response.data.values || [];
       const bestHeaderRow = this.findBestHeaderRow(rows);
@@ -293,11 +734,11 @@ export class GoogleSheetsService {
       const sheetsClient = await this.createSheetsClient(encryptedTokens);
       
       // Get first 5 rows to analyze for the best header row
-      const response = await sheetsClient.spreadsheets.values.get({
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.values.get({
         spreadsheetId,
         range: `'${sheetTab}'!1:5`,
         valueRenderOption: 'FORMATTED_VALUE'
-      });
+      }), 'spreadsheets.values.get');
 
       const rows = response.data.values || [];
       const bestHeaderRow = this.findBestHeaderRow(rows);
@@ -327,33 +768,22 @@ export class GoogleSheetsService {
       const sheetsClient = await this.createSheetsClient(encryptedTokens);
       
       // Get sheet metadata to determine actual column count
-      const metadataResponse = await sheetsClient.spreadsheets.get({
+      const metadataResponse = await withGoogleRetry(() => sheetsClient.spreadsheets.get({
         spreadsheetId,
         fields: 'sheets(properties(title,gridProperties(columnCount)))'
-      });
+      }), 'spreadsheets.get');
       
       const sheet = metadataResponse.data.sheets?.find(s => s.properties?.title === sheetTab);
       const columnCount = sheet?.properties?.gridProperties?.columnCount || 26;
       
-      // Convert column count to column letter (A, B, C, ... AA, AB, etc.)
-      const getColumnLetter = (num: number): string => {
-        let result = '';
-        while (num > 0) {
-          num--;
-          result = String.fromCharCode(65 + (num % 26)) + result;
-          num = Math.floor(num / 26);
-        }
-        return result;
-      };
-      
-      const lastColumn = getColumnLetter(columnCount);
+      const lastColumn = columnIndexToLetters(columnCount - 1);
       
       // Get first 10 rows for header selection using full column range
-      const response = await sheetsClient.spreadsheets.values.get({
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.values.get({
         spreadsheetId,
         range: `'${sheetTab}'!A1:${lastColumn}10`,
         valueRenderOption: 'FORMATTED_VALUE'
-      });
+      }), 'spreadsheets.values.get');
 
       const rows = response.data.values || [];
       
@@ -569,10 +999,10 @@ export class GoogleSheetsService {
     try {
       const sheetsClient = await this.createSheetsClient(encryptedTokens);
       
-      const response = await sheetsClient.spreadsheets.get({
+      const response = await withGoogleRetry(() => sheetsClient.spreadsheets.get({
         spreadsheetId,
         fields: 'properties(title)'
-      });
+      }), 'spreadsheets.get');
 
       return {
         title: response.data.properties?.title || 'Unknown Spreadsheet'
@@ -590,10 +1020,10 @@ export class GoogleSheetsService {
     try {
       const sheetsClient = await this.createSheetsClient(encryptedTokens);
       
-      await sheetsClient.spreadsheets.get({
+      await withGoogleRetry(() => sheetsClient.spreadsheets.get({
         spreadsheetId,
         fields: 'properties(title)'
-      });
+      }), 'spreadsheets.get');
 
       return true;
     } catch (error: any) {
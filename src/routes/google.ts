@@ -4,7 +4,13 @@ import { googleDriveService } from '../google/drive';
 import { googleAuthService } from '../auth/google';
 import database from '../database';
 import { requireAuth } from '../middleware/security';
-import { APIResponse } from '../types';
+import { inferColumnTypes } from '../utils/columnTypes';
+import { APIResponse, GoogleCellValue } from '../types';
+
+// Rows returned per tab by the preview
+const PREVIEW_ROWS = 10;
+// Data rows read to suggest column types
+const COLUMN_TYPE_SAMPLE_ROWS = 500;
 
 const router = Router();
 
@@ -193,45 +199,50 @@ router.post('/spreadsheets/:spreadsheetId/preview', async (req: Request, res: Re
       user.googleTokens
     );
 
-    // Get sample data (first 10 rows) for preview
-    const data = await googleSheetsService.getSpreadsheetData(
-      validTokens,
-      spreadsheetId,
-      sheetTabs,
-      true
-    );
-
-    // Count total rows and images
+    // Tabs are read a window at a time; only the first rows of each are kept for the preview
+    const data: { [tabName: string]: GoogleCellValue[][] } = {};
+    const tabRowCounts: { [tabName: string]: number } = {};
     let totalRows = 0;
     let totalImages = 0;
-    const images: Array<{ url: string; driveFileId?: string }> = [];
-
-    for (const [tabName, tabData] of Object.entries(data)) {
-      totalRows += Math.max(0, tabData.length - 1); // Exclude header row
-      
-      for (const row of tabData) {
-        for (const cell of row) {
-          if (cell.isImage && cell.imageUrl) {
-            totalImages++;
-            images.push({
-              url: cell.imageUrl,
-              driveFileId: cell.imageId
-            });
+    const imageValidationSample: Array<{ url: string; driveFileId?: string }> = [];
+    const layout = await googleSheetsService.getSpreadsheetLayout(validTokens, spreadsheetId, sheetTabs);
+
+    for (const tabName of sheetTabs) {
+      data[tabName] = [];
+      tabRowCounts[tabName] = 0;
+
+      const windows = googleSheetsService.readTabWindows(validTokens, spreadsheetId, tabName, 0, { includeFormulas: true }, layout);
+      for await (const window of windows) {
+        data[tabName].push(...window.rows.slice(0, Math.max(0, PREVIEW_ROWS - data[tabName].length)));
+        tabRowCounts[tabName] = window.startRowIndex + window.rows.length;
+
+        for (const row of window.rows) {
+          for (const cell of row) {
+            if (cell.isImage && cell.imageUrl) {
+              totalImages++;
+              // Validate image access (sample of first 20 images)
+              if (imageValidationSample.length < 20) {
+                imageValidationSample.push({
+                  url: cell.imageUrl,
+                  driveFileId: cell.imageId
+                });
+              }
+            }
           }
         }
       }
+
+      totalRows += Math.max(0, tabRowCounts[tabName] - 1); // Exclude header row
     }
 
-    // Validate image access (sample of first 20 images)
-    const imageValidationSample = images.slice(0, 20);
     const imageValidationResults = await googleDriveService.batchValidateImages(
       validTokens,
       imageValidationSample
     );
 
     const inaccessibleImages = imageValidationResults.filter(result => !result.accessible).length;
-    const estimatedInaccessibleImages = images.length > 20 
-      ? Math.round((inaccessibleImages / imageValidationSample.length) * images.length)
+    const estimatedInaccessibleImages = totalImages > 20 
+      ? Math.round((inaccessibleImages / imageValidationSample.length) * totalImages)
       : inaccessibleImages;
 
     res.json({
@@ -239,6 +250,7 @@ router.post('/spreadsheets/:spreadsheetId/preview', async (req: Request, res: Re
       data: {
         preview: data,
         summary: {
+          tabRowCounts,
           totalRows,
           totalImages,
           inaccessibleImages: estimatedInaccessibleImages,
@@ -254,6 +266,70 @@ router.post('/spreadsheets/:spreadsheetId/preview', async (req: Request, res: Re
   }
 });
 
+router.post('/spreadsheets/:spreadsheetId/column-types', async (req: Request, res: Response) => {
+  try {
+    const { spreadsheetId } = req.params;
+    const { sheetTab, headerRowIndex = 0, columns } = req.body;
+
+    if (!sheetTab || typeof sheetTab !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Sheet tab name is required'
+      } as APIResponse);
+    }
+
+    if (!Number.isInteger(headerRowIndex) || headerRowIndex < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Header row index must be a non-negative integer'
+      } as APIResponse);
+    }
+
+    const user = await database.getUserById(req.session.user!.id);
+
+    if (!user?.googleTokens) {
+      return res.status(400).json({
+        success: false,
+        error: 'Google account not connected'
+      } as APIResponse);
+    }
+
+    const validTokens = await googleAuthService.validateAndRefreshTokens(
+      user.id,
+      user.googleTokens
+    );
+
+    // A sample is enough to infer a type and keeps this fast on large tabs, so only the first window is read
+    let sampleRows: GoogleCellValue[][] = [];
+    const windows = googleSheetsService.readTabWindows(validTokens, spreadsheetId, sheetTab, headerRowIndex, {
+      includeFormulas: true,
+      windowRows: COLUMN_TYPE_SAMPLE_ROWS + 1
+    });
+    for await (const window of windows) {
+      sampleRows = window.rows;
+      break;
+    }
+
+    const [headerRow = [], ...dataRows] = sampleRows;
+    const headers = headerRow.map(cell => String(cell?.value ?? '').trim());
+    const columnIndexes: number[] = Array.isArray(columns)
+      ? columns.filter((index: any) => Number.isInteger(index) && index >= 0)
+      : headers.map((_, index) => index);
+
+    const suggestions = inferColumnTypes(dataRows, columnIndexes, headers);
+
+    res.json({
+      success: true,
+      data: suggestions
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
 router.get('/validate-access/:spreadsheetId', async (req: Request, res: Response) => {
   try {
     const { spreadsheetId } = req.params;
@@ -0,0 +1,162 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import database from '../database';
+import { folderMigrationService } from '../services/folderMigration';
+import { requireAuth } from '../middleware/security';
+import { APIResponse, FolderMigration } from '../types';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Loads a migration and checks ownership, sending the error response itself when either fails
+async function loadOwnedMigration(req: Request, res: Response): Promise<FolderMigration | null> {
+  const migration = await database.getFolderMigrationById(req.params.migrationId);
+  if (!migration) {
+    res.status(404).json({
+      success: false,
+      error: 'Migration not found'
+    } as APIResponse);
+    return null;
+  }
+
+  if (migration.userId !== req.session.user!.id) {
+    res.status(403).json({
+      success: false,
+      error: 'Access denied'
+    } as APIResponse);
+    return null;
+  }
+
+  return migration;
+}
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const migrations = await database.getUserFolderMigrations(req.session.user!.id);
+
+    res.json({
+      success: true,
+      data: await Promise.all(migrations.map(migration => folderMigrationService.withProgress(migration)))
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.post('/', [
+  body('driveFolderId').isString().trim().notEmpty().withMessage('Drive folder ID is required'),
+  body('workspaceId').isInt({ min: 1 }).withMessage('Valid Smartsheet workspace ID is required')
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    } as APIResponse);
+  }
+
+  try {
+    // Accept the folder's URL as well as its ID
+    const driveFolderId = req.body.driveFolderId.match(/\/folders\/([\w-]+)/)?.[1] || req.body.driveFolderId;
+    // The ID goes into Drive search queries, so nothing but ID characters is allowed through
+    if (!/^[\w-]+$/.test(driveFolderId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Drive folder ID or URL is not valid'
+      } as APIResponse);
+    }
+
+    const migration = await folderMigrationService.startMigration(
+      req.session.user!.id,
+      driveFolderId,
+      parseInt(req.body.workspaceId, 10)
+    );
+
+    res.json({
+      success: true,
+      data: migration
+    } as APIResponse);
+  } catch (error: any) {
+    if (error.message === 'Drive folder not found' || error.message.endsWith('is not a folder')) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      } as APIResponse);
+    } else {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      } as APIResponse);
+    }
+  }
+});
+
+router.get('/:migrationId', async (req: Request, res: Response) => {
+  try {
+    const migration = await loadOwnedMigration(req, res);
+    if (!migration) return;
+
+    res.json({
+      success: true,
+      data: await folderMigrationService.withProgress(migration)
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.get('/:migrationId/jobs', async (req: Request, res: Response) => {
+  try {
+    const migration = await loadOwnedMigration(req, res);
+    if (!migration) return;
+
+    const jobs = await database.getMigrationTransferJobs(migration.id);
+
+    res.json({
+      success: true,
+      data: jobs
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.post('/:migrationId/cancel', async (req: Request, res: Response) => {
+  try {
+    const migration = await loadOwnedMigration(req, res);
+    if (!migration) return;
+
+    if (migration.status !== 'preparing' && migration.status !== 'running') {
+      return res.status(400).json({
+        success: false,
+        error: 'Migration has already finished'
+      } as APIResponse);
+    }
+
+    await folderMigrationService.cancelMigration(migration);
+    const cancelled = await database.getFolderMigrationById(migration.id);
+
+    res.json({
+      success: true,
+      data: cancelled ? await folderMigrationService.withProgress(cancelled) : undefined
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+export default router;
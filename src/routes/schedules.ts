@@ -0,0 +1,409 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import database from '../database';
+import { transferSchedulerService } from '../services/scheduler';
+import { requireAuth } from '../middleware/security';
+import { getNextCronRun, isValidCronExpression } from '../utils/cron';
+import { APIResponse, TransferJob, TransferSchedule } from '../types';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const scheduleValidators = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  // A schedule created from a template job takes these from the job unless they are given
+  const sourceField = (name: string) => (optional ? body(name).optional() : body(name).if(body('templateJobId').not().exists()));
+  return [
+    field('name').isString().trim().notEmpty().withMessage('Schedule name is required'),
+    field('cronExpression').custom(value => isValidCronExpression(value)).withMessage('Invalid cron expression'),
+    sourceField('googleSpreadsheetId').notEmpty().withMessage('Google spreadsheet ID is required'),
+    sourceField('googleSheetTabs').isArray({ min: 1 }).withMessage('At least one sheet tab is required'),
+    sourceField('smartsheetId').isInt({ min: 1 }).withMessage('Valid Smartsheet ID is required'),
+    sourceField('columnMappings').isArray({ min: 1 }).withMessage('Column mappings are required'),
+    body('headerRowIndex').optional().isInt({ min: 0 }).withMessage('Header row index must be a non-negative integer'),
+    body('selectedColumns').optional().isArray().withMessage('Selected columns must be an array'),
+    body('syncMode').optional().isBoolean().withMessage('Sync mode must be a boolean'),
+    body('deleteRemovedRows').optional().isBoolean().withMessage('Delete removed rows must be a boolean'),
+    body('upsertKeyColumnIndex').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Key column index must be a non-negative integer'),
+    body('preserveFormatting').optional().isBoolean().withMessage('Preserve formatting must be a boolean'),
+    body('includeComments').optional().isBoolean().withMessage('Include comments must be a boolean'),
+    body('hierarchySource').optional({ nullable: true }).isIn(['row_groups', 'column']).withMessage('Hierarchy source must be row_groups or column'),
+    body('hierarchyColumnIndex').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Hierarchy column index must be a non-negative integer'),
+    body('mergedCellStrategy').optional().isIn(['fill', 'first', 'concatenate']).withMessage('Merged cell strategy must be fill, first or concatenate'),
+    body('floatingImageMode').optional({ nullable: true }).isIn(['image_column', 'attachment']).withMessage('Floating image mode must be image_column or attachment'),
+    body('floatingImageColumnIndex').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Floating image column index must be a non-negative integer'),
+    body('multiTabMode').optional({ nullable: true }).isIn(['merge', 'fan_out']).withMessage('Multi-tab mode must be merge or fan_out'),
+    body('tabSettings').optional().isArray().withMessage('Tab settings must be an array'),
+    body('tabSettings.*.tabName').notEmpty().withMessage('Tab settings need a tab name'),
+    body('tabSettings.*.headerRowIndex').optional().isInt({ min: 0 }).withMessage('Tab header row index must be a non-negative integer'),
+    body('tabSettings.*.columnMappings').optional().isArray({ min: 1 }).withMessage('Tab column mappings must be a non-empty array'),
+    body('tabSettings.*.smartsheetId').optional().isInt({ min: 1 }).withMessage('Tab Smartsheet ID must be a valid sheet ID'),
+    body('includeSourceTabColumn').optional().isBoolean().withMessage('Include source tab column must be a boolean'),
+    body('targetWorkspaceId').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Target workspace ID must be a valid workspace ID'),
+    body('targetFolderId').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Target folder ID must be a valid folder ID'),
+    ...(optional ? [] : [body('templateJobId').optional().isString().notEmpty().withMessage('Template job ID must be a string')])
+  ];
+};
+
+// Options that can be cleared take an explicit null; leaving them out keeps the current value
+const nullable = <T>(value: T | null | undefined, current: T | undefined): T | undefined =>
+  value !== undefined ? value ?? undefined : current;
+
+// The same option combinations a one-off transfer rejects, checked before the schedule is saved
+function scheduleOptionsError(schedule: Omit<TransferSchedule, 'createdAt' | 'updatedAt'>): string | undefined {
+  const isMappedColumn = (columnIndex?: number) =>
+    schedule.columnMappings.some((mapping, index) => !mapping.skip && (mapping.googleColumnIndex ?? index) === columnIndex);
+
+  if (schedule.syncMode && schedule.upsertKeyColumnIndex !== undefined) {
+    return 'Sync mode and key column upsert cannot be combined';
+  }
+
+  if (schedule.upsertKeyColumnIndex !== undefined && !isMappedColumn(schedule.upsertKeyColumnIndex)) {
+    return 'Key column must be one of the mapped columns';
+  }
+
+  if (schedule.hierarchySource === 'column' && schedule.hierarchyColumnIndex === undefined) {
+    return 'Choose the WBS or indented column to build the hierarchy from';
+  }
+
+  if (schedule.floatingImageMode === 'image_column' && !isMappedColumn(schedule.floatingImageColumnIndex)) {
+    return 'Choose a mapped column to place floating images in';
+  }
+
+  if (schedule.multiTabMode) {
+    if (schedule.syncMode || schedule.upsertKeyColumnIndex !== undefined) {
+      return 'Multi-tab transfers cannot be combined with sync or key column upsert';
+    }
+
+    if (schedule.googleSheetTabs.length < 2) {
+      return 'Choose at least two tabs for a multi-tab transfer';
+    }
+
+    if ((schedule.tabSettings || []).some(settings => !schedule.googleSheetTabs.includes(settings.tabName))) {
+      return 'Tab settings must refer to tabs being transferred';
+    }
+
+    if (schedule.multiTabMode === 'fan_out' && schedule.targetWorkspaceId === undefined) {
+      return 'Choose the workspace to create a sheet per tab in';
+    }
+  }
+
+  return undefined;
+}
+
+// Loads a schedule and checks ownership, sending the error response itself when either fails
+async function loadOwnedSchedule(req: Request, res: Response): Promise<TransferSchedule | null> {
+  const schedule = await database.getScheduleById(req.params.scheduleId);
+  if (!schedule) {
+    res.status(404).json({
+      success: false,
+      error: 'Schedule not found'
+    } as APIResponse);
+    return null;
+  }
+
+  if (schedule.userId !== req.session.user!.id) {
+    res.status(403).json({
+      success: false,
+      error: 'Access denied'
+    } as APIResponse);
+    return null;
+  }
+
+  return schedule;
+}
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const schedules = await database.getUserSchedules(req.session.user!.id);
+
+    res.json({
+      success: true,
+      data: schedules
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.post('/', scheduleValidators(false), async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    } as APIResponse);
+  }
+
+  try {
+    const userId = req.session.user!.id;
+
+    let template: TransferJob | null = null;
+    if (req.body.templateJobId) {
+      template = await database.getTransferJobById(req.body.templateJobId);
+      if (!template) {
+        return res.status(404).json({
+          success: false,
+          error: 'Template job not found'
+        } as APIResponse);
+      }
+
+      if (template.userId !== userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        } as APIResponse);
+      }
+    }
+
+    const syncMode = req.body.syncMode ?? template?.syncMode ?? false;
+    const schedule: Omit<TransferSchedule, 'createdAt' | 'updatedAt'> = {
+      id: uuidv4(),
+      userId,
+      name: req.body.name,
+      cronExpression: req.body.cronExpression,
+      googleSpreadsheetId: req.body.googleSpreadsheetId ?? template?.googleSpreadsheetId,
+      googleSheetTabs: req.body.googleSheetTabs ?? template?.googleSheetTabs,
+      smartsheetId: req.body.smartsheetId ?? template?.smartsheetId,
+      columnMappings: req.body.columnMappings ?? template?.columnMappings,
+      headerRowIndex: req.body.headerRowIndex ?? template?.headerRowIndex,
+      selectedColumns: req.body.selectedColumns ?? template?.selectedColumns,
+      syncMode,
+      deleteRemovedRows: syncMode && (req.body.deleteRemovedRows ?? template?.deleteRemovedRows ?? false),
+      upsertKeyColumnIndex: nullable(req.body.upsertKeyColumnIndex, template?.upsertKeyColumnIndex),
+      preserveFormatting: req.body.preserveFormatting ?? template?.preserveFormatting ?? true,
+      includeComments: req.body.includeComments ?? template?.includeComments ?? false,
+      hierarchySource: nullable(req.body.hierarchySource, template?.hierarchySource),
+      hierarchyColumnIndex: nullable(req.body.hierarchyColumnIndex, template?.hierarchyColumnIndex),
+      mergedCellStrategy: req.body.mergedCellStrategy ?? template?.mergedCellStrategy ?? 'first',
+      floatingImageMode: nullable(req.body.floatingImageMode, template?.floatingImageMode),
+      floatingImageColumnIndex: nullable(req.body.floatingImageColumnIndex, template?.floatingImageColumnIndex),
+      multiTabMode: nullable(req.body.multiTabMode, template?.multiTabMode),
+      tabSettings: req.body.tabSettings ?? template?.tabSettings,
+      includeSourceTabColumn: req.body.includeSourceTabColumn ?? template?.includeSourceTabColumn ?? false,
+      targetWorkspaceId: nullable(req.body.targetWorkspaceId, template?.targetWorkspaceId),
+      targetFolderId: nullable(req.body.targetFolderId, template?.targetFolderId),
+      status: 'active',
+      nextRunAt: getNextCronRun(req.body.cronExpression)
+    };
+
+    const optionsError = scheduleOptionsError(schedule);
+    if (optionsError) {
+      return res.status(400).json({
+        success: false,
+        error: optionsError
+      } as APIResponse);
+    }
+
+    const created = await database.createSchedule(schedule);
+
+    console.log(`⏰ Created schedule "${created.name}" (${created.cronExpression})${template ? ` from job ${template.id}` : ''}`);
+
+    res.json({
+      success: true,
+      data: created
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.get('/:scheduleId', async (req: Request, res: Response) => {
+  try {
+    const schedule = await loadOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    res.json({
+      success: true,
+      data: schedule
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.put('/:scheduleId', scheduleValidators(true), async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    } as APIResponse);
+  }
+
+  try {
+    const schedule = await loadOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const updated: TransferSchedule = {
+      ...schedule,
+      name: req.body.name ?? schedule.name,
+      cronExpression: req.body.cronExpression ?? schedule.cronExpression,
+      googleSpreadsheetId: req.body.googleSpreadsheetId ?? schedule.googleSpreadsheetId,
+      googleSheetTabs: req.body.googleSheetTabs ?? schedule.googleSheetTabs,
+      smartsheetId: req.body.smartsheetId ?? schedule.smartsheetId,
+      columnMappings: req.body.columnMappings ?? schedule.columnMappings,
+      headerRowIndex: req.body.headerRowIndex ?? schedule.headerRowIndex,
+      selectedColumns: req.body.selectedColumns ?? schedule.selectedColumns,
+      syncMode: req.body.syncMode ?? schedule.syncMode,
+      deleteRemovedRows: req.body.deleteRemovedRows ?? schedule.deleteRemovedRows,
+      upsertKeyColumnIndex: nullable(req.body.upsertKeyColumnIndex, schedule.upsertKeyColumnIndex),
+      preserveFormatting: req.body.preserveFormatting ?? schedule.preserveFormatting,
+      includeComments: req.body.includeComments ?? schedule.includeComments,
+      hierarchySource: nullable(req.body.hierarchySource, schedule.hierarchySource),
+      hierarchyColumnIndex: nullable(req.body.hierarchyColumnIndex, schedule.hierarchyColumnIndex),
+      mergedCellStrategy: req.body.mergedCellStrategy ?? schedule.mergedCellStrategy,
+      floatingImageMode: nullable(req.body.floatingImageMode, schedule.floatingImageMode),
+      floatingImageColumnIndex: nullable(req.body.floatingImageColumnIndex, schedule.floatingImageColumnIndex),
+      multiTabMode: nullable(req.body.multiTabMode, schedule.multiTabMode),
+      tabSettings: req.body.tabSettings ?? schedule.tabSettings,
+      includeSourceTabColumn: req.body.includeSourceTabColumn ?? schedule.includeSourceTabColumn,
+      targetWorkspaceId: nullable(req.body.targetWorkspaceId, schedule.targetWorkspaceId),
+      targetFolderId: nullable(req.body.targetFolderId, schedule.targetFolderId)
+    };
+
+    const optionsError = scheduleOptionsError(updated);
+    if (optionsError) {
+      return res.status(400).json({
+        success: false,
+        error: optionsError
+      } as APIResponse);
+    }
+
+    // A new cron expression takes effect from now; paused schedules get their next run on resume
+    if (updated.status === 'active' && updated.cronExpression !== schedule.cronExpression) {
+      updated.nextRunAt = getNextCronRun(updated.cronExpression);
+    }
+
+    await database.updateSchedule(updated);
+
+    res.json({
+      success: true,
+      data: await database.getScheduleById(updated.id)
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.delete('/:scheduleId', async (req: Request, res: Response) => {
+  try {
+    const schedule = await loadOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    await database.deleteSchedule(schedule.id);
+
+    res.json({
+      success: true,
+      message: 'Schedule deleted'
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.post('/:scheduleId/pause', async (req: Request, res: Response) => {
+  try {
+    const schedule = await loadOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    await database.updateSchedule({ ...schedule, status: 'paused', nextRunAt: undefined });
+
+    res.json({
+      success: true,
+      data: await database.getScheduleById(schedule.id)
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.post('/:scheduleId/resume', async (req: Request, res: Response) => {
+  try {
+    const schedule = await loadOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    // Runs missed while paused are skipped rather than replayed
+    await database.updateSchedule({
+      ...schedule,
+      status: 'active',
+      nextRunAt: getNextCronRun(schedule.cronExpression)
+    });
+
+    res.json({
+      success: true,
+      data: await database.getScheduleById(schedule.id)
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.post('/:scheduleId/run', async (req: Request, res: Response) => {
+  try {
+    const schedule = await loadOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const job = await transferSchedulerService.runScheduleNow(schedule);
+
+    res.json({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: 'queued'
+      }
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+router.get('/:scheduleId/runs', async (req: Request, res: Response) => {
+  try {
+    const schedule = await loadOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const limit = parseInt(req.query.limit as string) || 20;
+    const jobs = await database.getScheduleTransferJobs(schedule.id, Math.min(limit, 100));
+
+    res.json({
+      success: true,
+      data: jobs
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+export default router;
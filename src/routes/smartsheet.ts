@@ -256,7 +256,9 @@ router.post('/sheets', [
   body('name').notEmpty().isLength({ min: 1, max: 100 }).withMessage('Sheet name is required and must be 1-100 characters'),
   body('columns').isArray({ min: 1 }).withMessage('At least one column is required'),
   body('columns.*.title').notEmpty().withMessage('Column title is required'),
-  body('columns.*.type').optional().isIn(['TEXT_NUMBER', 'DATE', 'DATETIME', 'CONTACT_LIST', 'CHECKBOX', 'PICKLIST', 'DURATION']).withMessage('Invalid column type'),
+  body('columns.*.type').optional().isIn(['TEXT_NUMBER', 'DATE', 'DATETIME', 'CONTACT_LIST', 'CHECKBOX', 'PICKLIST', 'MULTI_PICKLIST', 'DURATION']).withMessage('Invalid column type'),
+  body('columns.*.options').optional().isArray().withMessage('Column options must be an array'),
+  body('columns.*.validation').optional().isBoolean().withMessage('Column validation must be a boolean'),
   body('workspaceId').optional().isNumeric().withMessage('Workspace ID must be numeric'),
   body('folderId').optional().isNumeric().withMessage('Folder ID must be numeric')
 ], async (req: Request, res: Response) => {
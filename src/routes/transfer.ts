@@ -2,8 +2,12 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { createHash } from 'crypto';
 import { transferService } from '../services/transfer';
+import { transferQueueService } from '../services/queue';
 import database from '../database';
+import { smartsheetAuthService } from '../auth/smartsheet';
+import { smartsheetAPIService } from '../smartsheet/api';
 import { requireAuth, pollingRateLimiter } from '../middleware/security';
+import { describeUnresolvedMapping, resolveColumnMappings } from '../utils/columnMapping';
 import { APIResponse } from '../types';
 
 const router = Router();
@@ -17,10 +21,33 @@ router.post('/jobs', [
   body('columnMappings').isArray({ min: 1 }).withMessage('Column mappings are required'),
   body('columnMappings.*.googleColumn').notEmpty().withMessage('Google column name is required'),
   body('columnMappings.*.smartsheetColumnId').isInt().withMessage('Smartsheet column ID must be an integer'),
-  body('columnMappings.*.dataType').isIn(['text', 'number', 'date', 'image', 'hyperlink']).withMessage('Invalid data type'),
+  body('columnMappings.*.dataType').isIn(['text', 'number', 'date', 'boolean', 'picklist', 'multi_picklist', 'contact', 'image', 'hyperlink', 'attachment']).withMessage('Invalid data type'),
+  body('columnMappings.*.attachAsDriveLink').optional().isBoolean().withMessage('Attach as Drive link must be a boolean'),
+  body('columnMappings.*.smartsheetColumnTitle').optional().isString().withMessage('Smartsheet column title must be a string'),
+  body('columnMappings.*.skip').optional().isBoolean().withMessage('Skip must be a boolean'),
   body('dryRun').optional().isBoolean().withMessage('Dry run must be a boolean'),
   body('headerRowIndex').optional().isInt({ min: 0 }).withMessage('Header row index must be a non-negative integer'),
-  body('selectedColumns').optional().isArray().withMessage('Selected columns must be an array')
+  body('selectedColumns').optional().isArray().withMessage('Selected columns must be an array'),
+  body('priority').optional().isInt({ min: 0, max: 10 }).withMessage('Priority must be an integer between 0 and 10'),
+  body('syncMode').optional().isBoolean().withMessage('Sync mode must be a boolean'),
+  body('deleteRemovedRows').optional().isBoolean().withMessage('Delete removed rows must be a boolean'),
+  body('upsertKeyColumnIndex').optional().isInt({ min: 0 }).withMessage('Key column index must be a non-negative integer'),
+  body('preserveFormatting').optional().isBoolean().withMessage('Preserve formatting must be a boolean'),
+  body('includeComments').optional().isBoolean().withMessage('Include comments must be a boolean'),
+  body('hierarchySource').optional({ nullable: true }).isIn(['row_groups', 'column']).withMessage('Hierarchy source must be row_groups or column'),
+  body('hierarchyColumnIndex').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Hierarchy column index must be a non-negative integer'),
+  body('mergedCellStrategy').optional().isIn(['fill', 'first', 'concatenate']).withMessage('Merged cell strategy must be fill, first or concatenate'),
+  body('floatingImageMode').optional({ nullable: true }).isIn(['image_column', 'attachment']).withMessage('Floating image mode must be image_column or attachment'),
+  body('floatingImageColumnIndex').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Floating image column index must be a non-negative integer'),
+  body('multiTabMode').optional({ nullable: true }).isIn(['merge', 'fan_out']).withMessage('Multi-tab mode must be merge or fan_out'),
+  body('tabSettings').optional().isArray().withMessage('Tab settings must be an array'),
+  body('tabSettings.*.tabName').notEmpty().withMessage('Tab settings need a tab name'),
+  body('tabSettings.*.headerRowIndex').optional().isInt({ min: 0 }).withMessage('Tab header row index must be a non-negative integer'),
+  body('tabSettings.*.columnMappings').optional().isArray({ min: 1 }).withMessage('Tab column mappings must be a non-empty array'),
+  body('tabSettings.*.smartsheetId').optional().isInt({ min: 1 }).withMessage('Tab Smartsheet ID must be a valid sheet ID'),
+  body('includeSourceTabColumn').optional().isBoolean().withMessage('Include source tab column must be a boolean'),
+  body('targetWorkspaceId').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Target workspace ID must be a valid workspace ID'),
+  body('targetFolderId').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Target folder ID must be a valid folder ID')
 ], async (req: Request, res: Response) => {
   console.log(`🚀 Creating transfer job for user ${req.session.user?.id}`);
 
@@ -42,7 +69,23 @@ router.post('/jobs', [
       columnMappings,
       dryRun = false,
       headerRowIndex,
-      selectedColumns
+      selectedColumns,
+      priority = 0,
+      syncMode = false,
+      deleteRemovedRows = false,
+      upsertKeyColumnIndex,
+      preserveFormatting = true,
+      includeComments = false,
+      hierarchySource,
+      hierarchyColumnIndex,
+      mergedCellStrategy = 'first',
+      floatingImageMode,
+      floatingImageColumnIndex,
+      multiTabMode,
+      tabSettings,
+      includeSourceTabColumn = false,
+      targetWorkspaceId,
+      targetFolderId
     } = req.body;
 
     const userId = req.session.user!.id;
@@ -63,6 +106,97 @@ router.post('/jobs', [
       } as APIResponse);
     }
 
+    if (syncMode && upsertKeyColumnIndex !== undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Sync mode and key column upsert cannot be combined'
+      } as APIResponse);
+    }
+
+    if (hierarchySource === 'column' && hierarchyColumnIndex == null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Choose the WBS or indented column to build the hierarchy from'
+      } as APIResponse);
+    }
+
+    if (floatingImageMode === 'image_column' &&
+        !columnMappings.some((mapping: any, index: number) => !mapping.skip && (mapping.googleColumnIndex ?? index) === floatingImageColumnIndex)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Choose a mapped column to place floating images in'
+      } as APIResponse);
+    }
+
+    if (multiTabMode) {
+      // Each tab is written in its own pass, which sync, key matching and dry runs don't support
+      if (syncMode || upsertKeyColumnIndex !== undefined || dryRun) {
+        return res.status(400).json({
+          success: false,
+          error: 'Multi-tab transfers cannot be combined with sync, key column upsert or dry runs'
+        } as APIResponse);
+      }
+
+      if (googleSheetTabs.length < 2) {
+        return res.status(400).json({
+          success: false,
+          error: 'Choose at least two tabs for a multi-tab transfer'
+        } as APIResponse);
+      }
+
+      if ((tabSettings || []).some((settings: any) => !googleSheetTabs.includes(settings.tabName))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Tab settings must refer to tabs being transferred'
+        } as APIResponse);
+      }
+
+      if (multiTabMode === 'fan_out' && (tabSettings || []).some((settings: any) => settings.columnMappings && !settings.smartsheetId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Tab mappings in a fan-out transfer need the sheet they map to'
+        } as APIResponse);
+      }
+
+      if (multiTabMode === 'fan_out' && targetWorkspaceId == null) {
+        return res.status(400).json({
+          success: false,
+          error: 'Choose the workspace to create a sheet per tab in'
+        } as APIResponse);
+      }
+    }
+
+    if (upsertKeyColumnIndex !== undefined &&
+        !columnMappings.some((mapping: any, index: number) => !mapping.skip && (mapping.googleColumnIndex ?? index) === upsertKeyColumnIndex)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Key column must be one of the mapped columns'
+      } as APIResponse);
+    }
+
+    // Catch mappings that don't fit the target sheet now rather than after the job is queued;
+    // dry runs report them in their results instead
+    if (!dryRun) {
+      const smartsheetTokens = await smartsheetAuthService.validateAndRefreshTokens(userId, user.smartsheetTokens);
+      const targetSheet = await smartsheetAPIService.getSheetDetails(smartsheetTokens, smartsheetId);
+      const { mappings, unresolved } = resolveColumnMappings(columnMappings, targetSheet.columns);
+
+      if (unresolved.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Cannot map columns to sheet "${targetSheet.name}": ${unresolved.map(describeUnresolvedMapping).join('; ')}`,
+          details: unresolved
+        } as APIResponse);
+      }
+
+      if (mappings.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'At least one column must be mapped'
+        } as APIResponse);
+      }
+    }
+
     // Create transfer job
     const job = await transferService.createTransferJob(
       userId,
@@ -72,17 +206,39 @@ router.post('/jobs', [
       columnMappings,
       dryRun,
       headerRowIndex,
-      selectedColumns
+      selectedColumns,
+      priority,
+      {
+        syncMode: syncMode && !dryRun,
+        deleteRemovedRows,
+        upsertKeyColumnIndex,
+        preserveFormatting,
+        includeComments,
+        hierarchySource: hierarchySource ?? undefined,
+        hierarchyColumnIndex: hierarchyColumnIndex ?? undefined,
+        mergedCellStrategy,
+        floatingImageMode: floatingImageMode ?? undefined,
+        floatingImageColumnIndex: floatingImageColumnIndex ?? undefined,
+        multiTabMode: multiTabMode ?? undefined,
+        tabSettings,
+        includeSourceTabColumn,
+        targetWorkspaceId: targetWorkspaceId ?? undefined,
+        targetFolderId: targetFolderId ?? undefined
+      }
     );
 
-    // Start transfer in background
-    transferService.executeTransfer(job.id).catch(error => {
-      console.error(`❌ Transfer job ${job.id} failed:`, error);
-    });
+    // Hand the job to the queue worker, which starts it once a slot is free
+    await transferQueueService.enqueue(job.id, userId, priority);
+    const queuedJob = await database.getTransferJobById(job.id);
+    const queuePosition = await database.getQueuePosition(job.id);
 
     res.json({
       success: true,
-      data: { jobId: job.id, status: job.status }
+      data: {
+        jobId: job.id,
+        status: queuedJob?.status || 'queued',
+        queuePosition: queuePosition ?? undefined
+      }
     } as APIResponse);
   } catch (error: any) {
     res.status(500).json({
@@ -113,10 +269,15 @@ router.get('/jobs/:jobId', pollingRateLimiter, async (req: Request, res: Respons
       } as APIResponse);
     }
 
+    if (job.status === 'queued') {
+      job.queuePosition = (await database.getQueuePosition(jobId)) ?? undefined;
+    }
+
     // Create ETag based on job state for caching
     const jobStateHash = createHash('md5')
       .update(JSON.stringify({
         status: job.status,
+        queuePosition: job.queuePosition,
         processedRows: job.progress?.processedRows || 0,
         processedImages: job.progress?.processedImages || 0,
         errors: job.progress?.errors?.length || 0,
@@ -300,7 +461,91 @@ router.post('/jobs/:jobId/cancel', async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      message: 'Transfer job cancelled'
+      message: 'Transfer cancellation requested'
+    } as APIResponse);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    } as APIResponse);
+  }
+});
+
+// Starts the next run of a sync lineage, pushing only rows changed since the previous run
+router.post('/jobs/:jobId/rerun', [
+  body('deleteRemovedRows').optional().isBoolean().withMessage('Delete removed rows must be a boolean'),
+  body('priority').optional().isInt({ min: 0, max: 10 }).withMessage('Priority must be an integer between 0 and 10')
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    } as APIResponse);
+  }
+
+  try {
+    const { jobId } = req.params;
+    const userId = req.session.user!.id;
+
+    const previousJob = await database.getTransferJobById(jobId);
+    if (!previousJob) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer job not found'
+      } as APIResponse);
+    }
+
+    if (previousJob.userId !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      } as APIResponse);
+    }
+
+    if (!previousJob.syncMode) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only sync jobs can be re-run incrementally'
+      } as APIResponse);
+    }
+
+    const priority = req.body.priority ?? previousJob.priority ?? 0;
+    const job = await transferService.createTransferJob(
+      userId,
+      previousJob.googleSpreadsheetId,
+      previousJob.googleSheetTabs,
+      previousJob.smartsheetId,
+      previousJob.columnMappings,
+      false,
+      previousJob.headerRowIndex,
+      previousJob.selectedColumns,
+      priority,
+      {
+        syncMode: true,
+        lineageId: previousJob.lineageId || previousJob.id,
+        deleteRemovedRows: req.body.deleteRemovedRows ?? previousJob.deleteRemovedRows,
+        preserveFormatting: previousJob.preserveFormatting,
+        includeComments: previousJob.includeComments,
+        hierarchySource: previousJob.hierarchySource,
+        hierarchyColumnIndex: previousJob.hierarchyColumnIndex,
+        mergedCellStrategy: previousJob.mergedCellStrategy,
+        floatingImageMode: previousJob.floatingImageMode,
+        floatingImageColumnIndex: previousJob.floatingImageColumnIndex
+      }
+    );
+
+    await transferQueueService.enqueue(job.id, userId, priority);
+    const queuePosition = await database.getQueuePosition(job.id);
+
+    res.json({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: 'queued',
+        queuePosition: queuePosition ?? undefined
+      }
     } as APIResponse);
   } catch (error: any) {
     res.status(500).json({
@@ -23,7 +23,12 @@ import authRoutes from './routes/auth';
 import googleRoutes from './routes/google';
 import smartsheetRoutes from './routes/smartsheet';
 import transferRoutes from './routes/transfer';
+import scheduleRoutes from './routes/schedules';
+import migrationRoutes from './routes/migrations';
 import { webSocketService } from './services/websocket';
+import { transferQueueService } from './services/queue';
+import { transferSchedulerService } from './services/scheduler';
+import { folderMigrationService } from './services/folderMigration';
 
 
 class Server {
@@ -131,6 +136,8 @@ class Server {
     this.app.use('/auth', authRoutes);
     this.app.use('/api/google', googleRoutes);
     this.app.use('/api/smartsheet', smartsheetRoutes);
+    this.app.use('/api/transfer/schedules', scheduleRoutes);
+    this.app.use('/api/transfer/migrations', migrationRoutes);
     this.app.use('/api/transfer', transferRoutes);
 
     if (config.server.nodeEnv === 'production') {
@@ -195,6 +202,11 @@ class Server {
       
       console.log('🔌 WebSocket server initialized');
 
+      // Start the transfer worker; it also resumes transfers cut off by a restart or crash
+      await folderMigrationService.recoverInterruptedMigrations();
+      await transferQueueService.start();
+      transferSchedulerService.start();
+
     } catch (error) {
       console.error('Failed to start server:', error);
       process.exit(1);
@@ -204,6 +216,9 @@ class Server {
   public async stop(): Promise<void> {
     const promises: Promise<void>[] = [];
 
+    transferQueueService.stop();
+    transferSchedulerService.stop();
+
     if (this.httpsServer) {
       promises.push(new Promise((resolve) => {
         this.httpsServer!.close(() => resolve());
@@ -0,0 +1,285 @@
+import { v4 as uuidv4 } from 'uuid';
+import database from '../database';
+import { googleAuthService } from '../auth/google';
+import { smartsheetAuthService } from '../auth/smartsheet';
+import { googleDriveService } from '../google/drive';
+import { googleSheetsService } from '../google/sheets';
+import { smartsheetAPIService } from '../smartsheet/api';
+import { transferService } from './transfer';
+import { transferQueueService } from './queue';
+import {
+  EncryptedTokens,
+  FolderMigration,
+  FolderMigrationFailure,
+  FolderMigrationProgress,
+  GoogleDriveFile,
+  TransferJob
+} from '../types';
+
+const ACTIVE_JOB_STATUSES: TransferJob['status'][] = ['pending', 'queued', 'running'];
+
+class FolderMigrationService {
+  public async startMigration(userId: string, driveFolderId: string, workspaceId: number): Promise<FolderMigration> {
+    const { googleTokens } = await this.getTokens(userId);
+    const folder = await googleDriveService.getFolder(googleTokens, driveFolderId);
+
+    const migration = await database.createFolderMigration({
+      id: uuidv4(),
+      userId,
+      driveFolderId,
+      driveFolderName: folder.name,
+      workspaceId,
+      status: 'preparing',
+      foldersCreated: 0,
+      spreadsheetsFound: 0,
+      failures: []
+    });
+    console.log(`📦 Migrating Drive folder "${folder.name}" into workspace ${workspaceId} (${migration.id})`);
+
+    // Walking the folder and creating sheets takes a while, so it carries on after the request returns
+    this.prepareMigration(migration).catch(async error => {
+      console.error(`❌ Migration ${migration.id} setup failed:`, error.message);
+      const jobs = await database.getMigrationTransferJobs(migration.id);
+      await database.updateFolderMigration(migration.id, {
+        status: jobs.length > 0 ? 'running' : 'failed',
+        failures: [...migration.failures, { path: migration.driveFolderName, message: error.message }]
+      });
+    });
+
+    return migration;
+  }
+
+  // The migration with progress gathered from its jobs and their failures added. When setup is done and every job
+  // has finished, the final status is stored.
+  public async withProgress(migration: FolderMigration): Promise<FolderMigration> {
+    const jobs = await database.getMigrationTransferJobs(migration.id);
+    const failures = [...migration.failures];
+    const progress: FolderMigrationProgress = {
+      totalJobs: jobs.length,
+      waitingJobs: 0,
+      runningJobs: 0,
+      completedJobs: 0,
+      failedJobs: 0,
+      cancelledJobs: 0,
+      totalRows: 0,
+      processedRows: 0
+    };
+
+    for (const job of jobs) {
+      progress.totalRows += job.progress.totalRows;
+      progress.processedRows += job.progress.processedRows;
+
+      if (job.status === 'pending' || job.status === 'queued') {
+        progress.waitingJobs++;
+      } else if (job.status === 'running') {
+        progress.runningJobs++;
+      } else if (job.status === 'completed') {
+        progress.completedJobs++;
+      } else if (job.status === 'cancelled') {
+        progress.cancelledJobs++;
+      } else {
+        progress.failedJobs++;
+        const error = [...job.progress.errors].reverse().find(error => error.type === 'general_error');
+        failures.push({
+          path: `${job.sourceInfo?.spreadsheetTitle || job.googleSpreadsheetId} > ${job.googleSheetTabs[0]}`,
+          message: error?.message || 'Transfer failed',
+          jobId: job.id
+        });
+      }
+    }
+
+    let status = migration.status;
+    if (status === 'running' && progress.waitingJobs === 0 && progress.runningJobs === 0) {
+      status = failures.length > 0 ? 'completed_with_errors' : 'completed';
+      await database.updateFolderMigration(migration.id, { status });
+      console.log(`📦 Migration of "${migration.driveFolderName}" finished: ${status}`);
+    }
+
+    return { ...migration, status, failures, progress };
+  }
+
+  public async cancelMigration(migration: FolderMigration): Promise<void> {
+    // Setup checks the status before each spreadsheet and stops once it sees this
+    await database.updateFolderMigration(migration.id, { status: 'cancelled' });
+    await this.cancelActiveJobs(migration.id);
+    console.log(`⏹️ Cancelled migration of "${migration.driveFolderName}"`);
+  }
+
+  // Setup cut off by a restart can't tell how far it got, so it isn't resumed; the jobs it created still run
+  public async recoverInterruptedMigrations(): Promise<void> {
+    const migrations = await database.getFolderMigrationsByStatus('preparing');
+
+    for (const migration of migrations) {
+      const jobs = await database.getMigrationTransferJobs(migration.id);
+      await database.updateFolderMigration(migration.id, {
+        status: jobs.length > 0 ? 'running' : 'failed',
+        failures: [
+          ...migration.failures,
+          {
+            path: migration.driveFolderName,
+            message: 'Setup was interrupted by a server restart; spreadsheets it had not reached were not migrated'
+          }
+        ]
+      });
+    }
+
+    if (migrations.length > 0) {
+      console.log(`⚠️ ${migrations.length} folder migration(s) were interrupted during setup`);
+    }
+  }
+
+  // Mirrors the Drive folder tree as Smartsheet folders and queues a job for every spreadsheet tab in it.
+  // A folder, spreadsheet or tab that fails is recorded and the rest carry on.
+  private async prepareMigration(migration: FolderMigration): Promise<void> {
+    const { googleTokens, smartsheetTokens } = await this.getTokens(migration.userId);
+    // A Drive folder can have several parents, so the same one can be reached twice
+    const visited = new Set<string>();
+
+    const migrateFolder = async (folder: GoogleDriveFile, path: string, parentFolderId?: number): Promise<void> => {
+      if (visited.has(folder.id) || await this.isCancelled(migration.id)) return;
+      visited.add(folder.id);
+
+      let contents: { folders: GoogleDriveFile[]; spreadsheets: GoogleDriveFile[] };
+      let smartsheetFolderId: number;
+      try {
+        contents = await googleDriveService.listFolder(googleTokens, folder.id);
+        const smartsheetFolder = await smartsheetAPIService.createFolderInWorkspace(
+          smartsheetTokens,
+          migration.workspaceId,
+          folder.name,
+          parentFolderId
+        );
+        smartsheetFolderId = smartsheetFolder.id;
+      } catch (error: any) {
+        await this.recordFailure(migration, { path, message: error.message });
+        return;
+      }
+
+      migration.foldersCreated++;
+      migration.spreadsheetsFound += contents.spreadsheets.length;
+      await database.updateFolderMigration(migration.id, {
+        foldersCreated: migration.foldersCreated,
+        spreadsheetsFound: migration.spreadsheetsFound
+      });
+
+      for (const spreadsheet of contents.spreadsheets) {
+        if (await this.isCancelled(migration.id)) return;
+        await this.migrateSpreadsheet(migration, spreadsheet, `${path}/${spreadsheet.name}`, smartsheetFolderId, googleTokens, smartsheetTokens);
+      }
+
+      for (const subfolder of contents.folders) {
+        await migrateFolder(subfolder, `${path}/${subfolder.name}`, smartsheetFolderId);
+      }
+    };
+
+    await migrateFolder(
+      { id: migration.driveFolderId, name: migration.driveFolderName, mimeType: 'application/vnd.google-apps.folder' },
+      migration.driveFolderName
+    );
+
+    // Jobs created while the cancellation came in weren't there to be cancelled
+    if (await this.isCancelled(migration.id)) {
+      await this.cancelActiveJobs(migration.id);
+      return;
+    }
+
+    const jobs = await database.getMigrationTransferJobs(migration.id);
+    const status = jobs.length > 0 ? 'running' : migration.failures.length > 0 ? 'failed' : 'completed';
+    await database.updateFolderMigration(migration.id, { status });
+    console.log(`📦 Migration of "${migration.driveFolderName}" queued ${jobs.length} job(s) in ${migration.foldersCreated} folder(s)`);
+  }
+
+  // One sheet and transfer job per tab, each with its header row detected. Blank tabs are left out.
+  private async migrateSpreadsheet(
+    migration: FolderMigration,
+    spreadsheet: GoogleDriveFile,
+    path: string,
+    folderId: number,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens
+  ): Promise<void> {
+    let tabs;
+    try {
+      tabs = await googleSheetsService.getSpreadsheetTabs(googleTokens, spreadsheet.id);
+    } catch (error: any) {
+      await this.recordFailure(migration, { path, message: error.message });
+      return;
+    }
+
+    for (const tab of tabs) {
+      const tabPath = `${path} > ${tab.title}`;
+      try {
+        const { headers, headerRowIndex } = await googleSheetsService.getSpreadsheetHeadersWithRowIndex(
+          googleTokens,
+          spreadsheet.id,
+          tab.title
+        );
+        if (headers.length === 0) {
+          console.log(`⏭️ Skipping blank tab ${tabPath}`);
+          continue;
+        }
+
+        const { sheet, columnMappings } = await transferService.createSheetFromTab(
+          googleTokens,
+          smartsheetTokens,
+          spreadsheet.id,
+          tab.title,
+          headerRowIndex,
+          {
+            name: tabs.length === 1 ? spreadsheet.name : `${spreadsheet.name} - ${tab.title}`,
+            workspaceId: migration.workspaceId,
+            folderId
+          }
+        );
+
+        const job = await transferService.createTransferJob(
+          migration.userId,
+          spreadsheet.id,
+          [tab.title],
+          sheet.id,
+          columnMappings,
+          false,
+          headerRowIndex,
+          undefined,
+          0,
+          { migrationId: migration.id }
+        );
+        await transferQueueService.enqueue(job.id, job.userId, job.priority ?? 0);
+      } catch (error: any) {
+        await this.recordFailure(migration, { path: tabPath, message: error.message });
+      }
+    }
+  }
+
+  private async cancelActiveJobs(migrationId: string): Promise<void> {
+    const jobs = await database.getMigrationTransferJobs(migrationId);
+    for (const job of jobs.filter(job => ACTIVE_JOB_STATUSES.includes(job.status))) {
+      await transferService.cancelTransfer(job.id);
+    }
+  }
+
+  private async isCancelled(migrationId: string): Promise<boolean> {
+    const migration = await database.getFolderMigrationById(migrationId);
+    return migration?.status === 'cancelled';
+  }
+
+  private async recordFailure(migration: FolderMigration, failure: FolderMigrationFailure): Promise<void> {
+    console.warn(`⚠️ Migration ${migration.id}: ${failure.path}: ${failure.message}`);
+    migration.failures.push(failure);
+    await database.updateFolderMigration(migration.id, { failures: migration.failures });
+  }
+
+  private async getTokens(userId: string): Promise<{ googleTokens: EncryptedTokens; smartsheetTokens: EncryptedTokens }> {
+    const user = await database.getUserById(userId);
+    if (!user?.googleTokens || !user?.smartsheetTokens) {
+      throw new Error('User authentication tokens not found');
+    }
+
+    return {
+      googleTokens: await googleAuthService.validateAndRefreshTokens(user.id, user.googleTokens),
+      smartsheetTokens: await smartsheetAuthService.validateAndRefreshTokens(user.id, user.smartsheetTokens)
+    };
+  }
+}
+
+export const folderMigrationService = new FolderMigrationService();
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+import database from '../database';
+import { googleDriveService } from '../google/drive';
+import { EncryptedTokens, ImageCache } from '../types';
+
+const EVICTION_BATCH_SIZE = 100;
+
+interface StoredImage {
+  buffer: Buffer;
+  mimeType: string;
+  filename: string;
+}
+
+// Keeps downloaded image bytes on disk, named by content hash, so they are shared across rows and jobs.
+// Drive files are matched on file ID and modified time, so an unchanged file is never downloaded again.
+class ImageStore {
+  // Rows that repeat an image while it is still downloading wait for the same download
+  private readonly inFlight = new Map<string, Promise<StoredImage>>();
+  // Recently checked Drive modified times, so an image repeated across rows costs one metadata call
+  private readonly driveModifiedTimes = new Map<string, { modifiedTime: string; checkedAt: number }>();
+
+  public async getImage(googleTokens: EncryptedTokens, imageUrl: string, driveFileId?: string): Promise<StoredImage> {
+    const key = driveFileId ? `drive:${driveFileId}` : `url:${imageUrl}`;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const loading = this.loadImage(googleTokens, imageUrl, driveFileId).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, loading);
+    return loading;
+  }
+
+  private async loadImage(googleTokens: EncryptedTokens, imageUrl: string, driveFileId?: string): Promise<StoredImage> {
+    let modifiedTime: string | undefined;
+    let stored: ImageCache | null = null;
+
+    if (driveFileId) {
+      // Without a modified time there's no telling if stored bytes are current, so the file is downloaded
+      modifiedTime = await this.getDriveModifiedTime(googleTokens, driveFileId);
+      if (modifiedTime) {
+        stored = await database.getStoredImageByDriveFile(driveFileId, modifiedTime);
+      }
+    } else {
+      stored = await database.getStoredImageByUrl(imageUrl, new Date(Date.now() - config.imageStore.urlMaxAgeMs));
+    }
+
+    if (stored) {
+      const buffer = await this.readBytes(stored.hash);
+      if (buffer) {
+        await database.touchCachedImage(stored.hash, driveFileId ? undefined : imageUrl);
+        return {
+          buffer,
+          mimeType: stored.mimeType || 'image/jpeg',
+          filename: stored.filename || `image_${stored.hash.slice(0, 12)}.jpg`
+        };
+      }
+    }
+
+    const image = await googleDriveService.downloadImage(googleTokens, imageUrl, driveFileId);
+    try {
+      await this.saveImage(image, imageUrl, driveFileId, modifiedTime);
+    } catch (error) {
+      // The image was downloaded fine; it just won't be reused
+      console.warn('⚠️ Failed to store downloaded image:', error);
+    }
+    return image;
+  }
+
+  private async getDriveModifiedTime(googleTokens: EncryptedTokens, driveFileId: string): Promise<string | undefined> {
+    const now = Date.now();
+    const checked = this.driveModifiedTimes.get(driveFileId);
+    if (checked && now - checked.checkedAt < config.imageStore.driveCheckTtlMs) {
+      return checked.modifiedTime;
+    }
+
+    const modifiedTime = await googleDriveService.getFileModifiedTime(googleTokens, driveFileId).catch(() => undefined);
+    // Re-adding keeps the map in check order, so expired entries are all at the front
+    this.driveModifiedTimes.delete(driveFileId);
+    if (modifiedTime) {
+      this.driveModifiedTimes.set(driveFileId, { modifiedTime, checkedAt: now });
+    }
+    for (const [fileId, entry] of this.driveModifiedTimes) {
+      if (now - entry.checkedAt < config.imageStore.driveCheckTtlMs) break;
+      this.driveModifiedTimes.delete(fileId);
+    }
+    return modifiedTime;
+  }
+
+  private async saveImage(image: StoredImage, url: string, driveFileId?: string, driveModifiedTime?: string): Promise<void> {
+    const hash = crypto.createHash('sha256').update(image.buffer).digest('hex');
+    const filePath = this.pathFor(hash);
+
+    if (!fs.existsSync(filePath)) {
+      await fs.promises.mkdir(config.imageStore.dir, { recursive: true });
+      await fs.promises.writeFile(filePath, image.buffer);
+    }
+
+    await database.saveStoredImage({
+      hash,
+      url,
+      driveFileId,
+      driveModifiedTime,
+      size: image.buffer.length,
+      mimeType: image.mimeType,
+      filename: image.filename
+    });
+    await this.evict();
+  }
+
+  private async readBytes(hash: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.pathFor(hash));
+    } catch {
+      // Removed from disk behind our back; forget it so it gets downloaded again
+      await database.forgetStoredImageBytes(hash);
+      return null;
+    }
+  }
+
+  // Removes least recently used images until the store is back under its size limit
+  private async evict(): Promise<void> {
+    let size = await database.getImageStoreSize();
+
+    while (size > config.imageStore.maxBytes) {
+      const candidates = await database.getLeastRecentlyUsedImages(EVICTION_BATCH_SIZE);
+      if (candidates.length === 0) return;
+
+      for (const image of candidates) {
+        if (size <= config.imageStore.maxBytes) return;
+        await fs.promises.rm(this.pathFor(image.hash), { force: true });
+        await database.forgetStoredImageBytes(image.hash);
+        size -= image.size;
+      }
+    }
+  }
+
+  private pathFor(hash: string): string {
+    return path.resolve(config.imageStore.dir, hash);
+  }
+}
+
+export const imageStore = new ImageStore();
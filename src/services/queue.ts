@@ -0,0 +1,106 @@
+import config from '../config';
+import database from '../database';
+import { transferService } from './transfer';
+import { webSocketService } from './websocket';
+
+class TransferQueueService {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  // Jobs dispatched by this process; the DB 'active' state mirrors this across restarts
+  private readonly runningJobs = new Map<string, string>();
+
+  public async start(): Promise<void> {
+    // Anything marked active belonged to a previous process and never finished
+    await database.resetActiveQueueEntries();
+
+    const recoveredJobs = await transferService.recoverInterruptedJobs();
+    for (const job of recoveredJobs) {
+      await database.enqueueTransferJob(job.id, job.userId, job.priority ?? 0);
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('❌ Transfer queue tick failed:', error));
+    }, config.queue.pollIntervalMs);
+
+    console.log(`📥 Transfer queue started (global: ${config.queue.globalConcurrency}, per user: ${config.queue.perUserConcurrency})`);
+    await this.tick();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  public async enqueue(jobId: string, userId: string, priority: number = 0): Promise<void> {
+    await database.updateTransferJobStatus(jobId, 'queued');
+    await database.enqueueTransferJob(jobId, userId, priority);
+    await this.tick();
+  }
+
+  public isRunning(jobId: string): boolean {
+    return this.runningJobs.has(jobId);
+  }
+
+  private async tick(): Promise<void> {
+    // Avoid overlapping ticks dispatching the same entry twice
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const waitingEntries = await database.getWaitingQueueEntries();
+      if (waitingEntries.length === 0) return;
+
+      const activePerUser = new Map<string, number>();
+      for (const userId of this.runningJobs.values()) {
+        activePerUser.set(userId, (activePerUser.get(userId) || 0) + 1);
+      }
+
+      for (const entry of waitingEntries) {
+        if (this.runningJobs.size >= config.queue.globalConcurrency) break;
+
+        const userActive = activePerUser.get(entry.userId) || 0;
+        if (userActive >= config.queue.perUserConcurrency) continue;
+
+        activePerUser.set(entry.userId, userActive + 1);
+        await this.dispatch(entry.jobId, entry.userId);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async dispatch(jobId: string, userId: string): Promise<void> {
+    this.runningJobs.set(jobId, userId);
+    await database.markQueueEntryActive(jobId);
+
+    transferService.executeTransfer(jobId)
+      .catch(error => {
+        console.error(`❌ Transfer job ${jobId} failed:`, error);
+      })
+      .finally(() => {
+        this.runningJobs.delete(jobId);
+        this.onJobFinished(jobId).catch(error => console.error('❌ Transfer queue cleanup failed:', error));
+      });
+  }
+
+  private async onJobFinished(jobId: string): Promise<void> {
+    await database.removeQueueEntry(jobId);
+    await this.broadcastQueuePositions();
+    await this.tick();
+  }
+
+  // Let clients watching queued jobs see their position move
+  private async broadcastQueuePositions(): Promise<void> {
+    const waitingEntries = await database.getWaitingQueueEntries();
+    for (let i = 0; i < waitingEntries.length; i++) {
+      const job = await database.getTransferJobById(waitingEntries[i].jobId);
+      if (job) {
+        webSocketService.emitJobUpdate(job.id, { ...job, queuePosition: i + 1 });
+      }
+    }
+  }
+}
+
+export const transferQueueService = new TransferQueueService();
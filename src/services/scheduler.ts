@@ -0,0 +1,130 @@
+import config from '../config';
+import database from '../database';
+import { googleAuthService } from '../auth/google';
+import { smartsheetAuthService } from '../auth/smartsheet';
+import { getNextCronRun } from '../utils/cron';
+import { transferService } from './transfer';
+import { transferQueueService } from './queue';
+import { TransferJob, TransferSchedule } from '../types';
+
+class TransferSchedulerService {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  public start(): void {
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('❌ Schedule tick failed:', error));
+    }, config.scheduler.pollIntervalMs);
+
+    console.log(`⏰ Transfer scheduler started (checking every ${Math.round(config.scheduler.pollIntervalMs / 1000)}s)`);
+    this.tick().catch(error => console.error('❌ Schedule tick failed:', error));
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  public async runScheduleNow(schedule: TransferSchedule): Promise<TransferJob> {
+    const job = await this.spawnJob(schedule);
+    await database.recordScheduleRun(schedule.id, {
+      lastRunAt: new Date(),
+      nextRunAt: schedule.nextRunAt,
+      lastJobId: job.id
+    });
+    return job;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+      const dueSchedules = await database.getDueSchedules(now);
+
+      for (const schedule of dueSchedules) {
+        await this.runDueSchedule(schedule, now);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runDueSchedule(schedule: TransferSchedule, now: Date): Promise<void> {
+    // Runs missed while the server was down collapse into this one
+    const nextRunAt = getNextCronRun(schedule.cronExpression, now);
+
+    // Don't stack runs when the previous one is still going
+    if (schedule.lastJobId) {
+      const lastJob = await database.getTransferJobById(schedule.lastJobId);
+      if (lastJob && ['pending', 'queued', 'running'].includes(lastJob.status)) {
+        console.log(`⏭️ Skipping schedule "${schedule.name}" - previous run ${lastJob.id} is still ${lastJob.status}`);
+        await database.recordScheduleRun(schedule.id, {
+          nextRunAt,
+          lastError: 'Skipped: previous run still in progress'
+        });
+        return;
+      }
+    }
+
+    try {
+      const job = await this.spawnJob(schedule);
+      await database.recordScheduleRun(schedule.id, { lastRunAt: now, nextRunAt, lastJobId: job.id });
+      console.log(`⏰ Schedule "${schedule.name}" started job ${job.id}`);
+    } catch (error: any) {
+      console.error(`❌ Schedule "${schedule.name}" failed to start:`, error.message);
+      await database.recordScheduleRun(schedule.id, { lastRunAt: now, nextRunAt, lastError: error.message });
+    }
+  }
+
+  private async spawnJob(schedule: TransferSchedule): Promise<TransferJob> {
+    const user = await database.getUserById(schedule.userId);
+    if (!user?.googleTokens || !user?.smartsheetTokens) {
+      throw new Error('User authentication tokens not found');
+    }
+
+    // Refresh the stored tokens up front so a revoked connection shows on the schedule, not just the job
+    await googleAuthService.validateAndRefreshTokens(user.id, user.googleTokens);
+    await smartsheetAuthService.validateAndRefreshTokens(user.id, user.smartsheetTokens);
+
+    const job = await transferService.createTransferJob(
+      schedule.userId,
+      schedule.googleSpreadsheetId,
+      schedule.googleSheetTabs,
+      schedule.smartsheetId,
+      schedule.columnMappings,
+      false,
+      schedule.headerRowIndex,
+      schedule.selectedColumns,
+      0,
+      {
+        syncMode: schedule.syncMode,
+        // Every run of a schedule belongs to the same sync lineage
+        lineageId: schedule.syncMode ? schedule.id : undefined,
+        deleteRemovedRows: schedule.deleteRemovedRows,
+        upsertKeyColumnIndex: schedule.upsertKeyColumnIndex,
+        scheduleId: schedule.id,
+        preserveFormatting: schedule.preserveFormatting,
+        includeComments: schedule.includeComments,
+        hierarchySource: schedule.hierarchySource,
+        hierarchyColumnIndex: schedule.hierarchyColumnIndex,
+        mergedCellStrategy: schedule.mergedCellStrategy,
+        floatingImageMode: schedule.floatingImageMode,
+        floatingImageColumnIndex: schedule.floatingImageColumnIndex,
+        multiTabMode: schedule.multiTabMode,
+        tabSettings: schedule.tabSettings,
+        includeSourceTabColumn: schedule.includeSourceTabColumn,
+        targetWorkspaceId: schedule.targetWorkspaceId,
+        targetFolderId: schedule.targetFolderId
+      }
+    );
+
+    await transferQueueService.enqueue(job.id, job.userId, job.priority ?? 0);
+    return job;
+  }
+}
+
+export const transferSchedulerService = new TransferSchedulerService();
@@ -1,11 +1,30 @@
 import { v4 as uuidv4 } from 'uuid';
-import { googleSheetsService } from '../google/sheets';
+import { googleSheetsService, SpreadsheetLayout } from '../google/sheets';
 import { googleDriveService } from '../google/drive';
 import { smartsheetAPIService } from '../smartsheet/api';
+import { smartsheetHttpClient, ThrottleMeter } from '../smartsheet/http';
 import { googleAuthService } from '../auth/google';
 import { smartsheetAuthService } from '../auth/smartsheet';
 import database from '../database';
 import { webSocketService } from './websocket';
+import { imageStore } from './imageStore';
+import config from '../config';
+import { CancellationToken, TransferCancelledError } from '../utils/cancellation';
+import { ConcurrencyPool } from '../utils/concurrency';
+import {
+  alignColumnMappings,
+  describeUnresolvedMapping,
+  newSheetColumnTitles,
+  normalizeColumnTitle,
+  resolveColumnMappings
+} from '../utils/columnMapping';
+import { inferColumnTypes, parseBooleanValue, splitMultiPicklistValue } from '../utils/columnTypes';
+import { translateFormula } from '../utils/formulas';
+import { buildSmartsheetFormat } from '../utils/cellFormat';
+import { attachDriveComments, buildRowDiscussions } from '../utils/cellComments';
+import { detectIndentUnit, outlineDepths, ParentTracker } from '../utils/hierarchy';
+import { buildSyncPlan, buildUpsertPlan, fingerprintRow, normalizeKey, PlannedRow, SourceKey } from '../utils/rowPlans';
+import { attachFloatingImages, FloatingImageAnchor, FloatingImageSource } from '../utils/floatingImages';
 import { 
   TransferJob, 
   ColumnMapping, 
@@ -16,11 +35,128 @@ import {
   TransferLog,
   SourceInfo,
   TargetInfo,
+  TransferProgress,
   DryRunResult,
-  EncryptedTokens
+  EncryptedTokens,
+  TransferCheckpoint,
+  CheckpointHierarchy,
+  PendingImage,
+  SmartsheetSheet,
+  HierarchySource,
+  MergedCellStrategy,
+  GoogleDriveComment,
+  GoogleDriveFile,
+  FloatingImageMode,
+  MultiTabMode,
+  TabTransferSettings,
+  SheetReadOptions
 } from '../types';
 
+const TRANSFER_BATCH_SIZE = 50;
+const DISCUSSION_FAILED_MESSAGE = 'Some notes and comments could not be added as row discussions';
+const ATTACHMENT_FAILED_MESSAGE = 'Some linked Drive files could not be attached to their rows';
+const FLOATING_IMAGE_FAILED_MESSAGE = 'Some floating images could not be added to their rows';
+const SOURCE_TAB_COLUMN_TITLE = 'Source Tab';
+// Rows read from a tab to infer its new sheet's column types
+const TAB_SAMPLE_ROWS = 500;
+const HIERARCHY_FLATTENED_MESSAGE = 'Some rows were added at the top level because their parent row was not written';
+const ROW_CHANGED_MESSAGE = 'Some rows changed in Google Sheets while the transfer was running and were left for the next run';
+// Images finish one at a time, so their progress is written at most this often
+const IMAGE_PROGRESS_INTERVAL_MS = 2000;
+
+type ImageOutcome = 'successful' | 'fallback' | 'failed';
+
+interface ImageQueueItem {
+  rowIndex: number; // Index of the row within the batch being inserted
+  columnId: number;
+  imageUrl: string;
+  imageId?: string;
+}
+
+interface RowWritePlan extends PlannedRow {
+  googleRow: GoogleCellValue[];
+}
+
+// Consecutive data rows of one of the job's tabs
+interface SourceWindow {
+  tabName: string;
+  startRowIndex: number; // 0-based sheet row of rows[0]
+  rows: GoogleCellValue[][];
+}
+
+interface RowHierarchy {
+  parents: Map<GoogleCellValue[], GoogleCellValue[]>; // Source row -> its parent source row
+  depths: Map<GoogleCellValue[], number>; // Outline depth of each source row not yet written
+  rowIds: Map<GoogleCellValue[], number>; // Smartsheet row ID of each source row written in this run
+  tabs: Map<string, HierarchyTab>;
+  childRows: number;
+  maxDepth: number;
+}
+
+interface HierarchyTab {
+  tracker: ParentTracker<GoogleCellValue[]>; // Ancestors of the last row read
+  written: ParentTracker<GoogleCellValue[]>; // Ancestors of the last row handed to Smartsheet, for checkpoints
+  groupDepths?: number[];
+  indentUnit?: number;
+}
+
+interface DriveCommentQueue {
+  tabSheetIds: Map<string, number>; // Transferred tabs only
+  pending: GoogleDriveComment[]; // Not yet matched to a cell
+}
+
+interface FloatingImageQueue {
+  source: FloatingImageSource;
+  pending: FloatingImageAnchor[]; // Not yet matched to a row
+}
+
+// What a transfer keeps about its source and target while the rows are read and annotated
+interface TransferSourceContext {
+  layout: SpreadsheetLayout; // Shared by every read of the job's tabs
+  sheet: SmartsheetSheet;
+  sourceInfo: SourceInfo;
+  targetInfo: TargetInfo;
+  warnings: TransferWarning[];
+  comments?: DriveCommentQueue;
+  hierarchy?: RowHierarchy;
+  floatingImages?: FloatingImageQueue;
+  formattedCells: number;
+  unknownChips: number; // Smart chips in mapped cells that are copied as plain text
+  columnFormulas?: ColumnFormulaScan; // Set once every row of a single-tab source has been read
+}
+
+// The translated formula each mapped column carries on every data row read so far
+interface ColumnFormulaScan {
+  rows: number;
+  formulas: Map<ColumnMapping, string | null>; // null once a row has no formula or a different one
+}
+
+// How one tab's pass of a multi-tab transfer fits into the job
+interface TabPass {
+  continueProgress?: boolean; // Earlier passes already recorded progress on the job
+  otherTabRows?: number; // Rows in the job's other tabs, so totals cover the whole job
+  sourceTabColumnId?: number; // Target column that receives each row's tab name
+}
+
+interface RowWriteCounters {
+  processedRows: number;
+  processedImages: number;
+  successfulImages: number;
+  fallbackImages: number;
+  failedImages: number;
+  insertedRows: number;
+  updatedRows: number;
+  unchangedRows: number;
+  errors: TransferError[];
+  warnings: TransferWarning[];
+}
+
 export class TransferService {
+  // Tokens for transfers executing in this process, keyed by job ID
+  private readonly cancellationTokens = new Map<string, CancellationToken>();
+  // Rate-limit waits of those transfers' own Smartsheet requests, keyed by job ID
+  private readonly throttleMeters = new Map<string, ThrottleMeter>();
+
   private async addJobLog(
     jobId: string,
     level: 'info' | 'warn' | 'error' | 'success',
@@ -69,10 +205,34 @@ export class TransferService {
     columnMappings: ColumnMapping[],
     dryRun: boolean = false,
     headerRowIndex?: number,
-    selectedColumns?: number[]
+    selectedColumns?: number[],
+    priority: number = 0,
+    options?: {
+      syncMode?: boolean;
+      lineageId?: string;
+      deleteRemovedRows?: boolean;
+      upsertKeyColumnIndex?: number;
+      scheduleId?: string;
+      migrationId?: string;
+      preserveFormatting?: boolean;
+      includeComments?: boolean;
+      hierarchySource?: HierarchySource;
+      hierarchyColumnIndex?: number;
+      mergedCellStrategy?: MergedCellStrategy;
+      floatingImageMode?: FloatingImageMode;
+      floatingImageColumnIndex?: number;
+      multiTabMode?: MultiTabMode;
+      tabSettings?: TabTransferSettings[];
+      includeSourceTabColumn?: boolean;
+      targetWorkspaceId?: number;
+      targetFolderId?: number;
+    }
   ): Promise<TransferJob> {
+    const jobId = uuidv4();
+    const syncMode = options?.syncMode ?? false;
+
     const job: Omit<TransferJob, 'createdAt' | 'completedAt'> = {
-      id: uuidv4(),
+      id: jobId,
       userId,
       googleSpreadsheetId,
       googleSheetTabs,
@@ -90,21 +250,61 @@ export class TransferService {
       logs: [],
       dryRun,
       headerRowIndex,
-      selectedColumns
+      selectedColumns,
+      priority,
+      syncMode,
+      // The first sync run starts a new lineage that later runs attach to
+      lineageId: syncMode ? options?.lineageId || jobId : undefined,
+      deleteRemovedRows: syncMode ? options?.deleteRemovedRows ?? false : false,
+      upsertKeyColumnIndex: options?.upsertKeyColumnIndex,
+      scheduleId: options?.scheduleId,
+      migrationId: options?.migrationId,
+      preserveFormatting: options?.preserveFormatting ?? true,
+      includeComments: options?.includeComments ?? false,
+      hierarchySource: options?.hierarchySource,
+      hierarchyColumnIndex: options?.hierarchySource === 'column' ? options.hierarchyColumnIndex : undefined,
+      mergedCellStrategy: options?.mergedCellStrategy ?? 'first',
+      floatingImageMode: options?.floatingImageMode,
+      floatingImageColumnIndex: options?.floatingImageMode === 'image_column' ? options.floatingImageColumnIndex : undefined,
+      multiTabMode: options?.multiTabMode,
+      tabSettings: options?.multiTabMode ? options.tabSettings : undefined,
+      includeSourceTabColumn: options?.multiTabMode === 'merge' && (options.includeSourceTabColumn ?? false),
+      targetWorkspaceId: options?.multiTabMode === 'fan_out' ? options.targetWorkspaceId : undefined,
+      targetFolderId: options?.multiTabMode === 'fan_out' ? options.targetFolderId : undefined
     };
 
     return await database.createTransferJob(job);
   }
 
   public async executeTransfer(jobId: string): Promise<void> {
+    // Register before the first await so a cancel request can never slip in unseen
+    const token = new CancellationToken();
+    this.cancellationTokens.set(jobId, token);
+    const meter = new ThrottleMeter();
+    this.throttleMeters.set(jobId, meter);
+
+    try {
+      await smartsheetHttpClient.measure(meter, () => this.runTransfer(jobId, token));
+    } finally {
+      this.cancellationTokens.delete(jobId);
+      this.throttleMeters.delete(jobId);
+    }
+  }
+
+  private async runTransfer(jobId: string, token: CancellationToken): Promise<void> {
     const job = await database.getTransferJobById(jobId);
     if (!job) {
       console.error(`❌ Transfer job ${jobId} not found`);
       throw new Error('Transfer job not found');
     }
 
-    if (job.status !== 'pending') {
-      throw new Error('Transfer job is not in pending status');
+    // Cancelled while it was still waiting in the queue
+    if (job.status === 'cancelled') {
+      return;
+    }
+
+    if (job.status !== 'pending' && job.status !== 'queued') {
+      throw new Error('Transfer job is not in pending or queued status');
     }
 
     const user = await database.getUserById(job.userId);
@@ -113,6 +313,11 @@ export class TransferService {
       throw new Error('User authentication tokens not found');
     }
 
+    // A checkpoint means the job was interrupted mid-run and should continue where it stopped.
+    // Sync and upsert runs don't need one: re-matching against the target skips finished rows.
+    const usesRowPlan = job.syncMode || job.upsertKeyColumnIndex !== undefined;
+    const checkpoint = job.dryRun || usesRowPlan ? null : await database.getTransferCheckpoint(jobId);
+
     try {
       await database.updateTransferJobStatus(jobId, 'running');
 
@@ -126,14 +331,23 @@ export class TransferService {
         user.smartsheetTokens
       );
 
+      token.throwIfCancelled();
+
       if (job.dryRun) {
-        await this.performDryRun(job, googleTokens, smartsheetTokens);
+        await this.performDryRun(job, googleTokens, smartsheetTokens, token);
+      } else if (job.syncMode) {
+        await this.performSyncTransfer(job, googleTokens, smartsheetTokens, token);
+      } else if (job.upsertKeyColumnIndex !== undefined) {
+        await this.performUpsertTransfer(job, googleTokens, smartsheetTokens, token);
+      } else if (job.multiTabMode) {
+        await this.performMultiTabTransfer(job, googleTokens, smartsheetTokens, token, checkpoint);
       } else {
-        await this.performActualTransfer(job, googleTokens, smartsheetTokens);
+        await this.performActualTransfer(job, googleTokens, smartsheetTokens, token, checkpoint);
       }
 
       await this.addJobLog(jobId, 'success', 'Transfer completed successfully', '✅');
       await database.updateTransferJobStatus(jobId, 'completed');
+      await database.deleteTransferCheckpoint(jobId);
       
       // Emit completion via WebSocket
       const completedJob = await database.getTransferJobById(jobId);
@@ -141,6 +355,11 @@ export class TransferService {
         webSocketService.emitJobCompleted(jobId, completedJob);
       }
     } catch (error: any) {
+      if (error instanceof TransferCancelledError) {
+        await this.finalizeCancelledJob(jobId);
+        return;
+      }
+
       const currentJob = await database.getTransferJobById(jobId);
       if (currentJob) {
         const updatedProgress = {
@@ -171,371 +390,2066 @@ export class TransferService {
     }
   }
 
-  private async performDryRun(
-    job: TransferJob,
-    googleTokens: EncryptedTokens,
-    smartsheetTokens: EncryptedTokens
-  ): Promise<void> {
+  private async resolveHeaderRowIndex(job: TransferJob, googleTokens: EncryptedTokens): Promise<number> {
     // Use user-selected header row index or detect it automatically
-    let headerRowIndex = job.headerRowIndex;
-    if (headerRowIndex === undefined) {
-      const firstTab = job.googleSheetTabs[0];
-      const result = await googleSheetsService.getSpreadsheetHeadersWithRowIndex(
-        googleTokens,
-        job.googleSpreadsheetId,
-        firstTab
-      );
-      headerRowIndex = result.headerRowIndex;
+    if (job.headerRowIndex !== undefined) {
+      return job.headerRowIndex;
     }
 
-    // Get Google Sheets data starting from the correct header row
-    const googleData = await googleSheetsService.getSpreadsheetData(
+    const result = await googleSheetsService.getSpreadsheetHeadersWithRowIndex(
       googleTokens,
       job.googleSpreadsheetId,
-      job.googleSheetTabs,
-      true,
-      headerRowIndex
+      job.googleSheetTabs[0]
     );
+    return result.headerRowIndex;
+  }
+
+  // Reads the source once to count it, handing each data row to scanRow without keeping it, and records
+  // source/target info on the job. Sync and upsert plan from what scanRow keeps, then read the rows again to write them.
+  private async loadTransferSource(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    headerRowIndex: number,
+    scanRow: (googleRow: GoogleCellValue[], tabName: string, rowIndex: number) => void
+  ): Promise<{ context: TransferSourceContext; totalRows: number; totalImages: number }> {
+    const context = await this.prepareTransferSource(job, googleTokens, smartsheetTokens, headerRowIndex);
 
     let totalRows = 0;
     let totalImages = 0;
-    const images: Array<{ url: string; driveFileId?: string }> = [];
 
-    // Count rows and images
-    for (const [tabName, tabData] of Object.entries(googleData)) {
-      if (tabData.length > 1) { // Exclude header row
-        totalRows += tabData.length - 1;
+    // Column formulas need every row of the column, so a single-tab source is checked for them while it is counted
+    const columnFormulas: ColumnFormulaScan | undefined = job.googleSheetTabs.length === 1
+      ? { rows: 0, formulas: new Map() }
+      : undefined;
+
+    // Count total rows and images first (only from selected columns)
+    const windows = this.readSourceWindows(job, googleTokens, headerRowIndex, context.layout, {
+      includeFormulas: true,
+      mergedCells: job.mergedCellStrategy || 'first'
+    });
+    for await (const window of windows) {
+      window.rows.forEach((googleRow, index) => {
+        scanRow(googleRow, window.tabName, window.startRowIndex - headerRowIndex - 1 + index);
+        totalImages += this.countMappedImages(googleRow, job.columnMappings);
+      });
+      if (columnFormulas) {
+        this.scanColumnFormulas(job, window.rows, window.startRowIndex, columnFormulas);
       }
+      totalRows += window.rows.length;
+    }
+    context.columnFormulas = columnFormulas;
 
-      for (const row of tabData) {
-        for (const cell of row) {
-          if (cell.isImage && cell.imageUrl) {
-            totalImages++;
-            images.push({
-              url: cell.imageUrl,
-              driveFileId: cell.imageId
-            });
-          }
+    // Update source info with actual counts
+    context.sourceInfo.totalDataRows = totalRows;
+    context.sourceInfo.totalImages = totalImages;
+    
+    // Save source and target info to job
+    await database.updateTransferJobInfo(job.id, context.sourceInfo, context.targetInfo);
+    
+    await this.addJobLog(job.id, 'info', 'Transfer initialized', '📋', {
+      source: context.sourceInfo.spreadsheetTitle,
+      target: context.targetInfo.sheetName,
+      totalRows,
+      totalImages
+    });
+
+    return { context, totalRows, totalImages };
+  }
+
+  // The data rows of each of the job's tabs, a window at a time
+  private async *readSourceWindows(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    headerRowIndex: number,
+    layout: SpreadsheetLayout,
+    options: SheetReadOptions
+  ): AsyncGenerator<SourceWindow> {
+    for (const tabName of job.googleSheetTabs) {
+      const windows = googleSheetsService.readTabWindows(
+        googleTokens,
+        job.googleSpreadsheetId,
+        tabName,
+        headerRowIndex + 1,
+        options,
+        layout
+      );
+      try {
+        for await (const window of windows) {
+          yield { tabName, ...window };
         }
+      } catch (error: any) {
+        // An empty tab would look like a successful transfer of nothing
+        throw new Error(`Failed to read tab "${tabName}": ${error.message}`);
       }
     }
+  }
 
-    // Validate image access (sample)
-    const imageValidationSample = images.slice(0, Math.min(50, images.length));
-    const imageValidationResults = await googleDriveService.batchValidateImages(
-      googleTokens,
-      imageValidationSample
+  // Reads the source again and yields the planned rows in write batches, annotating them a window at a time.
+  // Rows the plan leaves out, such as upsert conflicts, are read but not written, and so are rows that no longer
+  // match their plan.
+  private async *readPlannedBatches(
+    job: TransferJob,
+    context: TransferSourceContext,
+    plan: PlannedRow[],
+    headerRowIndex: number,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens
+  ): AsyncGenerator<RowWritePlan[]> {
+    const planned = new Map(plan.map(rowPlan => [`${rowPlan.tabName}:${rowPlan.rowIndex}`, rowPlan]));
+    let batch: RowWritePlan[] = [];
+    let changedRows = 0;
+
+    const windows = this.readSourceWindows(job, googleTokens, headerRowIndex, context.layout, {
+      includeFormulas: true,
+      includeFormatting: job.preserveFormatting !== false,
+      mergedCells: job.mergedCellStrategy || 'first'
+    });
+    for await (const window of windows) {
+      // A row inserted, removed or edited since the plan was made could now be matched to the wrong Smartsheet row,
+      // so rows are checked against the plan before annotations add to their cells
+      const rowPlans = window.rows.map((googleRow, index) => {
+        const rowPlan = planned.get(`${window.tabName}:${window.startRowIndex - headerRowIndex - 1 + index}`);
+        if (rowPlan && !this.matchesRowPlan(job, rowPlan, googleRow)) {
+          changedRows++;
+          return undefined;
+        }
+        return rowPlan;
+      });
+
+      // Annotations expect a header row first, so an empty one stands in for it
+      await this.annotateSourceRows(
+        job,
+        context,
+        { [window.tabName]: [[], ...window.rows] },
+        window.startRowIndex - 1,
+        googleTokens,
+        smartsheetTokens,
+        context.columnFormulas
+      );
+
+      window.rows.forEach((googleRow, index) => {
+        const rowPlan = rowPlans[index];
+        if (rowPlan) {
+          batch.push({ ...rowPlan, googleRow });
+        } else {
+          context.hierarchy?.parents.delete(googleRow);
+          context.hierarchy?.depths.delete(googleRow);
+        }
+      });
+
+      while (batch.length >= TRANSFER_BATCH_SIZE) {
+        yield batch.slice(0, TRANSFER_BATCH_SIZE);
+        batch = batch.slice(TRANSFER_BATCH_SIZE);
+      }
+    }
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+
+    if (changedRows > 0) {
+      this.addWarningCount(context.warnings, 'row_changed', ROW_CHANGED_MESSAGE, changedRows);
+      await this.addJobLog(job.id, 'warn', `${changedRows} row(s) changed while the transfer was running and were skipped`, '⚠️');
+    }
+  }
+
+  // Whether a row read again is still the row it was planned from: the same fingerprint in sync mode,
+  // the same key when upserting
+  private matchesRowPlan(job: TransferJob, rowPlan: PlannedRow, googleRow: GoogleCellValue[]): boolean {
+    if (rowPlan.fingerprint !== undefined) {
+      return fingerprintRow(googleRow, job.columnMappings) === rowPlan.fingerprint;
+    }
+    if (rowPlan.key !== undefined) {
+      return normalizeKey(googleRow[job.upsertKeyColumnIndex!]?.value) === rowPlan.key;
+    }
+    return true;
+  }
+
+  // Everything about the source and target that doesn't depend on the rows: names, resolved mappings, Drive comments
+  private async prepareTransferSource(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    headerRowIndex: number
+  ): Promise<TransferSourceContext> {
+    // Get actual spreadsheet name
+    const spreadsheetInfo = await googleSheetsService.getSpreadsheetInfo(googleTokens, job.googleSpreadsheetId);
+    const sourceInfo: SourceInfo = {
+      spreadsheetTitle: spreadsheetInfo?.title || `Spreadsheet ${job.googleSpreadsheetId}`,
+      tabNames: job.googleSheetTabs,
+      headerRowIndex: headerRowIndex + 1,
+      totalDataRows: 0,
+      totalImages: 0
+    };
+
+    // Resolve column mappings against the target sheet before anything is written
+    const sheet = await smartsheetAPIService.getSheetDetails(smartsheetTokens, job.smartsheetId);
+    const targetInfo: TargetInfo = {
+      sheetName: sheet.name,
+      sheetUrl: sheet.permalink
+    };
+
+    // Use the resolved mappings for the rest of the transfer
+    job.columnMappings = await this.resolveJobColumnMappings(job, sheet);
+
+    const warnings: TransferWarning[] = [];
+    const comments = job.includeComments ? await this.loadDriveComments(job, googleTokens, warnings) : undefined;
+    const hierarchy: RowHierarchy | undefined = job.hierarchySource
+      ? { parents: new Map(), depths: new Map(), rowIds: new Map(), tabs: new Map(), childRows: 0, maxDepth: 0 }
+      : undefined;
+    const floatingImages = job.floatingImageMode ? await this.loadFloatingImages(job, googleTokens, warnings) : undefined;
+    const layout = await googleSheetsService.getSpreadsheetLayout(googleTokens, job.googleSpreadsheetId, job.googleSheetTabs);
+
+    return { layout, sheet, sourceInfo, targetInfo, warnings, comments, hierarchy, floatingImages, formattedCells: 0, unknownChips: 0 };
+  }
+
+  // Adds formulas, formats, comment threads and parents to rows as they are read. googleData holds the header row
+  // first, at sheet row headerRowIndex. Column formulas are only set from a scan of every row of the column.
+  private async annotateSourceRows(
+    job: TransferJob,
+    context: TransferSourceContext,
+    googleData: { [tabName: string]: GoogleCellValue[][] },
+    headerRowIndex: number,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    columnFormulas: ColumnFormulaScan | undefined
+  ): Promise<void> {
+    await this.applyFormulaTranslations(
+      job,
+      googleData,
+      headerRowIndex,
+      context.sheet,
+      smartsheetTokens,
+      context.warnings,
+      columnFormulas
     );
+    if (job.preserveFormatting !== false) {
+      context.formattedCells += await this.applyCellFormats(job, googleData, smartsheetTokens);
+    }
+    if (context.comments) {
+      const handled = attachDriveComments(googleData, context.comments.tabSheetIds, context.comments.pending, headerRowIndex);
+      context.comments.pending = context.comments.pending.filter(comment => !handled.has(comment.id));
+    }
+    if (context.hierarchy) {
+      await this.buildRowHierarchy(job, googleTokens, googleData, headerRowIndex, context.hierarchy);
+    }
+    context.unknownChips += this.countUnknownChips(job, googleData);
+    if (context.floatingImages) {
+      const { source, pending } = context.floatingImages;
+      const placed = attachFloatingImages(googleData, source, pending, headerRowIndex);
+      context.floatingImages.pending = pending.filter(anchor => !placed.has(anchor.id));
+    }
+  }
 
-    const inaccessibleCount = imageValidationResults.filter(r => !r.accessible).length;
-    const estimatedInaccessibleImages = images.length > 50
-      ? Math.round((inaccessibleCount / imageValidationSample.length) * images.length)
-      : inaccessibleCount;
+  // Logs what the annotations added up to once every row has been read
+  private async finishSourceAnnotations(job: TransferJob, context: TransferSourceContext): Promise<void> {
+    if (context.formattedCells > 0) {
+      await this.addJobLog(job.id, 'info', `Keeping formatting on ${context.formattedCells} cell(s)`, '🎨');
+    }
 
-    // Update job progress
-    const progress = {
-      totalRows,
-      processedRows: totalRows, // Mark as "processed" for dry run
-      totalImages,
-      processedImages: totalImages,
-      errors: imageValidationResults
-        .filter(r => !r.accessible)
-        .map(r => ({
-          type: 'image_access_denied' as const,
-          message: `Image not accessible: ${r.error}`,
-          details: { url: r.url }
-        })),
-      warnings: []
+    const unplaced = context.comments?.pending.length || 0;
+    if (unplaced > 0) {
+      context.warnings.push({
+        type: 'comment_skipped',
+        message: `${unplaced} comment(s) could not be matched to a transferred cell`,
+        count: unplaced
+      });
+    }
+
+    if (context.unknownChips > 0) {
+      context.warnings.push({
+        type: 'type_conversion',
+        message: `${context.unknownChips} smart chip(s) of unsupported types were copied as plain text`,
+        count: context.unknownChips
+      });
+    }
+
+    const unplacedImages = context.floatingImages?.pending.length || 0;
+    if (unplacedImages > 0) {
+      context.warnings.push({
+        type: 'floating_image_skipped',
+        message: `${unplacedImages} floating image(s) were not over a transferred row`,
+        count: unplacedImages
+      });
+    }
+
+    if (context.hierarchy) {
+      await this.addJobLog(job.id, 'info', `Row hierarchy built from ${job.hierarchySource === 'row_groups' ? 'row groups' : 'outline column'}`, '🌳', {
+        childRows: context.hierarchy.childRows,
+        maxDepth: context.hierarchy.maxDepth
+      });
+    }
+  }
+
+  // Records the translated formula each mapped column carries on every row read so far. rows start at the
+  // 0-based sheet row startRowIndex.
+  private scanColumnFormulas(job: TransferJob, rows: GoogleCellValue[][], startRowIndex: number, scan: ColumnFormulaScan): void {
+    const columnTitles = this.formulaColumnTitles(job);
+
+    rows.forEach((row, index) => {
+      for (const mapping of job.columnMappings) {
+        if (scan.formulas.get(mapping) === null) continue;
+
+        const cell = row[mapping.googleColumnIndex!];
+        // Sheet rows are 1-based
+        const formula = cell?.formula && !cell.isImage && !cell.hyperlink
+          ? translateFormula(cell.formula, columnTitles, startRowIndex + index + 1).formula
+          : undefined;
+        const previous = scan.formulas.get(mapping);
+        scan.formulas.set(mapping, formula && (scan.rows === 0 || previous === formula) ? formula : null);
+      }
+      scan.rows++;
+    });
+  }
+
+  private scanWindowFormulas(job: TransferJob, window: { startRowIndex: number; rows: GoogleCellValue[][] }): ColumnFormulaScan {
+    const scan: ColumnFormulaScan = { rows: 0, formulas: new Map() };
+    this.scanColumnFormulas(job, window.rows, window.startRowIndex, scan);
+    return scan;
+  }
+
+  private formulaColumnTitles(job: TransferJob): Map<number, string> {
+    const columnTitles = new Map<number, string>();
+    for (const mapping of job.columnMappings) {
+      columnTitles.set(mapping.googleColumnIndex!, mapping.smartsheetColumnTitle || mapping.googleColumn);
+    }
+    return columnTitles;
+  }
+
+  // Annotates source cells with their Smartsheet formulas. A column the scan found carrying the same translated
+  // formula on every row becomes a column formula, as long as that can't overwrite rows already in the target sheet.
+  // Without a scan, only the rows in googleData can be seen, so those formulas stay on their cells.
+  private async applyFormulaTranslations(
+    job: TransferJob,
+    googleData: { [tabName: string]: GoogleCellValue[][] },
+    headerRowIndex: number,
+    sheet: SmartsheetSheet,
+    smartsheetTokens: EncryptedTokens,
+    warnings: TransferWarning[],
+    columnFormulas: ColumnFormulaScan | undefined
+  ): Promise<void> {
+    const columnTitles = this.formulaColumnTitles(job);
+
+    const translatedCells = new Map<ColumnMapping, Array<{ cell: GoogleCellValue; formula: string }>>();
+    const untranslated = new Map<ColumnMapping, { count: number; reason: string }>();
+    const rowCounts = new Map<ColumnMapping, number>();
+
+    for (const tabData of Object.values(googleData)) {
+      tabData.slice(1).forEach((row, rowIndex) => {
+        // Data starts the row after the header; sheet rows are 1-based
+        const rowNumber = headerRowIndex + rowIndex + 2;
+
+        for (const mapping of job.columnMappings) {
+          rowCounts.set(mapping, (rowCounts.get(mapping) || 0) + 1);
+          const cell = row[mapping.googleColumnIndex!];
+          // IMAGE and HYPERLINK formulas are transferred as images and links
+          if (!cell?.formula || cell.isImage || cell.hyperlink) continue;
+
+          const translation = translateFormula(cell.formula, columnTitles, rowNumber);
+          if (translation.formula) {
+            const cells = translatedCells.get(mapping) || [];
+            cells.push({ cell, formula: translation.formula });
+            translatedCells.set(mapping, cells);
+          } else {
+            const entry = untranslated.get(mapping) || { count: 0, reason: translation.reason || 'unsupported' };
+            entry.count++;
+            untranslated.set(mapping, entry);
+          }
+        }
+      });
+    }
+
+    const cellFormulaColumns: string[] = [];
+    for (const [mapping, cells] of translatedCells) {
+      const column = sheet.columns.find(candidate => candidate.id === mapping.smartsheetColumnId);
+      const formula = cells[0].formula;
+      const isColumnWide = columnFormulas !== undefined &&
+        columnFormulas.rows > 1 &&
+        columnFormulas.formulas.get(mapping) === formula;
+      // A resumed or re-run transfer finds the column formula it set last time
+      const canUseColumnFormula = column && !column.primary &&
+        (column.formula === formula || (!column.formula && !sheet.totalRowCount));
+
+      if (isColumnWide && canUseColumnFormula) {
+        if (column.formula !== formula) {
+          await smartsheetAPIService.setColumnFormula(smartsheetTokens, job.smartsheetId, column.id, formula);
+          column.formula = formula;
+        }
+        // Later windows of the same column find it already set
+        if (mapping.columnFormula !== formula) {
+          mapping.columnFormula = formula;
+          await this.addJobLog(job.id, 'info', `Column formula set on "${column.title}"`, '🧮', { formula });
+        }
+        continue;
+      }
+
+      // Say so when a column looks like it carries a column formula but not every row could be checked
+      if (!columnFormulas && cells.length > 1 && cells.length === rowCounts.get(mapping) && cells.every(entry => entry.formula === formula)) {
+        const message = `Formulas in "${mapping.googleColumn}" were set on each cell instead of as a column formula (the whole column could not be checked before writing)`;
+        if (!warnings.some(warning => warning.type === 'type_conversion' && warning.message === message)) {
+          cellFormulaColumns.push(mapping.googleColumn);
+        }
+        this.addWarningCount(warnings, 'type_conversion', message, cells.length);
+      }
+
+      for (const entry of cells) {
+        entry.cell.smartsheetFormula = entry.formula;
+      }
+    }
+
+    if (cellFormulaColumns.length > 0) {
+      await this.addJobLog(job.id, 'warn', `${cellFormulaColumns.length} column(s) kept cell formulas instead of a column formula`, '⚠️', {
+        columns: cellFormulaColumns
+      });
+    }
+
+    // Rows read in windows add to the same warning, so each column is only logged the first time
+    const newColumns: string[] = [];
+    for (const [mapping, entry] of untranslated) {
+      const message = `Formulas in "${mapping.googleColumn}" were copied as values (${entry.reason})`;
+      if (!warnings.some(warning => warning.type === 'type_conversion' && warning.message === message)) {
+        newColumns.push(message);
+      }
+      this.addWarningCount(warnings, 'type_conversion', message, entry.count);
+    }
+
+    if (newColumns.length > 0) {
+      await this.addJobLog(job.id, 'warn', `${newColumns.length} column(s) have formulas that were copied as values`, '⚠️', {
+        columns: newColumns
+      });
+    }
+  }
+
+  // Annotates mapped source cells with Smartsheet format descriptors and returns how many cells got one
+  private async applyCellFormats(
+    job: TransferJob,
+    googleData: { [tabName: string]: GoogleCellValue[][] },
+    smartsheetTokens: EncryptedTokens
+  ): Promise<number> {
+    const tables = await smartsheetAPIService.getFormatTables(smartsheetTokens);
+    let formattedCells = 0;
+
+    for (const tabData of Object.values(googleData)) {
+      for (const row of tabData.slice(1)) {
+        for (const mapping of job.columnMappings) {
+          const cell = row[mapping.googleColumnIndex!];
+          if (!cell?.format) continue;
+
+          const format = buildSmartsheetFormat(cell.format, tables);
+          if (format) {
+            cell.smartsheetFormat = format;
+            formattedCells++;
+          }
+        }
+      }
+    }
+
+    return formattedCells;
+  }
+
+  // Works out each data row's parent from row groups or the chosen WBS/indent column. Each tab keeps its chain of
+  // ancestors in the hierarchy, so rows read in windows carry on from the previous window.
+  private async buildRowHierarchy(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    googleData: { [tabName: string]: GoogleCellValue[][] },
+    headerRowIndex: number,
+    hierarchy: RowHierarchy
+  ): Promise<void> {
+    for (const [tabName, tabData] of Object.entries(googleData)) {
+      const dataRows = tabData.slice(1);
+      const tab = hierarchy.tabs.get(tabName) || { tracker: new ParentTracker(), written: new ParentTracker() };
+      hierarchy.tabs.set(tabName, tab);
+      let depths: number[];
+
+      if (job.hierarchySource === 'row_groups') {
+        if (!tab.groupDepths) {
+          tab.groupDepths = await googleSheetsService.getRowGroupDepths(googleTokens, job.googleSpreadsheetId, tabName);
+        }
+        // Data rows start on the sheet row after the header
+        depths = dataRows.map((_, index) => tab.groupDepths![headerRowIndex + 1 + index] || 0);
+      } else {
+        const values = dataRows.map(row => row[job.hierarchyColumnIndex!]?.value);
+        // The first rows with an indent decide the unit for the rest of the tab
+        tab.indentUnit = tab.indentUnit || detectIndentUnit(values);
+        depths = outlineDepths(values, tab.indentUnit || 1);
+      }
+
+      dataRows.forEach((row, index) => {
+        hierarchy.depths.set(row, depths[index]);
+        const parent = tab.tracker.next(row, depths[index]);
+        if (parent) {
+          hierarchy.parents.set(row, parent);
+          hierarchy.childRows++;
+        }
+        hierarchy.maxDepth = Math.max(hierarchy.maxDepth, depths[index]);
+      });
+    }
+  }
+
+  // Forgets rows that have been written and can no longer be anyone's parent, so streaming keeps memory flat
+  private pruneRowHierarchy(hierarchy: RowHierarchy, writtenRows: GoogleCellValue[][]): void {
+    for (const row of writtenRows) {
+      hierarchy.parents.delete(row);
+      hierarchy.depths.delete(row);
+    }
+
+    const possibleParents = new Set(hierarchy.parents.values());
+    for (const tab of hierarchy.tabs.values()) {
+      tab.tracker.ancestors().forEach(row => possibleParents.add(row));
+      tab.written.ancestors().forEach(row => possibleParents.add(row));
+    }
+    for (const row of Array.from(hierarchy.rowIds.keys())) {
+      if (!possibleParents.has(row)) {
+        hierarchy.rowIds.delete(row);
+      }
+    }
+  }
+
+  // The ancestors of the last row of tabName handed to Smartsheet, with the row IDs they were written to
+  private checkpointRowHierarchy(hierarchy: RowHierarchy | undefined, tabName: string): CheckpointHierarchy | undefined {
+    const tab = hierarchy?.tabs.get(tabName);
+    if (!hierarchy || !tab) return undefined;
+
+    return {
+      indentUnit: tab.indentUnit,
+      ancestors: tab.written.chain().map(({ item, depth }) => ({ depth, smartsheetRowId: hierarchy.rowIds.get(item) }))
     };
+  }
+
+  // Picks the hierarchy up where a checkpoint left it. Rows written before the restart are only known by their
+  // Smartsheet row IDs, so empty rows stand in for them as parents.
+  private restoreRowHierarchy(hierarchy: RowHierarchy, tabName: string, saved: CheckpointHierarchy): void {
+    const tab: HierarchyTab = { tracker: new ParentTracker(), written: new ParentTracker(), indentUnit: saved.indentUnit };
+
+    for (const ancestor of saved.ancestors) {
+      const row: GoogleCellValue[] = [];
+      tab.tracker.next(row, ancestor.depth);
+      tab.written.next(row, ancestor.depth);
+      if (ancestor.smartsheetRowId !== undefined) {
+        hierarchy.rowIds.set(row, ancestor.smartsheetRowId);
+      }
+    }
+
+    hierarchy.tabs.set(tabName, tab);
+  }
+
+  // Inserts rows under their source parents. Smartsheet needs the parent's row ID up front, so rows go in passes:
+  // first those whose parent is already known, then their children, and so on. The result stays in request order.
+  private async insertRows(
+    job: TransferJob,
+    smartsheetTokens: EncryptedTokens,
+    rows: Array<{ cells: SmartsheetCellValue[] }>,
+    sourceRows: GoogleCellValue[][],
+    hierarchy: RowHierarchy | undefined,
+    warnings: TransferWarning[]
+  ): Promise<{ success: number; failed: number; errors: Array<{ row: number; error: string }>; result: any[] }> {
+    if (!hierarchy) {
+      const flatResult = await smartsheetAPIService.addRowsToSheet(smartsheetTokens, job.smartsheetId, rows);
+      return { ...flatResult, result: flatResult.result || [] };
+    }
+
+    const inserted: any[] = new Array(rows.length).fill(null);
+    const errors: Array<{ row: number; error: string }> = [];
+    let success = 0;
+    let failed = 0;
+    let flattened = 0;
+    let pending = rows.map((_, index) => index);
+
+    while (pending.length > 0) {
+      const pendingRows = new Set(pending.map(index => sourceRows[index]));
+      let ready = pending.filter(index => {
+        const parent = hierarchy.parents.get(sourceRows[index]);
+        return !parent || !pendingRows.has(parent);
+      });
+      if (ready.length === 0) {
+        ready = pending; // Can't happen with parents built from earlier rows, but never loop forever
+      }
+
+      const requestRows = ready.map(index => {
+        const parent = hierarchy.parents.get(sourceRows[index]);
+        const parentId = parent ? hierarchy.rowIds.get(parent) : undefined;
+        if (parent && parentId === undefined) {
+          flattened++; // The parent failed to write
+        }
+        return { cells: rows[index].cells, parentId };
+      });
+
+      const result = await smartsheetAPIService.addRowsToSheet(smartsheetTokens, job.smartsheetId, requestRows);
+      (result.result || []).forEach((row, position) => {
+        if (row?.id && ready[position] !== undefined) {
+          inserted[ready[position]] = row;
+          hierarchy.rowIds.set(sourceRows[ready[position]], row.id);
+        }
+      });
+      success += result.success;
+      failed += result.failed;
+      errors.push(...result.errors.map(error => ({ ...error, row: ready[error.row] })));
+
+      const readyIndexes = new Set(ready);
+      pending = pending.filter(index => !readyIndexes.has(index));
+    }
+
+    if (flattened > 0) {
+      this.addWarningCount(warnings, 'hierarchy_flattened', HIERARCHY_FLATTENED_MESSAGE, flattened);
+    }
+
+    return { success, failed, errors, result: inserted };
+  }
+
+  // Notes come with the grid data; Drive comment threads are fetched once and matched to cells as rows are read
+  private async loadDriveComments(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    warnings: TransferWarning[]
+  ): Promise<DriveCommentQueue | undefined> {
+    try {
+      const [tabs, comments] = await Promise.all([
+        googleSheetsService.getSpreadsheetTabs(googleTokens, job.googleSpreadsheetId),
+        googleDriveService.getFileComments(googleTokens, job.googleSpreadsheetId)
+      ]);
+      const tabSheetIds = new Map(
+        tabs.filter(tab => job.googleSheetTabs.includes(tab.title)).map(tab => [tab.title, tab.sheetId])
+      );
+
+      await this.addJobLog(job.id, 'info', `Found ${comments.length} comment thread(s)`, '💬');
+      return { tabSheetIds, pending: comments };
+    } catch (error: any) {
+      // Notes don't depend on the Drive API, so they are still copied
+      await this.addJobLog(job.id, 'warn', `Drive comments could not be read: ${error.message}`, '⚠️');
+      warnings.push({
+        type: 'comment_skipped',
+        message: `Drive comments were not copied: ${error.message}`
+      });
+      return undefined;
+    }
+  }
+
+  // Chips the API doesn't describe, in mapped columns below each tab's header row
+  private countUnknownChips(job: TransferJob, googleData: { [tabName: string]: GoogleCellValue[][] }): number {
+    let count = 0;
+    for (const tabData of Object.values(googleData)) {
+      for (const row of tabData.slice(1)) {
+        for (const mapping of job.columnMappings) {
+          count += row[mapping.googleColumnIndex!]?.chips?.filter(chip => chip.type === 'unknown').length || 0;
+        }
+      }
+    }
+    return count;
+  }
+
+  private async loadFloatingImages(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    warnings: TransferWarning[]
+  ): Promise<FloatingImageQueue | undefined> {
+    try {
+      const source = await googleSheetsService.getFloatingImages(googleTokens, job.googleSpreadsheetId, job.googleSheetTabs);
+      await this.addJobLog(job.id, 'info', `Found ${source.anchors.length} floating image(s)`, '🖼️');
+      return { source, pending: source.anchors };
+    } catch (error: any) {
+      await this.addJobLog(job.id, 'warn', `Floating images could not be read: ${error.message}`, '⚠️');
+      warnings.push({
+        type: 'floating_image_skipped',
+        message: `Floating images were not copied: ${error.message}`
+      });
+      return undefined;
+    }
+  }
+
+  // Adds the floating images anchored in each row to the chosen image column, or attaches them to the row.
+  // A cell holds a single image, so any others over the same row are attached instead. cellsOnly skips the attachments.
+  private async placeFloatingImages(
+    job: TransferJob,
+    rows: Array<{ googleRow: GoogleCellValue[]; smartsheetRowId: number }>,
+    smartsheetTokens: EncryptedTokens,
+    warnings: TransferWarning[],
+    cellsOnly: boolean = false
+  ): Promise<void> {
+    if (!job.floatingImageMode) return;
+
+    // Without a mapped column to put them in, the images are attached rather than lost
+    const columnId = job.floatingImageMode === 'image_column'
+      ? job.columnMappings.find((mapping, index) =>
+        (mapping.googleColumnIndex !== undefined ? mapping.googleColumnIndex : index) === job.floatingImageColumnIndex
+      )?.smartsheetColumnId
+      : undefined;
+    const uploads = new ConcurrencyPool(config.transfer.imageUploadConcurrency);
+    let inCells = 0;
+    let attached = 0;
+    let failed = 0;
+
+    await Promise.all(rows.map(({ googleRow, smartsheetRowId }) => uploads.run(async () => {
+      const allImages = googleRow.flatMap(cell => cell?.floatingImages || []);
+      const images = cellsOnly ? allImages.slice(0, columnId !== undefined ? 1 : 0) : allImages;
+
+      for (const [index, image] of images.entries()) {
+        try {
+          if (columnId !== undefined && index === 0) {
+            await smartsheetAPIService.addImageToCell(
+              smartsheetTokens,
+              job.smartsheetId,
+              smartsheetRowId,
+              columnId,
+              image.data,
+              image.name,
+              image.mimeType
+            );
+            inCells++;
+          } else {
+            await smartsheetAPIService.attachFileToRow(
+              smartsheetTokens,
+              job.smartsheetId,
+              smartsheetRowId,
+              image.data,
+              image.name,
+              image.mimeType
+            );
+            attached++;
+          }
+        } catch (error: any) {
+          failed++;
+          console.warn(`⚠️ Failed to add floating image ${image.name} to row ${smartsheetRowId}:`, error.message);
+        }
+      }
+    })));
+
+    if (inCells + attached > 0) {
+      await this.addJobLog(job.id, 'info', `Added ${inCells + attached} floating image(s) to rows`, '🖼️', { inCells, attached });
+    }
+    if (failed > 0) {
+      this.addWarningCount(warnings, 'floating_image_skipped', FLOATING_IMAGE_FAILED_MESSAGE, failed);
+    }
+  }
+
+  // Creates the discussions for newly inserted rows. Failures are counted in a single warning rather than failing the row.
+  private async postRowDiscussions(
+    job: TransferJob,
+    rows: Array<{ googleRow: GoogleCellValue[]; smartsheetRowId: number }>,
+    smartsheetTokens: EncryptedTokens,
+    warnings: TransferWarning[]
+  ): Promise<void> {
+    let posted = 0;
+    let failed = 0;
+
+    for (const { googleRow, smartsheetRowId } of rows) {
+      for (const discussion of buildRowDiscussions(googleRow, job.columnMappings)) {
+        try {
+          const [first, ...replies] = discussion.comments;
+          const discussionId = await smartsheetAPIService.createRowDiscussion(
+            smartsheetTokens,
+            job.smartsheetId,
+            smartsheetRowId,
+            first
+          );
+          for (const reply of replies) {
+            await smartsheetAPIService.addDiscussionComment(smartsheetTokens, job.smartsheetId, discussionId, reply);
+          }
+          posted++;
+        } catch (error: any) {
+          failed++;
+          console.warn(`⚠️ Failed to add discussion to row ${smartsheetRowId}:`, error.message);
+        }
+      }
+    }
+
+    if (posted > 0) {
+      await this.addJobLog(job.id, 'info', `Added ${posted} discussion(s) from notes and comments`, '💬');
+    }
+    if (failed > 0) {
+      this.addWarningCount(warnings, 'comment_skipped', DISCUSSION_FAILED_MESSAGE, failed);
+    }
+  }
+
+  // Attaches the Drive files linked from 'attachment' columns to their rows. Files over the size limit, and all files in
+  // columns set to attach Drive links, are attached as links; a file that can't be copied falls back to its link.
+  private async postRowAttachments(
+    job: TransferJob,
+    rows: Array<{ googleRow: GoogleCellValue[]; smartsheetRowId: number }>,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    token: CancellationToken,
+    warnings: TransferWarning[]
+  ): Promise<void> {
+    const attachmentMappings = job.columnMappings.filter(mapping => mapping.dataType === 'attachment');
+    if (attachmentMappings.length === 0) return;
+
+    const attachments = new ConcurrencyPool(config.transfer.imageUploadConcurrency);
+    let uploaded = 0;
+    let linked = 0;
+    let failed = 0;
+
+    const attach = async (file: GoogleDriveFile, smartsheetRowId: number, asLink: boolean): Promise<void> => {
+      // Copies are skipped once the transfer is cancelled; links are quick and leave the row complete
+      if (!asLink && !token.isCancelled) {
+        try {
+          const download = await googleDriveService.downloadFile(googleTokens, file);
+          await smartsheetAPIService.attachFileToRow(
+            smartsheetTokens,
+            job.smartsheetId,
+            smartsheetRowId,
+            download.buffer,
+            download.filename,
+            download.mimeType
+          );
+          uploaded++;
+          return;
+        } catch (error: any) {
+          console.warn(`⚠️ Failed to attach ${file.name} to row ${smartsheetRowId}, attaching its Drive link:`, error.message);
+        }
+      }
+
+      try {
+        await smartsheetAPIService.attachDriveLinkToRow(
+          smartsheetTokens,
+          job.smartsheetId,
+          smartsheetRowId,
+          file.name,
+          file.webViewLink || `https://drive.google.com/file/d/${file.id}/view`
+        );
+        linked++;
+      } catch (error: any) {
+        failed++;
+        console.warn(`⚠️ Failed to attach Drive link for ${file.name} to row ${smartsheetRowId}:`, error.message);
+      }
+    };
+
+    const pending: Promise<void>[] = [];
+    for (const { googleRow, smartsheetRowId } of rows) {
+      for (const mapping of attachmentMappings) {
+        const file = googleRow[mapping.googleColumnIndex!]?.driveFile;
+        if (!file) continue;
+        const asLink = mapping.attachAsDriveLink === true || (file.size ?? 0) > config.transfer.maxAttachmentBytes;
+        pending.push(attachments.run(() => attach(file, smartsheetRowId, asLink)));
+      }
+    }
+    await Promise.all(pending);
+
+    if (uploaded + linked > 0) {
+      await this.addJobLog(job.id, 'info', `Attached ${uploaded + linked} Drive file(s) to rows`, '📎', { uploaded, linked });
+    }
+    if (failed > 0) {
+      this.addWarningCount(warnings, 'attachment_skipped', ATTACHMENT_FAILED_MESSAGE, failed);
+    }
+  }
+
+  // Reports how long this job's Smartsheet requests waited on the rate limit since the last batch
+  private async logThrottling(job: TransferJob): Promise<void> {
+    const throttledMs = this.throttleMeters.get(job.id)?.take() || 0;
+    if (throttledMs > 0) {
+      await this.addJobLog(job.id, 'warn', `Smartsheet rate limit: waited ${(throttledMs / 1000).toFixed(1)}s`, '⏳', {
+        throttledMs
+      });
+    }
+  }
+
+  // Batches report into one running warning instead of one per batch
+  private addWarningCount(warnings: TransferWarning[], type: TransferWarning['type'], message: string, count: number): void {
+    const warning = warnings.find(existing => existing.type === type && existing.message === message);
+    if (warning) {
+      warning.count = (warning.count || 0) + count;
+    } else {
+      warnings.push({ type, message, count });
+    }
+  }
+
+  private async resolveJobColumnMappings(job: TransferJob, sheet: SmartsheetSheet): Promise<ColumnMapping[]> {
+    const { mappings, skipped, unresolved } = resolveColumnMappings(job.columnMappings, sheet.columns);
+
+    if (unresolved.length > 0) {
+      await this.addJobLog(job.id, 'error', `${unresolved.length} column mapping(s) could not be resolved`, '❌', {
+        sheet: sheet.name,
+        unresolved
+      });
+      throw new Error(`Cannot map columns to sheet "${sheet.name}": ${unresolved.map(describeUnresolvedMapping).join('; ')}`);
+    }
+
+    if (mappings.length === 0) {
+      throw new Error('Every column mapping is skipped - nothing to transfer');
+    }
+
+    if (skipped.length > 0) {
+      await this.addJobLog(job.id, 'info', `Skipping ${skipped.length} column(s)`, '⏭️', {
+        columns: skipped.map(mapping => mapping.googleColumn)
+      });
+    }
+
+    return mappings;
+  }
+
+  private async performDryRun(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    token: CancellationToken
+  ): Promise<void> {
+    const headerRowIndex = await this.resolveHeaderRowIndex(job, googleTokens);
+
+    // Report mappings that would fail without failing the dry run itself
+    const targetSheet = await smartsheetAPIService.getSheetDetails(smartsheetTokens, job.smartsheetId);
+    const mappingResolution = resolveColumnMappings(job.columnMappings, targetSheet.columns);
+
+    let totalRows = 0;
+    let totalImages = 0;
+    const imageValidationSample: Array<{ url: string; driveFileId?: string }> = [];
+    const layout = await googleSheetsService.getSpreadsheetLayout(googleTokens, job.googleSpreadsheetId, job.googleSheetTabs);
+
+    // Count rows and images, keeping only the first images to validate
+    const windows = this.readSourceWindows(job, googleTokens, headerRowIndex, layout, {
+      includeFormulas: true,
+      mergedCells: job.mergedCellStrategy || 'first'
+    });
+    for await (const window of windows) {
+      token.throwIfCancelled();
+      totalRows += window.rows.length;
+
+      for (const row of window.rows) {
+        for (const cell of row) {
+          if (cell.isImage && cell.imageUrl) {
+            totalImages++;
+            if (imageValidationSample.length < 50) {
+              imageValidationSample.push({
+                url: cell.imageUrl,
+                driveFileId: cell.imageId
+              });
+            }
+          }
+        }
+      }
+    }
+
+    // Validate image access (sample)
+    const imageValidationResults = await googleDriveService.batchValidateImages(
+      googleTokens,
+      imageValidationSample
+    );
+
+    const inaccessibleCount = imageValidationResults.filter(r => !r.accessible).length;
+    const estimatedInaccessibleImages = totalImages > 50
+      ? Math.round((inaccessibleCount / imageValidationSample.length) * totalImages)
+      : inaccessibleCount;
+
+    // Update job progress
+    const progress = {
+      totalRows,
+      processedRows: totalRows, // Mark as "processed" for dry run
+      totalImages,
+      processedImages: totalImages,
+      errors: [
+        ...mappingResolution.unresolved.map(unresolved => ({
+          type: 'column_unresolved' as const,
+          message: `Column mapping unresolved: ${describeUnresolvedMapping(unresolved)}`,
+          column: unresolved.googleColumn,
+          details: unresolved
+        })),
+        ...imageValidationResults
+          .filter(r => !r.accessible)
+          .map(r => ({
+            type: 'image_access_denied' as const,
+            message: `Image not accessible: ${r.error}`,
+            details: { url: r.url }
+          }))
+      ],
+      warnings: []
+    };
+
+    await database.updateTransferJobStatus(job.id, 'running', progress);
+  }
+
+  // Writes each tab in a pass of its own, with its own header row and mappings, into the job's sheet ('merge') or
+  // a sheet per tab ('fan_out'). Progress carries over between passes so the job reports one set of totals.
+  private async performMultiTabTransfer(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    token: CancellationToken,
+    checkpoint: TransferCheckpoint | null
+  ): Promise<void> {
+    const tabNames = job.googleSheetTabs;
+    const startTabIndex = checkpoint ? tabNames.indexOf(checkpoint.tabName) : 0;
+    if (startTabIndex === -1) {
+      throw new Error(`Cannot resume transfer: tab "${checkpoint!.tabName}" no longer exists in the spreadsheet`);
+    }
+
+    await this.addJobLog(
+      job.id,
+      'info',
+      `Transferring ${tabNames.length} tabs ${job.multiTabMode === 'merge' ? 'into one sheet' : 'into a sheet each'}`,
+      '🗂️'
+    );
+
+    const spreadsheetInfo = await googleSheetsService.getSpreadsheetInfo(googleTokens, job.googleSpreadsheetId);
+    const spreadsheetTitle = spreadsheetInfo?.title || `Spreadsheet ${job.googleSpreadsheetId}`;
+    const tabSettings: Array<Required<TabTransferSettings>> = [];
+    for (const tabName of tabNames) {
+      token.throwIfCancelled();
+      tabSettings.push(await this.resolveTabSettings(job, tabName, tabSettings.length === 0, spreadsheetTitle, googleTokens, smartsheetTokens));
+    }
+
+    const sourceTabColumnId = job.multiTabMode === 'merge' && job.includeSourceTabColumn
+      ? await this.ensureSourceTabColumn(job, smartsheetTokens)
+      : undefined;
+
+    // Hierarchy and floating image columns are chosen on the first tab; other tabs use their column with the same header
+    const sameColumn = (columnIndex: number | undefined, columnMappings: ColumnMapping[]): number | undefined => {
+      const header = job.columnMappings.find((mapping, index) => (mapping.googleColumnIndex ?? index) === columnIndex)?.googleColumn;
+      return header === undefined
+        ? undefined
+        : columnMappings.find(mapping => normalizeColumnTitle(mapping.googleColumn) === normalizeColumnTitle(header))?.googleColumnIndex;
+    };
+
+    // Row counts start as estimates from each tab's grid; a tab's actual count replaces it once its pass is done
+    const tabs = await googleSheetsService.getSpreadsheetTabs(googleTokens, job.googleSpreadsheetId);
+    const tabRowCounts = tabSettings.map(settings => {
+      const gridRows = tabs.find(tab => tab.title === settings.tabName)?.gridProperties.rowCount || 0;
+      return Math.max(gridRows - settings.headerRowIndex - 1, 0);
+    });
+
+    for (let tabIndex = startTabIndex; tabIndex < tabNames.length; tabIndex++) {
+      token.throwIfCancelled();
+
+      const settings = tabSettings[tabIndex];
+      const otherTabRows = tabRowCounts.reduce((sum, count, index) => (index === tabIndex ? sum : sum + count), 0);
+      const hierarchyColumnIndex = sameColumn(job.hierarchyColumnIndex, settings.columnMappings);
+      const floatingImageColumnIndex = sameColumn(job.floatingImageColumnIndex, settings.columnMappings);
+      // Earlier passes recorded their progress on the job
+      const currentJob = (await database.getTransferJobById(job.id)) || job;
+
+      await this.addJobLog(job.id, 'info', `Tab ${tabIndex + 1}/${tabNames.length}: ${settings.tabName}`, '🗂️', {
+        tab: settings.tabName,
+        headerRow: settings.headerRowIndex + 1,
+        targetSheetId: settings.smartsheetId
+      });
+
+      await this.performActualTransfer(
+        {
+          ...currentJob,
+          googleSheetTabs: [settings.tabName],
+          headerRowIndex: settings.headerRowIndex,
+          columnMappings: settings.columnMappings,
+          smartsheetId: settings.smartsheetId,
+          hierarchySource: job.hierarchySource === 'column' && hierarchyColumnIndex === undefined ? undefined : job.hierarchySource,
+          hierarchyColumnIndex,
+          floatingImageMode: job.floatingImageMode === 'image_column' && floatingImageColumnIndex === undefined
+            ? undefined
+            : job.floatingImageMode,
+          floatingImageColumnIndex
+        },
+        googleTokens,
+        smartsheetTokens,
+        token,
+        tabIndex === startTabIndex ? checkpoint : null,
+        { continueProgress: tabIndex > startTabIndex, otherTabRows, sourceTabColumnId }
+      );
+
+      const updatedJob = await database.getTransferJobById(job.id);
+      if (updatedJob) {
+        tabRowCounts[tabIndex] = Math.max(updatedJob.progress.totalRows - otherTabRows, 0);
+      }
+    }
+
+    // Each pass recorded only its own tab and sheet
+    const finishedJob = await database.getTransferJobById(job.id);
+    if (finishedJob?.sourceInfo) {
+      await database.updateTransferJobInfo(
+        job.id,
+        { ...finishedJob.sourceInfo, tabNames, headerRowIndex: tabSettings[0].headerRowIndex + 1 },
+        job.multiTabMode === 'fan_out' ? { sheetName: `${tabNames.length} sheets, one per tab` } : undefined
+      );
+    }
+  }
+
+  // A tab's header row, mappings and target sheet for a multi-tab transfer. Settings stored on the job win; the
+  // first tab falls back to the job's own. Other tabs have their header row detected, and are aligned to the job's
+  // mappings ('merge') or get a new sheet built from their headers ('fan_out').
+  private async resolveTabSettings(
+    job: TransferJob,
+    tabName: string,
+    isFirstTab: boolean,
+    spreadsheetTitle: string,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens
+  ): Promise<Required<TabTransferSettings>> {
+    const stored = job.tabSettings?.find(settings => settings.tabName === tabName);
+    let headerRowIndex = stored?.headerRowIndex ?? (isFirstTab ? job.headerRowIndex : undefined);
+    const smartsheetId = job.multiTabMode === 'fan_out'
+      ? stored?.smartsheetId ?? (isFirstTab ? job.smartsheetId : undefined)
+      : job.smartsheetId;
+    const columnMappings = stored?.columnMappings ?? (isFirstTab ? job.columnMappings : undefined);
+
+    if (headerRowIndex === undefined) {
+      const detected = await googleSheetsService.getSpreadsheetHeadersWithRowIndex(googleTokens, job.googleSpreadsheetId, tabName);
+      headerRowIndex = detected.headerRowIndex;
+    }
+
+    // A new sheet's columns come from the tab's own headers, so mappings stored without a sheet don't apply
+    if (smartsheetId === undefined) {
+      const { sheet, columnMappings: sheetMappings } = await this.createSheetFromTab(
+        googleTokens,
+        smartsheetTokens,
+        job.googleSpreadsheetId,
+        tabName,
+        headerRowIndex,
+        { name: `${spreadsheetTitle} - ${tabName}`, workspaceId: job.targetWorkspaceId, folderId: job.targetFolderId },
+        job.mergedCellStrategy
+      );
+      await this.addJobLog(job.id, 'success', `Created sheet "${sheet.name}" for tab "${tabName}"`, '📄', {
+        tab: tabName,
+        sheetId: sheet.id
+      });
+      const settings = { tabName, headerRowIndex, columnMappings: sheetMappings, smartsheetId: sheet.id };
+
+      // Stored right away so a resumed job writes into this sheet rather than creating another
+      job.tabSettings = [...(job.tabSettings || []).filter(existing => existing.tabName !== tabName), settings];
+      await database.updateTransferJobTabSettings(job.id, job.tabSettings);
+      return settings;
+    }
+
+    if (columnMappings) {
+      return { tabName, headerRowIndex, columnMappings, smartsheetId };
+    }
+
+    const sample = await this.readTabSample(
+      googleTokens,
+      job.googleSpreadsheetId,
+      tabName,
+      headerRowIndex,
+      job.mergedCellStrategy || 'first'
+    );
+    const alignment = alignColumnMappings(job.columnMappings, sample.headers);
+    if (alignment.mappings.length === 0) {
+      throw new Error(`No column in tab "${tabName}" matches a mapped column header`);
+    }
+    if (alignment.missingColumns.length > 0) {
+      await this.addJobLog(job.id, 'warn', `Tab "${tabName}" is missing ${alignment.missingColumns.length} mapped column(s)`, '⚠️', {
+        tab: tabName,
+        columns: alignment.missingColumns
+      });
+    }
+    if (alignment.extraColumns.length > 0) {
+      await this.addJobLog(job.id, 'info', `Leaving out ${alignment.extraColumns.length} column(s) of tab "${tabName}" with no mapping`, '⏭️', {
+        tab: tabName,
+        columns: alignment.extraColumns
+      });
+    }
+
+    return { tabName, headerRowIndex, columnMappings: alignment.mappings, smartsheetId };
+  }
+
+  // The header row and the first data rows of a tab, for aligning mappings or inferring a new sheet's columns
+  private async readTabSample(
+    googleTokens: EncryptedTokens,
+    spreadsheetId: string,
+    tabName: string,
+    headerRowIndex: number,
+    mergedCells: MergedCellStrategy
+  ): Promise<{ headers: string[]; rows: GoogleCellValue[][] }> {
+    const windows = googleSheetsService.readTabWindows(googleTokens, spreadsheetId, tabName, headerRowIndex, {
+      windowRows: TAB_SAMPLE_ROWS + 1,
+      mergedCells
+    });
+
+    for await (const window of windows) {
+      const [headerRow = [], ...rows] = window.rows;
+      return { headers: headerRow.map(cell => String(cell?.value ?? '').trim()), rows };
+    }
+    return { headers: [], rows: [] };
+  }
+
+  // Creates a sheet whose columns are a tab's headers, typed from the rows under them, and maps the tab onto it
+  public async createSheetFromTab(
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    spreadsheetId: string,
+    tabName: string,
+    headerRowIndex: number,
+    target: { name: string; workspaceId?: number; folderId?: number },
+    mergedCells: MergedCellStrategy = 'first'
+  ): Promise<{ sheet: SmartsheetSheet; columnMappings: ColumnMapping[] }> {
+    const sample = await this.readTabSample(googleTokens, spreadsheetId, tabName, headerRowIndex, mergedCells);
+    const columnIndexes = sample.headers.map((_, index) => index).filter(index => sample.headers[index]);
+    if (columnIndexes.length === 0) {
+      throw new Error(`Tab "${tabName}" has no headers to create its sheet's columns from`);
+    }
+
+    const suggestions = inferColumnTypes(sample.rows, columnIndexes, sample.headers);
+    const titles = newSheetColumnTitles(columnIndexes.map(index => sample.headers[index]));
+    const sheet = await smartsheetAPIService.createSheet(
+      smartsheetTokens,
+      target.name.slice(0, 50),
+      titles.map((title, index) => ({
+        title,
+        type: suggestions[index].type,
+        primary: index === 0,
+        options: suggestions[index].options,
+        validation: suggestions[index].validation
+      })),
+      target.workspaceId,
+      target.folderId
+    );
+
+    return {
+      sheet,
+      columnMappings: columnIndexes.map((columnIndex, index) => ({
+        googleColumn: sample.headers[columnIndex],
+        smartsheetColumnId: sheet.columns[index].id,
+        smartsheetColumnTitle: sheet.columns[index].title,
+        // The primary column is always TEXT_NUMBER, whatever its values looked like
+        dataType: sheet.columns[index].type === suggestions[index].type ? suggestions[index].dataType : 'text',
+        googleColumnIndex: columnIndex
+      }))
+    };
+  }
+
+  // The column that records each merged row's tab, added to the target sheet when it isn't there yet
+  private async ensureSourceTabColumn(job: TransferJob, smartsheetTokens: EncryptedTokens): Promise<number> {
+    const sheet = await smartsheetAPIService.getSheetDetails(smartsheetTokens, job.smartsheetId);
+    const existing = sheet.columns.find(column =>
+      normalizeColumnTitle(column.title || '') === normalizeColumnTitle(SOURCE_TAB_COLUMN_TITLE)
+    );
+    if (existing) {
+      return existing.id;
+    }
+
+    const [column] = await smartsheetAPIService.addColumnsToSheet(smartsheetTokens, job.smartsheetId, [
+      { title: SOURCE_TAB_COLUMN_TITLE, type: 'TEXT_NUMBER', index: sheet.columns.length }
+    ]);
+    await this.addJobLog(job.id, 'info', `Added a "${SOURCE_TAB_COLUMN_TITLE}" column to "${sheet.name}"`, '➕');
+    return column.id;
+  }
+
+  private async performActualTransfer(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    token: CancellationToken,
+    checkpoint: TransferCheckpoint | null = null,
+    pass: TabPass = {}
+  ): Promise<void> {
+    const headerRowIndex = await this.resolveHeaderRowIndex(job, googleTokens);
+
+    // Add source and target info to job
+    if (checkpoint) {
+      await this.addJobLog(job.id, 'info', 'Transfer resumed from checkpoint', '🔁', {
+        tab: checkpoint.tabName,
+        batch: checkpoint.batchIndex + 1,
+        insertedRows: checkpoint.insertedRows,
+        pendingImages: checkpoint.pendingImages.length
+      });
+    } else {
+      await this.addJobLog(job.id, 'info', 'Transfer started', '🚀', {
+        headerRow: headerRowIndex + 1,
+        targetSheetId: job.smartsheetId
+      });
+    }
+
+    const context = await this.prepareTransferSource(job, googleTokens, smartsheetTokens, headerRowIndex);
+    const { warnings, hierarchy } = context;
+    const batchSize = TRANSFER_BATCH_SIZE;
+    const otherTabRows = pass.otherTabRows || 0;
+    if (pass.continueProgress) {
+      warnings.unshift(...job.progress.warnings);
+    }
+
+    const startTabIndex = checkpoint ? job.googleSheetTabs.indexOf(checkpoint.tabName) : 0;
+    if (startTabIndex === -1) {
+      throw new Error(`Cannot resume transfer: tab "${checkpoint!.tabName}" no longer exists in the spreadsheet`);
+    }
+    // Rows in the first resumed batch can be children of rows written before the restart
+    if (hierarchy && checkpoint?.hierarchy) {
+      this.restoreRowHierarchy(hierarchy, checkpoint.tabName, checkpoint.hierarchy);
+    }
+
+    // Tabs are read while they are written, so row counts start as estimates from the grid size
+    // and each tab's count is corrected once it has been read to the end
+    const tabRowCounts = new Map(job.googleSheetTabs.map(tabName => {
+      const gridRows = context.layout.tabs.get(tabName)?.rowCount || 0;
+      return [tabName, Math.max(gridRows - headerRowIndex - 1, 0)] as [string, number];
+    }));
+    const countRows = () => Array.from(tabRowCounts.values()).reduce((sum, count) => sum + count, 0);
+    // Column formulas need every row of the column up front, which a single window of a single tab has
+    const scanFormulasPerWindow = job.googleSheetTabs.length === 1 && countRows() <= config.transfer.readWindowRows;
+
+    const resuming = checkpoint !== null || pass.continueProgress === true;
+    const errors: TransferError[] = resuming ? [...job.progress.errors] : [];
+    let processedRows = resuming ? job.progress.processedRows : 0;
+    let processedImages = resuming ? job.progress.processedImages : 0;
+    let successfulImages = resuming ? job.progress.successfulImages || 0 : 0;
+    let fallbackImages = resuming ? job.progress.fallbackImages || 0 : 0;
+    let failedImages = resuming ? job.progress.failedImages || 0 : 0;
+    let insertedRowCount = checkpoint ? checkpoint.insertedRows : 0;
+    let totalRows = countRows() + otherTabRows;
+    let totalImages = processedImages; // Images in rows that haven't been read yet are counted as they are read
+
+    const buildProgress = (currentBatch?: number, totalBatches?: number) => ({
+      totalRows,
+      processedRows,
+      totalImages,
+      processedImages,
+      successfulImages,
+      fallbackImages,
+      failedImages,
+      currentBatch,
+      totalBatches,
+      errors,
+      warnings
+    });
+
+    context.sourceInfo.totalDataRows = totalRows;
+    await database.updateTransferJobInfo(job.id, context.sourceInfo, context.targetInfo);
+    await this.addJobLog(job.id, 'info', 'Transfer initialized', '📋', {
+      source: context.sourceInfo.spreadsheetTitle,
+      target: context.targetInfo.sheetName,
+      totalRows
+    });
+
+    await database.updateTransferJobStatus(job.id, 'running', buildProgress());
+    token.throwIfCancelled();
+
+    const reportImageProgress = this.throttleProgressUpdates(job.id, () => buildProgress());
+    const onImageDone = async (outcome: ImageOutcome) => {
+      processedImages++;
+      if (outcome === 'successful') successfulImages++;
+      else if (outcome === 'fallback') fallbackImages++;
+      else failedImages++;
+      await reportImageProgress();
+    };
+
+    // Finish images for rows that were inserted right before the interruption
+    if (checkpoint && checkpoint.pendingImages.length > 0) {
+      await this.processImageQueue(
+        checkpoint.pendingImages,
+        job.smartsheetId,
+        googleTokens,
+        smartsheetTokens,
+        token,
+        onImageDone
+      );
+
+      await database.recordBatchCheckpoint(job.id, buildProgress(), { ...checkpoint, pendingImages: [] });
+    }
+
+    const writeBatch = async (tabName: string, batch: GoogleCellValue[][], batchNum: number): Promise<void> => {
+      // Everything up to the previous batch is persisted, so stopping here leaves exact progress
+      token.throwIfCancelled();
+
+      const totalBatches = Math.max(Math.ceil((tabRowCounts.get(tabName) || 0) / batchSize), batchNum);
+      // The batch counts as handed over once it is checkpointed, whether or not its rows were written
+      const hierarchyTab = hierarchy?.tabs.get(tabName);
+      if (hierarchy && hierarchyTab) {
+        batch.forEach(row => hierarchyTab.written.next(row, hierarchy.depths.get(row) || 0));
+      }
+      const smartsheetRows: Array<{ cells: SmartsheetCellValue[] }> = [];
+      const sourceRows: GoogleCellValue[][] = []; // Source row of each entry in smartsheetRows
+      const imageQueue: ImageQueueItem[] = [];
+      let batchImages = 0;
+
+      for (let rowIndex = 0; rowIndex < batch.length; rowIndex++) {
+        // Nothing from this batch has been written yet, so it can be dropped as a whole
+        token.throwIfCancelled();
+
+        const googleRow = batch[rowIndex];
+        try {
+          const smartsheetCells = await this.convertRowToSmartsheet(
+            googleRow,
+            job.columnMappings,
+            googleTokens,
+            smartsheetTokens,
+            imageQueue,
+            smartsheetRows.length
+          );
+          if (pass.sourceTabColumnId !== undefined && !smartsheetCells.some(cell => cell.columnId === pass.sourceTabColumnId)) {
+            smartsheetCells.push({ columnId: pass.sourceTabColumnId, value: tabName });
+          }
+
+          smartsheetRows.push({ cells: smartsheetCells });
+          sourceRows.push(googleRow);
+
+          // Update image progress (only from selected columns)
+          batchImages += this.countMappedImages(googleRow, job.columnMappings);
+        } catch (error: any) {
+          errors.push({
+            type: 'row_insert_failed',
+            message: error.message,
+            row: processedRows + smartsheetRows.length,
+            details: {
+              name: error.name,
+              message: error.message,
+              stack: error.stack
+            }
+          });
+        }
+      }
+
+      // Queued images count as processed as each one finishes; the rest of the batch's images are done with the rows
+      let unqueuedImages = batchImages;
+
+      // Insert batch to Smartsheet
+      if (smartsheetRows.length > 0) {
+        try {
+          const result = await this.insertRows(job, smartsheetTokens, smartsheetRows, sourceRows, hierarchy, warnings);
+
+          processedRows += result.success;
+
+          const insertedRows = result.result || [];
+          insertedRowCount += insertedRows.filter(row => row?.id).length;
+          const pendingImages = this.resolveImageQueue(imageQueue, insertedRows);
+          failedImages += imageQueue.length - pendingImages.length;
+          unqueuedImages -= pendingImages.length;
+
+          // Persist the checkpoint before touching images so a restart never re-inserts this batch
+          await database.recordBatchCheckpoint(job.id, buildProgress(batchNum, totalBatches), {
+            tabName,
+            batchIndex: batchNum,
+            insertedRows: insertedRowCount,
+            pendingImages,
+            hierarchy: this.checkpointRowHierarchy(hierarchy, tabName)
+          });
+          
+          // Rows are checkpointed already, so an interruption here loses discussions, attachments and floating
+          // images but never duplicates rows
+          const writtenRows = insertedRows
+            .map((row, index) => ({ googleRow: sourceRows[index], smartsheetRowId: row?.id }))
+            .filter(row => row.googleRow && row.smartsheetRowId);
+          if (job.includeComments) {
+            await this.postRowDiscussions(job, writtenRows, smartsheetTokens, warnings);
+          }
+          await this.postRowAttachments(job, writtenRows, googleTokens, smartsheetTokens, token, warnings);
+          await this.placeFloatingImages(job, writtenRows, smartsheetTokens, warnings);
+
+          const progressPercent = Math.round((processedRows / totalRows) * 100);
+          
+          await this.addJobLog(job.id, 'success', `Batch ${batchNum}/${totalBatches} completed`, '✅', {
+            success: result.success,
+            failed: result.failed,
+            progress: `${processedRows}/${totalRows} (${progressPercent}%)`
+          });
+          
+          // Process images for successfully inserted rows
+          if (pendingImages.length > 0) {
+            const imageResults = await this.processImageQueue(
+              pendingImages,
+              job.smartsheetId,
+              googleTokens,
+              smartsheetTokens,
+              token,
+              onImageDone
+            );
+            
+            // Log image processing results
+            if (imageResults.successful > 0 || imageResults.fallbacks > 0 || imageResults.failed > 0) {
+              await this.addJobLog(job.id, 'info', `Image processing completed`, '🖼️', {
+                successful: imageResults.successful,
+                fallbacks: imageResults.fallbacks,
+                failed: imageResults.failed,
+                total: imageQueue.length
+              });
+              
+              // Add warning if there were fallbacks or failures
+              if (imageResults.fallbacks > 0) {
+                await this.addJobLog(job.id, 'warn', `${imageResults.fallbacks} images converted to links (download failed)`, '⚠️');
+              }
+              if (imageResults.failed > 0) {
+                await this.addJobLog(job.id, 'error', `${imageResults.failed} images could not be processed`, '❌');
+              }
+              if (imageResults.abandoned > 0) {
+                await this.addJobLog(job.id, 'warn', `${imageResults.abandoned} images skipped after cancellation`, '⏹️');
+              }
+            }
+          }
+          
+          errors.push(...result.errors.map(e => ({
+            type: 'row_insert_failed' as const,
+            message: e.error,
+            row: e.row,
+            details: e
+          })));
+        } catch (error: any) {
+          await this.addJobLog(job.id, 'error', 'Batch insertion failed', '❌', {
+            error: error.message,
+            batch: batchNum
+          });
+          errors.push({
+            type: 'row_insert_failed',
+            message: error.message,
+            details: {
+              name: error.name,
+              message: error.message,
+              stack: error.stack
+            }
+          });
+        }
+      }
+
+      processedImages += unqueuedImages;
+      if (hierarchy) {
+        this.pruneRowHierarchy(hierarchy, batch);
+      }
+      await this.logThrottling(job);
+
+      // Update progress with batch info
+      await database.recordBatchCheckpoint(job.id, buildProgress(batchNum, totalBatches), {
+        tabName,
+        batchIndex: batchNum,
+        insertedRows: insertedRowCount,
+        pendingImages: [],
+        hierarchy: this.checkpointRowHierarchy(hierarchy, tabName)
+      });
+      
+      // Emit progress update via WebSocket every batch
+      const updatedJob = await database.getTransferJobById(job.id);
+      if (updatedJob) {
+        webSocketService.emitJobUpdate(job.id, updatedJob);
+      }
+    };
+
+    // Process each tab
+    for (let tabIndex = startTabIndex; tabIndex < job.googleSheetTabs.length; tabIndex++) {
+      const tabName = job.googleSheetTabs[tabIndex];
+      const startBatch = checkpoint && tabName === checkpoint.tabName ? checkpoint.batchIndex : 0;
+      // Batches count from the first data row, so a resumed tab starts reading at the first unfinished batch
+      const firstRowIndex = headerRowIndex + 1 + startBatch * batchSize;
+      let endRowIndex = firstRowIndex;
+      let batchNum = startBatch;
+      let pendingRows: GoogleCellValue[][] = [];
+
+      await this.addJobLog(job.id, 'info', `Processing ${tabName}`, '📋', { 
+        tab: tabName, 
+        rows: tabRowCounts.get(tabName)
+      });
+
+      const windows = googleSheetsService.readTabWindows(googleTokens, job.googleSpreadsheetId, tabName, firstRowIndex, {
+        includeFormulas: true,
+        includeFormatting: job.preserveFormatting !== false,
+        mergedCells: job.mergedCellStrategy || 'first'
+      }, context.layout);
+
+      for await (const window of windows) {
+        token.throwIfCancelled();
+
+        // Annotations expect a header row first, so an empty one stands in for it
+        await this.annotateSourceRows(
+          job,
+          context,
+          { [tabName]: [[], ...window.rows] },
+          window.startRowIndex - 1,
+          googleTokens,
+          smartsheetTokens,
+          scanFormulasPerWindow ? this.scanWindowFormulas(job, window) : undefined
+        );
+        for (const row of window.rows) {
+          totalImages += this.countMappedImages(row, job.columnMappings);
+        }
+        endRowIndex = window.startRowIndex + window.rows.length;
+
+        // Process rows in batches
+        pendingRows.push(...window.rows);
+        while (pendingRows.length >= batchSize) {
+          await writeBatch(tabName, pendingRows.slice(0, batchSize), ++batchNum);
+          pendingRows = pendingRows.slice(batchSize);
+        }
+      }
+
+      if (pendingRows.length > 0) {
+        await writeBatch(tabName, pendingRows, ++batchNum);
+      }
+
+      tabRowCounts.set(tabName, Math.max(endRowIndex - headerRowIndex - 1, 0));
+      totalRows = countRows() + otherTabRows;
+    }
+
+    await this.finishSourceAnnotations(job, context);
+    context.sourceInfo.totalDataRows = totalRows;
+    context.sourceInfo.totalImages = totalImages;
+    await database.updateTransferJobInfo(job.id, context.sourceInfo, context.targetInfo);
+    await database.updateTransferJobStatus(job.id, 'running', buildProgress());
+  }
+
+  private async performSyncTransfer(
+    job: TransferJob,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    token: CancellationToken
+  ): Promise<void> {
+    const lineageId = job.lineageId || job.id;
+    const headerRowIndex = await this.resolveHeaderRowIndex(job, googleTokens);
+
+    await this.addJobLog(job.id, 'info', 'Sync started', '🔄', {
+      headerRow: headerRowIndex + 1,
+      targetSheetId: job.smartsheetId,
+      lineage: lineageId
+    });
+
+    const sourceRows: PlannedRow[] = [];
+    const { context, totalRows, totalImages } = await this.loadTransferSource(
+      job,
+      googleTokens,
+      smartsheetTokens,
+      headerRowIndex,
+      (googleRow, tabName, rowIndex) => {
+        sourceRows.push({
+          tabName,
+          rowIndex,
+          fingerprint: fingerprintRow(googleRow, job.columnMappings),
+          action: 'insert'
+        });
+      }
+    );
+
+    const previousFingerprints = await database.getSyncFingerprints(lineageId);
+    const { plan, removed } = buildSyncPlan(sourceRows, previousFingerprints);
+
+    const counters = this.createRowWriteCounters(context.warnings);
+    let deletedRows = 0;
+
+    await this.addJobLog(job.id, 'info', 'Sync plan ready', '📋', {
+      insert: plan.filter(row => row.action === 'insert').length,
+      update: plan.filter(row => row.action === 'update').length,
+      unchanged: plan.filter(row => row.action === 'unchanged').length,
+      removed: removed.length
+    });
+
+    const buildProgress = (currentBatch?: number, totalBatches?: number) => ({
+      ...this.buildRowWriteProgress(counters, totalRows, totalImages, currentBatch, totalBatches),
+      syncSummary: {
+        insertedRows: counters.insertedRows,
+        updatedRows: counters.updatedRows,
+        unchangedRows: counters.unchangedRows,
+        deletedRows
+      }
+    });
+
+    await database.updateTransferJobStatus(job.id, 'running', buildProgress());
+
+    const batches = this.readPlannedBatches(job, context, plan, headerRowIndex, googleTokens, smartsheetTokens);
+    await this.writeRowPlan(job, batches, plan.length, googleTokens, smartsheetTokens, token, counters, context.hierarchy, {
+      // Fingerprints are saved per batch, so a cancelled or interrupted run leaves the lineage consistent.
+      // Unchanged rows are re-saved too so their position stays current for the next diff.
+      onRowsWritten: async (writtenRows) => {
+        await database.saveSyncFingerprints(writtenRows.map(({ rowPlan, smartsheetRowId }) => ({
+          lineageId,
+          tabName: rowPlan.tabName,
+          rowIndex: rowPlan.rowIndex,
+          fingerprint: rowPlan.fingerprint!,
+          smartsheetRowId
+        })));
+      },
+      onBatchCompleted: async (batchNum, totalBatches) => {
+        await database.updateTransferJobStatus(job.id, 'running', buildProgress(batchNum, totalBatches));
+      },
+      buildProgress: () => buildProgress()
+    });
+
+    token.throwIfCancelled();
+    await this.finishSourceAnnotations(job, context);
+
+    if (removed.length > 0) {
+      if (job.deleteRemovedRows) {
+        const removedRowIds = removed.map(record => record.smartsheetRowId);
+        const deleteResult = await smartsheetAPIService.deleteRows(smartsheetTokens, job.smartsheetId, removedRowIds);
+
+        await database.deleteSyncFingerprints(lineageId, deleteResult.deleted);
+        deletedRows = deleteResult.deleted.length;
+
+        if (deleteResult.failed.length > 0) {
+          counters.errors.push({
+            type: 'row_delete_failed',
+            message: `Failed to delete ${deleteResult.failed.length} rows removed from the source`,
+            details: { rowIds: deleteResult.failed }
+          });
+        }
+
+        await this.addJobLog(job.id, 'info', `Deleted ${deleteResult.deleted.length} rows removed from the source`, '🗑️');
+      } else {
+        await this.addJobLog(job.id, 'info', `Kept ${removed.length} rows that were removed from the source`, '📌');
+      }
+    }
 
-    await database.updateTransferJobStatus(job.id, 'running', progress);
+    await database.updateTransferJobStatus(job.id, 'running', buildProgress());
+    await this.addJobLog(job.id, 'success', 'Sync finished', '🔄', {
+      inserted: counters.insertedRows,
+      updated: counters.updatedRows,
+      unchanged: counters.unchangedRows,
+      deleted: deletedRows
+    });
   }
 
-  private async performActualTransfer(
+  private async performUpsertTransfer(
     job: TransferJob,
     googleTokens: EncryptedTokens,
-    smartsheetTokens: EncryptedTokens
+    smartsheetTokens: EncryptedTokens,
+    token: CancellationToken
   ): Promise<void> {
-    // Use user-selected header row index or detect it automatically
-    let headerRowIndex = job.headerRowIndex;
-    if (headerRowIndex === undefined) {
-      const firstTab = job.googleSheetTabs[0];
-      const result = await googleSheetsService.getSpreadsheetHeadersWithRowIndex(
-        googleTokens,
-        job.googleSpreadsheetId,
-        firstTab
-      );
-      headerRowIndex = result.headerRowIndex;
-    }
+    const headerRowIndex = await this.resolveHeaderRowIndex(job, googleTokens);
 
-    // Add source and target info to job
-    await this.addJobLog(job.id, 'info', 'Transfer started', '🚀', {
+    await this.addJobLog(job.id, 'info', 'Upsert started', '🔑', {
       headerRow: headerRowIndex + 1,
       targetSheetId: job.smartsheetId
     });
 
-    // Get Google Sheets data and source info
-    const googleData = await googleSheetsService.getSpreadsheetData(
+    const sourceKeys: SourceKey[] = [];
+    const { context, totalRows, totalImages } = await this.loadTransferSource(
+      job,
       googleTokens,
-      job.googleSpreadsheetId,
-      job.googleSheetTabs,
-      true,
-      headerRowIndex
+      smartsheetTokens,
+      headerRowIndex,
+      (googleRow, tabName, rowIndex) => {
+        sourceKeys.push({ tabName, rowIndex, key: googleRow[job.upsertKeyColumnIndex!]?.value });
+      }
     );
 
-    // Get actual spreadsheet name
-    const spreadsheetInfo = await googleSheetsService.getSpreadsheetInfo(googleTokens, job.googleSpreadsheetId);
-    const sourceInfo: SourceInfo = {
-      spreadsheetTitle: spreadsheetInfo?.title || `Spreadsheet ${job.googleSpreadsheetId}`,
-      tabNames: job.googleSheetTabs,
-      headerRowIndex: headerRowIndex + 1,
-      totalDataRows: 0,
-      totalImages: 0
-    };
+    const keyMapping = job.columnMappings.find((mapping, index) =>
+      (mapping.googleColumnIndex !== undefined ? mapping.googleColumnIndex : index) === job.upsertKeyColumnIndex
+    );
+    if (!keyMapping) {
+      throw new Error('The key column must be one of the mapped columns');
+    }
 
-    // Fix column mappings and get target info
-    const actualSheet = await smartsheetAPIService.getSheetDetails(smartsheetTokens, job.smartsheetId);
-    const targetInfo: TargetInfo = {
-      sheetName: actualSheet.name,
-      sheetUrl: actualSheet.permalink
-    };
-    
-    const fixedColumnMappings = job.columnMappings.map((mapping, index) => {
-      const actualColumn = actualSheet.columns[index];
-      if (actualColumn) {
-        return {
-          ...mapping,
-          smartsheetColumnId: actualColumn.id
-        };
-      } else {
-        console.error(`❌ Column mapping failed: Trying to map to column ${index + 1} but existing sheet "${actualSheet.name}" only has ${actualSheet.columns.length} columns`);
-        throw new Error(`Cannot map ${job.columnMappings.length} columns to existing sheet "${actualSheet.name}" which only has ${actualSheet.columns.length} columns. Please select fewer columns or use a different target sheet.`);
-      }
-    });
+    const existingRows = await smartsheetAPIService.getSheetRows(
+      smartsheetTokens,
+      job.smartsheetId,
+      [keyMapping.smartsheetColumnId]
+    );
+    const { plan, conflicts } = buildUpsertPlan(sourceKeys, keyMapping.smartsheetColumnId, existingRows);
 
-    // Use the fixed mappings for the rest of the transfer
-    job.columnMappings = fixedColumnMappings;
+    const counters = this.createRowWriteCounters(context.warnings);
+    const skippedRows = conflicts.length; // Every conflict is one source row left unwritten
 
-    const errors: TransferError[] = [];
-    let totalRows = 0;
-    let processedRows = 0;
-    let totalImages = 0;
-    let processedImages = 0;
-    let successfulImages = 0;
-    let fallbackImages = 0;
-    let failedImages = 0;
+    await this.addJobLog(job.id, 'info', 'Upsert plan ready', '📋', {
+      key: keyMapping.googleColumn,
+      existingRows: existingRows.length,
+      insert: plan.filter(row => row.action === 'insert').length,
+      update: plan.filter(row => row.action === 'update').length,
+      conflicts: conflicts.length
+    });
 
-    // Count total rows and images first (only from selected columns)
-    for (const [tabName, tabData] of Object.entries(googleData)) {
-      if (tabData.length > 1) {
-        totalRows += tabData.length - 1; // Exclude header
-      }
-      // Count images only from selected columns
-      for (const row of tabData) {
-        for (const mapping of job.columnMappings) {
-          const googleColumnIndex = mapping.googleColumnIndex !== undefined ? mapping.googleColumnIndex : job.columnMappings.indexOf(mapping);
-          const cell = row[googleColumnIndex];
-          if (cell && cell.isImage) totalImages++;
-        }
-      }
+    if (conflicts.length > 0) {
+      await this.addJobLog(job.id, 'warn', `${conflicts.length} key conflicts - affected rows were skipped`, '⚠️');
     }
 
-    // Update source info with actual counts
-    sourceInfo.totalDataRows = totalRows;
-    sourceInfo.totalImages = totalImages;
-    
-    // Save source and target info to job
-    await database.updateTransferJobInfo(job.id, sourceInfo, targetInfo);
-    
-    await this.addJobLog(job.id, 'info', 'Transfer initialized', '📋', {
-      source: sourceInfo.spreadsheetTitle,
-      target: targetInfo.sheetName,
-      totalRows,
-      totalImages
+    const buildProgress = (currentBatch?: number, totalBatches?: number) => ({
+      ...this.buildRowWriteProgress(counters, totalRows, totalImages, currentBatch, totalBatches),
+      upsertSummary: {
+        insertedRows: counters.insertedRows,
+        updatedRows: counters.updatedRows,
+        skippedRows
+      },
+      conflicts
+    });
+
+    await database.updateTransferJobStatus(job.id, 'running', buildProgress());
+
+    const batches = this.readPlannedBatches(job, context, plan, headerRowIndex, googleTokens, smartsheetTokens);
+    await this.writeRowPlan(job, batches, plan.length, googleTokens, smartsheetTokens, token, counters, context.hierarchy, {
+      onBatchCompleted: async (batchNum, totalBatches) => {
+        await database.updateTransferJobStatus(job.id, 'running', buildProgress(batchNum, totalBatches));
+      },
+      buildProgress: () => buildProgress()
     });
 
-    await database.updateTransferJobStatus(job.id, 'running', {
+    await this.finishSourceAnnotations(job, context);
+    await database.updateTransferJobStatus(job.id, 'running', buildProgress());
+    await this.addJobLog(job.id, 'success', 'Upsert finished', '🔑', {
+      inserted: counters.insertedRows,
+      updated: counters.updatedRows,
+      skipped: skippedRows
+    });
+  }
+
+  private createRowWriteCounters(warnings: TransferWarning[] = []): RowWriteCounters {
+    return {
+      processedRows: 0,
+      processedImages: 0,
+      successfulImages: 0,
+      fallbackImages: 0,
+      failedImages: 0,
+      insertedRows: 0,
+      updatedRows: 0,
+      unchangedRows: 0,
+      errors: [],
+      warnings
+    };
+  }
+
+  private buildRowWriteProgress(
+    counters: RowWriteCounters,
+    totalRows: number,
+    totalImages: number,
+    currentBatch?: number,
+    totalBatches?: number
+  ): TransferJob['progress'] {
+    return {
       totalRows,
-      processedRows,
+      processedRows: counters.processedRows,
       totalImages,
-      processedImages,
-      successfulImages,
-      fallbackImages,
-      failedImages,
-      errors,
-      warnings: []
-    });
+      processedImages: counters.processedImages,
+      successfulImages: counters.successfulImages,
+      fallbackImages: counters.fallbackImages,
+      failedImages: counters.failedImages,
+      currentBatch,
+      totalBatches,
+      errors: counters.errors,
+      warnings: counters.warnings
+    };
+  }
 
-    // Process each tab
-    for (const [tabName, tabData] of Object.entries(googleData)) {
-      if (tabData.length <= 1) {
-        continue; // Skip if no data rows
+  // Applies a per-row insert/update plan in batches as they are read, then uploads images for the written rows
+  private async writeRowPlan(
+    job: TransferJob,
+    batches: AsyncIterable<RowWritePlan[]>,
+    plannedRows: number,
+    googleTokens: EncryptedTokens,
+    smartsheetTokens: EncryptedTokens,
+    token: CancellationToken,
+    counters: RowWriteCounters,
+    hierarchy: RowHierarchy | undefined,
+    hooks: {
+      onRowsWritten?: (writtenRows: Array<{ rowPlan: RowWritePlan; smartsheetRowId: number }>) => Promise<void>;
+      onBatchCompleted: (batchNum: number, totalBatches: number) => Promise<void>;
+      buildProgress: () => TransferProgress;
+    }
+  ): Promise<void> {
+    const batchSize = TRANSFER_BATCH_SIZE;
+    const totalBatches = Math.ceil(plannedRows / batchSize);
+    const reportImageProgress = this.throttleProgressUpdates(job.id, hooks.buildProgress);
+    let batchNum = 0;
+
+    for await (const batch of batches) {
+      // Everything up to the previous batch is persisted, so stopping here leaves exact progress
+      token.throwIfCancelled();
+
+      batchNum++;
+      // Rows already in the sheet can be parents of newly inserted ones
+      if (hierarchy) {
+        for (const rowPlan of batch) {
+          if (rowPlan.smartsheetRowId !== undefined) {
+            hierarchy.rowIds.set(rowPlan.googleRow, rowPlan.smartsheetRowId);
+          }
+        }
       }
+      const insertRows: Array<{ cells: SmartsheetCellValue[] }> = [];
+      const insertPlans: RowWritePlan[] = [];
+      const insertImageQueue: ImageQueueItem[] = [];
+      const updateRows: Array<{ id: number; cells: SmartsheetCellValue[] }> = [];
+      const updatePlans: RowWritePlan[] = [];
+      const updateImageQueue: ImageQueueItem[] = [];
+      const writtenRows: Array<{ rowPlan: RowWritePlan; smartsheetRowId: number }> = [];
+      let batchImages = 0;
 
-      const dataRows = tabData.slice(1); // Skip header row
-      await this.addJobLog(job.id, 'info', `Processing ${tabName}`, '📋', { 
-        tab: tabName, 
-        rows: dataRows.length 
-      });
+      for (const rowPlan of batch) {
+        token.throwIfCancelled();
 
-      // Process rows in batches
-      const batchSize = 50;
-      for (let i = 0; i < dataRows.length; i += batchSize) {
-        const batch = dataRows.slice(i, i + batchSize);
-        const smartsheetRows: Array<{ cells: SmartsheetCellValue[] }> = [];
-        const imageQueue: Array<{ rowIndex: number; columnId: number; imageUrl: string; imageId?: string }> = [];
-
-        for (let rowIndex = 0; rowIndex < batch.length; rowIndex++) {
-          const googleRow = batch[rowIndex];
-          try {
-            const smartsheetCells = await this.convertRowToSmartsheet(
-              googleRow,
+        const rowImages = this.countMappedImages(rowPlan.googleRow, job.columnMappings);
+
+        if (rowPlan.action === 'unchanged') {
+          writtenRows.push({ rowPlan, smartsheetRowId: rowPlan.smartsheetRowId! });
+          counters.unchangedRows++;
+          counters.processedRows++;
+          counters.processedImages += rowImages;
+          continue;
+        }
+
+        try {
+          if (rowPlan.action === 'insert') {
+            const cells = await this.convertRowToSmartsheet(
+              rowPlan.googleRow,
+              job.columnMappings,
+              googleTokens,
+              smartsheetTokens,
+              insertImageQueue,
+              insertRows.length
+            );
+            insertRows.push({ cells });
+            insertPlans.push(rowPlan);
+          } else {
+            const cells = await this.convertRowToSmartsheet(
+              rowPlan.googleRow,
               job.columnMappings,
               googleTokens,
               smartsheetTokens,
-              imageQueue,
-              rowIndex
+              updateImageQueue,
+              updateRows.length
             );
+            updateRows.push({ id: rowPlan.smartsheetRowId!, cells });
+            updatePlans.push(rowPlan);
+          }
+          batchImages += rowImages;
+        } catch (error: any) {
+          counters.errors.push({
+            type: rowPlan.action === 'insert' ? 'row_insert_failed' : 'row_update_failed',
+            message: error.message,
+            row: rowPlan.rowIndex,
+            details: {
+              tab: rowPlan.tabName,
+              name: error.name,
+              message: error.message
+            }
+          });
+        }
+      }
 
+      const pendingImages: PendingImage[] = [];
 
-            smartsheetRows.push({ cells: smartsheetCells });
+      if (insertRows.length > 0) {
+        try {
+          const result = await this.insertRows(
+            job,
+            smartsheetTokens,
+            insertRows,
+            insertPlans.map(rowPlan => rowPlan.googleRow),
+            hierarchy,
+            counters.warnings
+          );
+          const insertedRows = result.result;
 
-            // Update image progress (only from selected columns)
-            for (const mapping of job.columnMappings) {
-              const googleColumnIndex = mapping.googleColumnIndex !== undefined ? mapping.googleColumnIndex : job.columnMappings.indexOf(mapping);
-              const cell = googleRow[googleColumnIndex];
-              if (cell && cell.isImage) {
-                processedImages++;
-              }
+          insertedRows.forEach((insertedRow, index) => {
+            if (insertedRow?.id && insertPlans[index]) {
+              writtenRows.push({ rowPlan: insertPlans[index], smartsheetRowId: insertedRow.id });
             }
-          } catch (error: any) {
-            errors.push({
-              type: 'row_insert_failed',
-              message: error.message,
-              row: processedRows + smartsheetRows.length,
-              details: {
-                name: error.name,
-                message: error.message,
-                stack: error.stack
-              }
-            });
-          }
+          });
+
+          const insertImages = this.resolveImageQueue(insertImageQueue, insertedRows);
+          counters.failedImages += insertImageQueue.length - insertImages.length;
+          pendingImages.push(...insertImages);
+
+          counters.processedRows += result.success;
+          counters.insertedRows += result.success;
+          counters.errors.push(...result.errors.map(e => ({
+            type: 'row_insert_failed' as const,
+            message: e.error,
+            row: e.row,
+            details: e
+          })));
+        } catch (error: any) {
+          counters.errors.push({
+            type: 'row_insert_failed',
+            message: error.message,
+            details: { batch: batchNum }
+          });
         }
+      }
 
-        // Insert batch to Smartsheet
-        if (smartsheetRows.length > 0) {
-          try {
-            const result = await smartsheetAPIService.addRowsToSheet(
-              smartsheetTokens,
-              job.smartsheetId,
-              smartsheetRows
-            );
+      if (updateRows.length > 0) {
+        try {
+          const result = await smartsheetAPIService.updateRows(smartsheetTokens, job.smartsheetId, updateRows);
+          const updatedRowIds = new Set((result.result || []).map(row => row?.id));
 
-            processedRows += result.success;
-            
-            const batchNum = Math.floor(i / batchSize) + 1;
-            const totalBatches = Math.ceil(dataRows.length / batchSize);
-            const progressPercent = Math.round((processedRows / totalRows) * 100);
-            
-            await this.addJobLog(job.id, 'success', `Batch ${batchNum}/${totalBatches} completed`, '✅', {
-              success: result.success,
-              failed: result.failed,
-              progress: `${processedRows}/${totalRows} (${progressPercent}%)`
-            });
-            
-            // Process images for successfully inserted rows
-            if (imageQueue.length > 0 && result.success > 0) {
-              const imageResults = await this.processImageQueue(
-                imageQueue, 
-                result, 
-                job.smartsheetId,
-                googleTokens,
-                smartsheetTokens
-              );
-              
-              // Update image statistics
-              successfulImages += imageResults.successful;
-              fallbackImages += imageResults.fallbacks;
-              failedImages += imageResults.failed;
-              
-              // Log image processing results
-              if (imageResults.successful > 0 || imageResults.fallbacks > 0 || imageResults.failed > 0) {
-                await this.addJobLog(job.id, 'info', `Image processing completed`, '🖼️', {
-                  successful: imageResults.successful,
-                  fallbacks: imageResults.fallbacks,
-                  failed: imageResults.failed,
-                  total: imageQueue.length
-                });
-                
-                // Add warning if there were fallbacks or failures
-                if (imageResults.fallbacks > 0) {
-                  await this.addJobLog(job.id, 'warn', `${imageResults.fallbacks} images converted to links (download failed)`, '⚠️');
-                }
-                if (imageResults.failed > 0) {
-                  await this.addJobLog(job.id, 'error', `${imageResults.failed} images could not be processed`, '❌');
-                }
-              }
+          updatePlans.forEach(rowPlan => {
+            if (updatedRowIds.has(rowPlan.smartsheetRowId)) {
+              writtenRows.push({ rowPlan, smartsheetRowId: rowPlan.smartsheetRowId! });
             }
-            
-            errors.push(...result.errors.map(e => ({
-              type: 'row_insert_failed' as const,
-              message: e.error,
-              row: e.row,
-              details: e
-            })));
-          } catch (error: any) {
-            await this.addJobLog(job.id, 'error', 'Batch insertion failed', '❌', {
-              error: error.message,
-              batch: Math.floor(i / batchSize) + 1
-            });
-            errors.push({
-              type: 'row_insert_failed',
-              message: error.message,
-              details: {
-                name: error.name,
-                message: error.message,
-                stack: error.stack
-              }
-            });
-          }
-        }
+          });
 
-        // Update progress with batch info
-        await database.updateTransferJobStatus(job.id, 'running', {
-          totalRows,
-          processedRows,
-          totalImages,
-          processedImages,
-          successfulImages,
-          fallbackImages,
-          failedImages,
-          currentBatch: Math.floor(i / batchSize) + 1,
-          totalBatches: Math.ceil(dataRows.length / batchSize),
-          errors,
-          warnings: []
-        });
-        
-        // Emit progress update via WebSocket every batch
-        const updatedJob = await database.getTransferJobById(job.id);
-        if (updatedJob) {
-          webSocketService.emitJobUpdate(job.id, updatedJob);
+          // Only queue images for rows Smartsheet confirmed, in request order
+          const confirmedRows = updateRows.map(row => (updatedRowIds.has(row.id) ? { id: row.id } : null));
+          const updateImages = this.resolveImageQueue(updateImageQueue, confirmedRows);
+          counters.failedImages += updateImageQueue.length - updateImages.length;
+          pendingImages.push(...updateImages);
+
+          counters.processedRows += result.success;
+          counters.updatedRows += result.success;
+          counters.errors.push(...result.errors.map(e => ({
+            type: 'row_update_failed' as const,
+            message: e.error,
+            row: e.row,
+            details: e
+          })));
+        } catch (error: any) {
+          counters.errors.push({
+            type: 'row_update_failed',
+            message: error.message,
+            details: { batch: batchNum }
+          });
         }
       }
+
+      if (hooks.onRowsWritten && writtenRows.length > 0) {
+        await hooks.onRowsWritten(writtenRows);
+      }
+
+      const newRows = writtenRows
+        .filter(({ rowPlan }) => rowPlan.action === 'insert')
+        .map(({ rowPlan, smartsheetRowId }) => ({ googleRow: rowPlan.googleRow, smartsheetRowId }));
+
+      // Only new rows get discussions and attachments; updated rows already received theirs when they were inserted
+      if (job.includeComments) {
+        await this.postRowDiscussions(job, newRows, smartsheetTokens, counters.warnings);
+      }
+      await this.postRowAttachments(job, newRows, googleTokens, smartsheetTokens, token, counters.warnings);
+      await this.placeFloatingImages(job, newRows, smartsheetTokens, counters.warnings);
+
+      // Updating a row overwrote its floating image column, so that cell gets its image again
+      if (job.floatingImageMode === 'image_column') {
+        const updatedRows = writtenRows
+          .filter(({ rowPlan }) => rowPlan.action === 'update')
+          .map(({ rowPlan, smartsheetRowId }) => ({ googleRow: rowPlan.googleRow, smartsheetRowId }));
+        await this.placeFloatingImages(job, updatedRows, smartsheetTokens, counters.warnings, true);
+      }
+
+      // Queued images count as processed as each one finishes
+      counters.processedImages += batchImages - pendingImages.length;
+      if (pendingImages.length > 0) {
+        await this.processImageQueue(
+          pendingImages,
+          job.smartsheetId,
+          googleTokens,
+          smartsheetTokens,
+          token,
+          async outcome => {
+            counters.processedImages++;
+            if (outcome === 'successful') counters.successfulImages++;
+            else if (outcome === 'fallback') counters.fallbackImages++;
+            else counters.failedImages++;
+            await reportImageProgress();
+          }
+        );
+      }
+
+      await this.addJobLog(job.id, 'success', `Batch ${batchNum}/${totalBatches} completed`, '✅', {
+        batch: batchNum,
+        inserted: insertRows.length,
+        updated: updateRows.length,
+        progress: `${counters.processedRows}/${plannedRows}`
+      });
+
+      if (hierarchy) {
+        this.pruneRowHierarchy(hierarchy, batch.map(rowPlan => rowPlan.googleRow));
+      }
+      await hooks.onBatchCompleted(batchNum, totalBatches);
+      await this.logThrottling(job);
+
+      const updatedJob = await database.getTransferJobById(job.id);
+      if (updatedJob) {
+        webSocketService.emitJobUpdate(job.id, updatedJob);
+      }
     }
   }
 
+  private countMappedImages(googleRow: GoogleCellValue[], columnMappings: ColumnMapping[]): number {
+    return columnMappings.filter((mapping, index) => {
+      const cell = googleRow[mapping.googleColumnIndex !== undefined ? mapping.googleColumnIndex : index];
+      // Images in attachment columns are attached to the row rather than placed in the cell
+      return cell && cell.isImage && !(mapping.dataType === 'attachment' && cell.driveFile);
+    }).length;
+  }
+
   private async convertRowToSmartsheet(
     googleRow: GoogleCellValue[],
     columnMappings: ColumnMapping[],
     googleTokens: EncryptedTokens,
     smartsheetTokens: EncryptedTokens,
-    imageQueue?: Array<{ rowIndex: number; columnId: number; imageUrl: string; imageId?: string }>,
+    imageQueue?: ImageQueueItem[],
     currentRowIndex?: number
   ): Promise<SmartsheetCellValue[]> {
     const smartsheetCells: SmartsheetCellValue[] = [];
 
     for (let i = 0; i < columnMappings.length; i++) {
       const mapping = columnMappings[i];
+      if (mapping.columnFormula) {
+        continue; // Smartsheet fills column formula cells itself and rejects values for them
+      }
+
       // Use the original Google column index if available, otherwise fall back to sequential index
       const googleColumnIndex = mapping.googleColumnIndex !== undefined ? mapping.googleColumnIndex : i;
       const googleCell = googleRow[googleColumnIndex];
@@ -549,7 +2463,18 @@ export class TransferService {
       }
 
       try {
-        if (googleCell.isImage && googleCell.imageUrl) {
+        if (mapping.dataType === 'attachment' && googleCell.driveFile) {
+          // The file itself is attached once the row exists; the cell links to it in Drive
+          const { name, webViewLink } = googleCell.driveFile;
+          smartsheetCells.push(webViewLink ? {
+            columnId: mapping.smartsheetColumnId,
+            value: name,
+            hyperlink: { url: webViewLink, text: name }
+          } : {
+            columnId: mapping.smartsheetColumnId,
+            value: name
+          });
+        } else if (googleCell.isImage && googleCell.imageUrl) {
           // Create placeholder cell for image (will add actual image after row creation)
           smartsheetCells.push({
             columnId: mapping.smartsheetColumnId,
@@ -565,6 +2490,11 @@ export class TransferService {
               imageId: googleCell.imageId
             });
           }
+        } else if (googleCell.smartsheetFormula) {
+          smartsheetCells.push({
+            columnId: mapping.smartsheetColumnId,
+            formula: googleCell.smartsheetFormula
+          });
         } else if (googleCell.hyperlink && mapping.dataType === 'hyperlink') {
           // Handle hyperlink cell
           smartsheetCells.push({
@@ -575,11 +2505,34 @@ export class TransferService {
               text: googleCell.value || googleCell.hyperlink
             }
           });
+        } else if (mapping.dataType === 'contact' && googleCell.chips?.some(chip => chip.type === 'person')) {
+          // A CONTACT_LIST cell holds one contact; several people are kept as their emails
+          const people = googleCell.chips.filter(chip => chip.type === 'person');
+          smartsheetCells.push(people.length === 1 ? {
+            columnId: mapping.smartsheetColumnId,
+            objectValue: {
+              objectType: 'CONTACT',
+              email: people[0].email!,
+              name: people[0].text !== people[0].email ? people[0].text : undefined
+            }
+          } : {
+            columnId: mapping.smartsheetColumnId,
+            value: people.map(chip => chip.email).join(', ')
+          });
+        } else if (mapping.dataType === 'multi_picklist' && String(googleCell.value ?? '').trim() !== '') {
+          // MULTI_PICKLIST cells only accept their values as an object value
+          smartsheetCells.push({
+            columnId: mapping.smartsheetColumnId,
+            objectValue: {
+              objectType: 'MULTI_PICKLIST',
+              values: splitMultiPicklistValue(googleCell.value)
+            }
+          });
         } else {
           // Handle regular cell
           smartsheetCells.push({
             columnId: mapping.smartsheetColumnId,
-            value: this.formatCellValue(googleCell.value, mapping.dataType)
+            value: this.formatCellValue(googleCell, mapping.dataType)
           });
         }
       } catch (error) {
@@ -589,6 +2542,10 @@ export class TransferService {
           value: googleCell.value || ''
         });
       }
+
+      if (googleCell.smartsheetFormat) {
+        smartsheetCells[smartsheetCells.length - 1].format = googleCell.smartsheetFormat;
+      }
     }
 
     return smartsheetCells;
@@ -606,7 +2563,7 @@ export class TransferService {
       }
 
       // Download image
-      const imageData = await googleDriveService.downloadImage(
+      const imageData = await imageStore.getImage(
         googleTokens,
         googleCell.imageUrl,
         googleCell.imageId
@@ -647,90 +2604,162 @@ export class TransferService {
     }
   }
 
-  private formatCellValue(value: any, dataType: string): any {
+  // Prefers the typed value read from the sheet over re-parsing the formatted text
+  private formatCellValue(cell: GoogleCellValue, dataType: string): any {
+    const value = cell.value;
     if (value === null || value === undefined) {
       return '';
     }
 
     switch (dataType) {
       case 'number':
-        const num = parseFloat(value);
-        return isNaN(num) ? value : num;
+        if (typeof cell.typedValue === 'number') {
+          return cell.typedValue;
+        }
+        return String(value);
       case 'date':
-        // Try to parse as date
-        const date = new Date(value);
-        return isNaN(date.getTime()) ? value : date.toISOString().split('T')[0];
+        // DATE columns take the date part only
+        return cell.dateValue ? cell.dateValue.slice(0, 10) : String(value);
+      case 'boolean':
+        if (typeof cell.typedValue === 'boolean') {
+          return cell.typedValue;
+        }
+        // CHECKBOX columns only take true/false; anything unrecognised is passed through so the row error shows it
+        return parseBooleanValue(value) ?? String(value);
+      case 'picklist':
+      case 'contact':
+        // PICKLIST options and CONTACT_LIST emails are matched on the exact trimmed text
+        return String(value).trim();
       default:
         return String(value);
     }
   }
 
+  private resolveImageQueue(imageQueue: ImageQueueItem[], insertedRows: any[]): PendingImage[] {
+    const pendingImages: PendingImage[] = [];
+
+    for (const imageItem of imageQueue) {
+      const insertedRow = insertedRows[imageItem.rowIndex];
+      if (!insertedRow || !insertedRow.id) {
+        continue; // Row structure issues - counted as failed by the caller
+      }
+
+      pendingImages.push({
+        rowId: insertedRow.id,
+        columnId: imageItem.columnId,
+        imageUrl: imageItem.imageUrl,
+        imageId: imageItem.imageId
+      });
+    }
+
+    return pendingImages;
+  }
+
+  // Downloads and uploads run in separate pools so a slow Drive download doesn't hold up uploads, and the reverse.
+  // Uploads go through the Smartsheet client's rate limiter. onImageDone is called as each image finishes.
   private async processImageQueue(
-    imageQueue: Array<{ rowIndex: number; columnId: number; imageUrl: string; imageId?: string }>,
-    insertResult: any,
+    pendingImages: PendingImage[],
     sheetId: number,
     googleTokens: EncryptedTokens,
-    smartsheetTokens: EncryptedTokens
-  ): Promise<{ successful: number; failed: number; fallbacks: number }> {
-    // Get the actual row IDs from the insert result - try different possible structures
-    const insertedRows = insertResult.result || insertResult.data || insertResult || [];
-    
+    smartsheetTokens: EncryptedTokens,
+    token: CancellationToken,
+    onImageDone?: (outcome: ImageOutcome) => Promise<void>
+  ): Promise<{ successful: number; failed: number; fallbacks: number; abandoned: number }> {
     let successful = 0;
     let failed = 0;
     let fallbacks = 0;
+    let abandoned = 0;
     
     // Log image processing concisely
-    if (imageQueue.length > 0) {
-      console.log(`🖼️ Processing ${imageQueue.length} images`);
+    if (pendingImages.length > 0) {
+      console.log(`🖼️ Processing ${pendingImages.length} images`);
     }
-    
-    for (const imageItem of imageQueue) {
-      // Find the corresponding inserted row first (outside try block)
-      const insertedRow = insertedRows[imageItem.rowIndex];
-      if (!insertedRow || !insertedRow.id) {
-        failed++;
-        continue; // Skip - row structure issues
+
+    const downloads = new ConcurrencyPool(config.transfer.imageDownloadConcurrency);
+    const uploads = new ConcurrencyPool(config.transfer.imageUploadConcurrency);
+    // Caps the images in flight so downloaded files don't pile up in memory waiting for an upload slot
+    const pipeline = new ConcurrencyPool(config.transfer.imageDownloadConcurrency + config.transfer.imageUploadConcurrency);
+
+    // Fallback: update cell with URL hyperlink
+    const linkImage = async (imageItem: PendingImage): Promise<ImageOutcome> => {
+      try {
+        await uploads.run(() => smartsheetAPIService.updateCellWithUrl(
+          smartsheetTokens,
+          sheetId,
+          imageItem.rowId,
+          imageItem.columnId,
+          imageItem.imageUrl
+        ));
+        return 'fallback';
+      } catch (fallbackError: any) {
+        console.log(`❌ Image processing failed: ${fallbackError.message}`);
+        return 'failed';
+      }
+    };
+
+    const processImage = async (imageItem: PendingImage): Promise<ImageOutcome> => {
+      // The rows already exist, so the drain policy decides what happens to their placeholders
+      if (token.isCancelled && config.transfer.cancelImageDrain !== 'finish') {
+        if (config.transfer.cancelImageDrain === 'abandon') {
+          abandoned++;
+          return 'failed';
+        }
+        return linkImage(imageItem);
       }
 
       try {
-        // Download and add image
-        const imageData = await googleDriveService.downloadImage(
+        // Download (or reuse a stored copy) and add image
+        const imageData = await downloads.run(() => imageStore.getImage(
           googleTokens,
           imageItem.imageUrl,
           imageItem.imageId
-        );
+        ));
         
-        await smartsheetAPIService.addImageToCell(
+        await uploads.run(() => smartsheetAPIService.addImageToCell(
           smartsheetTokens,
           sheetId,
-          insertedRow.id,
+          imageItem.rowId,
           imageItem.columnId,
           imageData.buffer,
           imageData.filename,
           imageData.mimeType
-        );
+        ));
         
-        successful++;
+        return 'successful';
       } catch (error: any) {
-        // Fallback: update cell with URL hyperlink
         console.log(`⚠️ Image fallback: ${imageItem.imageUrl}`);
-        try {
-          await smartsheetAPIService.updateCellWithUrl(
-            smartsheetTokens,
-            sheetId,
-            insertedRow.id,
-            imageItem.columnId,
-            imageItem.imageUrl
-          );
-          fallbacks++;
-        } catch (fallbackError: any) {
-          console.log(`❌ Image processing failed: ${fallbackError.message}`);
-          failed++;
-        }
+        return linkImage(imageItem);
       }
-    }
+    };
+
+    await Promise.all(pendingImages.map(imageItem => pipeline.run(async () => {
+      const outcome = await processImage(imageItem);
+      if (outcome === 'successful') successful++;
+      else if (outcome === 'fallback') fallbacks++;
+      else failed++;
+
+      if (onImageDone) {
+        await onImageDone(outcome);
+      }
+    })));
     
-    return { successful, failed, fallbacks };
+    return { successful, failed, fallbacks, abandoned };
+  }
+
+  // Image results arrive one at a time; writing each one would hammer the database, so updates are spaced out
+  private throttleProgressUpdates(jobId: string, buildProgress: () => TransferProgress): () => Promise<void> {
+    let lastUpdate = Date.now();
+
+    return async () => {
+      if (Date.now() - lastUpdate < IMAGE_PROGRESS_INTERVAL_MS) return;
+      lastUpdate = Date.now();
+
+      await database.updateTransferJobStatus(jobId, 'running', buildProgress());
+      const updatedJob = await database.getTransferJobById(jobId);
+      if (updatedJob) {
+        webSocketService.emitJobUpdate(jobId, updatedJob);
+      }
+    };
   }
 
   public async getDryRunResult(jobId: string): Promise<DryRunResult | null> {
@@ -753,14 +2782,72 @@ export class TransferService {
     return await database.getTransferJobById(jobId);
   }
 
+  // Returns jobs that were running when the server went down, reset to 'queued' for the queue to resume
+  public async recoverInterruptedJobs(): Promise<TransferJob[]> {
+    const interruptedJobs = await database.getInterruptedTransferJobs();
+    if (interruptedJobs.length === 0) {
+      return [];
+    }
+
+    console.log(`🔁 Recovering ${interruptedJobs.length} interrupted transfer job(s)`);
+
+    for (const job of interruptedJobs) {
+      const checkpoint = await database.getTransferCheckpoint(job.id);
+      const message = checkpoint
+        ? `Server restarted - resuming from ${checkpoint.tabName} batch ${checkpoint.batchIndex + 1}`
+        : 'Server restarted - restarting transfer';
+      await this.addJobLog(job.id, 'warn', message, '🔁');
+
+      // The checkpoint drives the resume once executeTransfer picks the job up again
+      await database.updateTransferJobStatus(job.id, 'queued');
+    }
+
+    return interruptedJobs;
+  }
+
   public async cancelTransfer(jobId: string): Promise<void> {
     const job = await database.getTransferJobById(jobId);
     if (!job) {
       throw new Error('Transfer job not found');
     }
 
-    if (job.status === 'running') {
-      await database.updateTransferJobStatus(jobId, 'cancelled');
+    // A live transfer stops itself at the next row, batch or image boundary
+    const token = this.cancellationTokens.get(jobId);
+    if (token) {
+      token.cancel();
+      await this.addJobLog(jobId, 'warn', 'Cancellation requested', '⏹️');
+      return;
+    }
+
+    // Queued jobs, and running jobs with no executor in this process, have nothing left to stop
+    if (job.status === 'queued' || job.status === 'pending' || job.status === 'running') {
+      await database.removeQueueEntry(jobId);
+      await this.finalizeCancelledJob(jobId);
+    }
+  }
+
+  private async finalizeCancelledJob(jobId: string): Promise<void> {
+    const job = await database.getTransferJobById(jobId);
+    if (!job) {
+      return;
+    }
+
+    // Progress is only persisted after rows are written, so it already matches the target sheet
+    const progress = {
+      ...job.progress,
+      currentBatch: undefined,
+      totalBatches: undefined
+    };
+
+    await this.addJobLog(jobId, 'warn', 'Transfer cancelled', '⏹️', {
+      progress: `${progress.processedRows}/${progress.totalRows}`
+    });
+    await database.updateTransferJobStatus(jobId, 'cancelled', progress);
+    await database.deleteTransferCheckpoint(jobId);
+
+    const cancelledJob = await database.getTransferJobById(jobId);
+    if (cancelledJob) {
+      webSocketService.emitJobCancelled(jobId, cancelledJob);
     }
   }
 }
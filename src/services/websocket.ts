@@ -41,6 +41,16 @@ class WebSocketService {
     });
   }
 
+  public emitJobCancelled(jobId: string, job: TransferJob): void {
+    if (!this.io) return;
+    
+    this.io.to(`job-${jobId}`).emit('job-cancelled', {
+      jobId,
+      job,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   public getConnectedClientsCount(jobId: string): number {
     if (!this.io) return 0;
     
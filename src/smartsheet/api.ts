@@ -1,18 +1,22 @@
-import axios, { AxiosResponse } from 'axios';
+import { AxiosResponse } from 'axios';
+import crypto from 'crypto';
 import FormData from 'form-data';
 import { smartsheetAuthService } from '../auth/smartsheet';
-import { encryptionService } from '../utils/encryption';
+import { smartsheetHttpClient } from './http';
 import database from '../database';
 import { 
   SmartsheetSheet, 
   SmartsheetColumn, 
   SmartsheetCellValue, 
+  SmartsheetRow,
+  SmartsheetFormatTables,
   EncryptedTokens,
   ImageCache
 } from '../types';
 
 export class SmartsheetAPIService {
   private readonly baseUrl = 'https://api.smartsheet.com/2.0';
+  private formatTables?: SmartsheetFormatTables;
 
   private logApiResponse(endpoint: string, method: string, response: any, error?: any): void {
     // Only log errors, skip all verbose response logging
@@ -108,11 +112,15 @@ export class SmartsheetAPIService {
     }
   }
 
+  // Creates the folder at the top of the workspace, or inside parentFolderId when it is given
   public async createFolderInWorkspace(
     encryptedTokens: EncryptedTokens,
     workspaceId: number,
-    folderName: string
+    folderName: string,
+    parentFolderId?: number
   ): Promise<any> {
+    const endpoint = parentFolderId ? `/folders/${parentFolderId}/folders` : `/workspaces/${workspaceId}/folders`;
+
     try {
       const folderData = {
         name: folderName
@@ -121,11 +129,11 @@ export class SmartsheetAPIService {
       const response = await smartsheetAuthService.makeAuthenticatedRequest(
         encryptedTokens,
         'POST',
-        `/workspaces/${workspaceId}/folders`,
+        endpoint,
         folderData
       );
 
-      this.logApiResponse(`/workspaces/${workspaceId}/folders`, 'POST', response);
+      this.logApiResponse(endpoint, 'POST', response);
 
       return {
         id: response.result.id,
@@ -133,7 +141,7 @@ export class SmartsheetAPIService {
         permalink: response.result.permalink
       };
     } catch (error: any) {
-      this.logApiResponse(`/workspaces/${workspaceId}/folders`, 'POST', null, error);
+      this.logApiResponse(endpoint, 'POST', null, error);
       throw new Error(`Failed to create folder: ${error.message}`);
     }
   }
@@ -158,9 +166,11 @@ export class SmartsheetAPIService {
           title: col.title,
           type: col.type,
           primary: col.primary || false,
-          index
+          index,
+          formula: col.formula
         })),
-        permalink: sheet.permalink
+        permalink: sheet.permalink,
+        totalRowCount: sheet.totalRowCount
       };
     } catch (error: any) {
       this.logApiResponse(`/sheets/${sheetId}`, 'GET', null, error);
@@ -168,21 +178,78 @@ export class SmartsheetAPIService {
     }
   }
 
+  public async getSheetRows(
+    encryptedTokens: EncryptedTokens,
+    sheetId: number,
+    columnIds?: number[]
+  ): Promise<SmartsheetRow[]> {
+    const pageSize = 500;
+    const rows: SmartsheetRow[] = [];
+    let page = 1;
+    let totalRowCount = 0;
+
+    try {
+      do {
+        const params = new URLSearchParams({
+          page: String(page),
+          pageSize: String(pageSize)
+        });
+        if (columnIds && columnIds.length > 0) {
+          params.set('columnIds', columnIds.join(','));
+        }
+
+        const response = await smartsheetAuthService.makeAuthenticatedRequest(
+          encryptedTokens,
+          'GET',
+          `/sheets/${sheetId}?${params.toString()}`
+        );
+
+        totalRowCount = response.totalRowCount || 0;
+        const pageRows = response.rows || [];
+        rows.push(...pageRows.map((row: any) => ({
+          id: row.id,
+          rowNumber: row.rowNumber,
+          cells: (row.cells || []).map((cell: any) => ({
+            columnId: cell.columnId,
+            value: cell.value,
+            displayValue: cell.displayValue
+          }))
+        })));
+
+        if (pageRows.length === 0) break;
+        page++;
+      } while (rows.length < totalRowCount);
+
+      return rows;
+    } catch (error: any) {
+      this.logApiResponse(`/sheets/${sheetId}`, 'GET', null, error);
+      throw new Error(`Failed to get sheet rows: ${error.message}`);
+    }
+  }
+
   public async createSheet(
     encryptedTokens: EncryptedTokens,
     name: string,
-    columns: Array<{ title: string; type: string; primary?: boolean }>,
+    columns: Array<{ title: string; type: string; primary?: boolean; options?: string[]; validation?: boolean }>,
     workspaceId?: number,
     folderId?: number
   ): Promise<SmartsheetSheet> {
     try {
       const sheetData = {
         name,
-        columns: columns.map((col, index) => ({
-          title: col.title,
-          type: col.type || 'TEXT_NUMBER',
-          primary: col.primary || index === 0
-        }))
+        columns: columns.map((col, index) => {
+          const primary = col.primary || index === 0;
+          // The primary column must be TEXT_NUMBER
+          const type = primary ? 'TEXT_NUMBER' : col.type || 'TEXT_NUMBER';
+          return {
+            title: col.title,
+            type,
+            primary,
+            ...((type === 'PICKLIST' || type === 'MULTI_PICKLIST') && col.options?.length
+              ? { options: col.options, validation: col.validation === true }
+              : {})
+          };
+        })
       };
 
       console.log(`📋 Creating sheet "${sheetData.name}" with ${sheetData.columns.length} columns`);
@@ -267,6 +334,103 @@ export class SmartsheetAPIService {
     }
   }
 
+  // The format tables are the same for every account, so they are fetched once per process
+  public async getFormatTables(encryptedTokens: EncryptedTokens): Promise<SmartsheetFormatTables> {
+    if (this.formatTables) {
+      return this.formatTables;
+    }
+
+    try {
+      const response = await smartsheetAuthService.makeAuthenticatedRequest(
+        encryptedTokens,
+        'GET',
+        '/serverinfo'
+      );
+
+      const formats = response.formats || {};
+      this.formatTables = {
+        fontFamily: formats.fontFamily || [],
+        fontSize: formats.fontSize || [],
+        horizontalAlign: formats.horizontalAlign || [],
+        verticalAlign: formats.verticalAlign || [],
+        color: formats.color || []
+      };
+      return this.formatTables;
+    } catch (error: any) {
+      this.logApiResponse('/serverinfo', 'GET', null, error);
+      throw new Error(`Failed to get format tables: ${error.message}`);
+    }
+  }
+
+  public async setColumnFormula(
+    encryptedTokens: EncryptedTokens,
+    sheetId: number,
+    columnId: number,
+    formula: string
+  ): Promise<void> {
+    try {
+      const response = await smartsheetAuthService.makeAuthenticatedRequest(
+        encryptedTokens,
+        'PUT',
+        `/sheets/${sheetId}/columns/${columnId}`,
+        { formula }
+      );
+
+      this.logApiResponse(`/sheets/${sheetId}/columns/${columnId}`, 'PUT', response);
+    } catch (error: any) {
+      this.logApiResponse(`/sheets/${sheetId}/columns/${columnId}`, 'PUT', null, error);
+      throw new Error(`Failed to set column formula: ${error.message}`);
+    }
+  }
+
+  // Returns the new discussion's ID so replies can be added to it
+  public async createRowDiscussion(
+    encryptedTokens: EncryptedTokens,
+    sheetId: number,
+    rowId: number,
+    text: string
+  ): Promise<number> {
+    const endpoint = `/sheets/${sheetId}/rows/${rowId}/discussions`;
+
+    try {
+      const response = await smartsheetAuthService.makeAuthenticatedRequest(
+        encryptedTokens,
+        'POST',
+        endpoint,
+        { comment: { text } }
+      );
+
+      this.logApiResponse(endpoint, 'POST', response);
+      return response.result.id;
+    } catch (error: any) {
+      this.logApiResponse(endpoint, 'POST', null, error);
+      throw new Error(`Failed to create row discussion: ${error.message}`);
+    }
+  }
+
+  public async addDiscussionComment(
+    encryptedTokens: EncryptedTokens,
+    sheetId: number,
+    discussionId: number,
+    text: string
+  ): Promise<void> {
+    const endpoint = `/sheets/${sheetId}/discussions/${discussionId}/comments`;
+
+    try {
+      const response = await smartsheetAuthService.makeAuthenticatedRequest(
+        encryptedTokens,
+        'POST',
+        endpoint,
+        { text }
+      );
+
+      this.logApiResponse(endpoint, 'POST', response);
+    } catch (error: any) {
+      this.logApiResponse(endpoint, 'POST', null, error);
+      throw new Error(`Failed to add discussion comment: ${error.message}`);
+    }
+  }
+
   public async addImageToCell(
     encryptedTokens: EncryptedTokens,
     sheetId: number,
@@ -277,22 +441,18 @@ export class SmartsheetAPIService {
     mimeType: string
   ): Promise<string> {
     try {
-      const tokens = encryptionService.decryptTokens(encryptedTokens.encryptedData);
-
-      const response = await axios.post(
-        `${this.baseUrl}/sheets/${sheetId}/rows/${rowId}/columns/${columnId}/cellimages`,
-        imageBuffer,
-        {
-          headers: {
-            'Authorization': `Bearer ${tokens.accessToken}`,
-            'Content-Type': mimeType,
-            'Content-Disposition': `attachment; filename="${filename}"`,
-            'Content-Length': imageBuffer.length.toString()
-          },
-          maxContentLength: 10 * 1024 * 1024, // 10MB limit
-          timeout: 60000 // 60 seconds timeout
-        }
-      );
+      const response = await smartsheetHttpClient.request(encryptedTokens, {
+        method: 'POST',
+        url: `${this.baseUrl}/sheets/${sheetId}/rows/${rowId}/columns/${columnId}/cellimages`,
+        data: imageBuffer,
+        headers: {
+          'Content-Type': mimeType,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Content-Length': imageBuffer.length.toString()
+        },
+        maxContentLength: 10 * 1024 * 1024, // 10MB limit
+        timeout: 60000 // 60 seconds timeout
+      });
 
       return response.data.id;
     } catch (error: any) {
@@ -313,27 +473,26 @@ export class SmartsheetAPIService {
     mimeType: string
   ): Promise<string> {
     try {
-      // Check cache first
-      const imageHash = encryptionService.generateSecureHash(imageBuffer.toString('base64'));
+      // Check cache first. Keyed the same way as the image store, whose rows may not have been uploaded yet
+      const imageHash = crypto.createHash('sha256').update(imageBuffer).digest('hex');
       const cachedImage = await database.getCachedImage(imageHash);
       
-      if (cachedImage) {
+      if (cachedImage?.smartsheetImageId) {
         return cachedImage.smartsheetImageId;
       }
 
-      const tokens = encryptionService.decryptTokens(encryptedTokens.encryptedData);
-      
       const formData = new FormData();
       formData.append('file', imageBuffer, {
         filename,
         contentType: mimeType
       });
 
-      const response = await axios.post(`${this.baseUrl}/images`, formData, {
-        headers: {
-          ...formData.getHeaders(),
-          'Authorization': `Bearer ${tokens.accessToken}`
-        },
+      // Sent as a buffer rather than a stream so a throttled request can be retried
+      const response = await smartsheetHttpClient.request(encryptedTokens, {
+        method: 'POST',
+        url: `${this.baseUrl}/images`,
+        data: formData.getBuffer(),
+        headers: formData.getHeaders(),
         maxContentLength: 10 * 1024 * 1024, // 10MB limit
         timeout: 60000 // 60 seconds timeout
       });
@@ -362,6 +521,7 @@ export class SmartsheetAPIService {
       cells: SmartsheetCellValue[];
       toTop?: boolean;
       toBottom?: boolean;
+      parentId?: number; // Inserts the row as the last child of this row
     }>
   ): Promise<{ success: number; failed: number; errors: Array<{ row: number; error: string }>; result?: any[] }> {
     try {
@@ -371,8 +531,16 @@ export class SmartsheetAPIService {
       const allErrors: Array<{ row: number; error: string }> = [];
       let allInsertedRows: any[] = [];
 
-      for (let i = 0; i < rows.length; i += batchSize) {
-        const batch = rows.slice(i, i + batchSize);
+      let i = 0;
+      while (i < rows.length) {
+        // Every row in one request must share the same location, so a new request starts whenever the parent changes
+        let end = i + 1;
+        while (end < rows.length && end - i < batchSize && rows[end].parentId === rows[i].parentId) {
+          end++;
+        }
+        const batch = rows.slice(i, end);
+        const batchStart = i;
+        i = end;
         
         try {
           const response = await smartsheetAuthService.makeAuthenticatedRequest(
@@ -381,7 +549,8 @@ export class SmartsheetAPIService {
             `/sheets/${sheetId}/rows`,
             batch.map(row => ({
               cells: row.cells,
-              toBottom: row.toBottom !== false // Default to bottom
+              toBottom: row.toBottom !== false, // Default to bottom
+              ...(row.parentId !== undefined && { parentId: row.parentId })
             }))
           );
 
@@ -394,6 +563,8 @@ export class SmartsheetAPIService {
           }
         } catch (error: any) {
           totalFailed += batch.length;
+          // Keep the result aligned with the request rows
+          allInsertedRows = allInsertedRows.concat(new Array(batch.length).fill(null));
           
           // Enhanced error logging for 400 errors
           console.error(`❌ Smartsheet row insertion failed:`, {
@@ -405,7 +576,7 @@ export class SmartsheetAPIService {
           // Log individual row errors
           for (let j = 0; j < batch.length; j++) {
             allErrors.push({
-              row: i + j,
+              row: batchStart + j,
               error: error.message || 'Failed to insert row'
             });
           }
@@ -423,6 +594,99 @@ export class SmartsheetAPIService {
     }
   }
 
+  public async updateRows(
+    encryptedTokens: EncryptedTokens,
+    sheetId: number,
+    rows: Array<{
+      id: number;
+      cells: SmartsheetCellValue[];
+    }>
+  ): Promise<{ success: number; failed: number; errors: Array<{ row: number; error: string }>; result?: any[] }> {
+    const batchSize = 100; // Smartsheet API limit
+    let totalSuccess = 0;
+    let totalFailed = 0;
+    const allErrors: Array<{ row: number; error: string }> = [];
+    let allUpdatedRows: any[] = [];
+
+    for (let i = 0; i < rows.length; i += batchSize) {
+      const batch = rows.slice(i, i + batchSize);
+
+      try {
+        const response = await smartsheetAuthService.makeAuthenticatedRequest(
+          encryptedTokens,
+          'PUT',
+          `/sheets/${sheetId}/rows`,
+          batch.map(row => ({
+            id: row.id,
+            cells: row.cells
+          }))
+        );
+
+        const result = response.result || response;
+        if (Array.isArray(result)) {
+          totalSuccess += result.length;
+          allUpdatedRows = allUpdatedRows.concat(result);
+        } else {
+          totalSuccess += batch.length;
+        }
+      } catch (error: any) {
+        totalFailed += batch.length;
+
+        console.error(`❌ Smartsheet row update failed:`, {
+          status: error.response?.status,
+          statusText: error.response?.statusText,
+          errorResponse: error.response?.data
+        });
+
+        for (let j = 0; j < batch.length; j++) {
+          allErrors.push({
+            row: i + j,
+            error: error.message || 'Failed to update row'
+          });
+        }
+      }
+    }
+
+    return {
+      success: totalSuccess,
+      failed: totalFailed,
+      errors: allErrors,
+      result: allUpdatedRows
+    };
+  }
+
+  public async deleteRows(
+    encryptedTokens: EncryptedTokens,
+    sheetId: number,
+    rowIds: number[]
+  ): Promise<{ deleted: number[]; failed: number[] }> {
+    const batchSize = 100; // Keep the ids query string well under URL length limits
+    const deleted: number[] = [];
+    const failed: number[] = [];
+
+    for (let i = 0; i < rowIds.length; i += batchSize) {
+      const batch = rowIds.slice(i, i + batchSize);
+
+      try {
+        // Rows the user already removed by hand are not an error
+        await smartsheetAuthService.makeAuthenticatedRequest(
+          encryptedTokens,
+          'DELETE',
+          `/sheets/${sheetId}/rows?ids=${batch.join(',')}&ignoreRowsNotFound=true`
+        );
+        deleted.push(...batch);
+      } catch (error: any) {
+        console.error(`❌ Smartsheet row deletion failed:`, {
+          status: error.response?.status,
+          errorResponse: error.response?.data
+        });
+        failed.push(...batch);
+      }
+    }
+
+    return { deleted, failed };
+  }
+
   public async addRowWithRetry(
     encryptedTokens: EncryptedTokens,
     sheetId: number,
@@ -469,26 +733,20 @@ export class SmartsheetAPIService {
     mimeType: string
   ): Promise<string> {
     try {
-      const tokens = encryptionService.decryptTokens(encryptedTokens.encryptedData);
-      
       const formData = new FormData();
       formData.append('file', imageBuffer, {
         filename,
         contentType: mimeType
       });
 
-      const response = await axios.post(
-        `${this.baseUrl}/sheets/${sheetId}/attachments`,
-        formData,
-        {
-          headers: {
-            ...formData.getHeaders(),
-            'Authorization': `Bearer ${tokens.accessToken}`
-          },
-          maxContentLength: 10 * 1024 * 1024,
-          timeout: 60000
-        }
-      );
+      const response = await smartsheetHttpClient.request(encryptedTokens, {
+        method: 'POST',
+        url: `${this.baseUrl}/sheets/${sheetId}/attachments`,
+        data: formData.getBuffer(),
+        headers: formData.getHeaders(),
+        maxContentLength: 10 * 1024 * 1024,
+        timeout: 60000
+      });
 
       return response.data.id;
     } catch (error: any) {
@@ -496,6 +754,61 @@ export class SmartsheetAPIService {
     }
   }
 
+  public async attachFileToRow(
+    encryptedTokens: EncryptedTokens,
+    sheetId: number,
+    rowId: number,
+    fileBuffer: Buffer,
+    filename: string,
+    mimeType: string
+  ): Promise<number> {
+    try {
+      const formData = new FormData();
+      formData.append('file', fileBuffer, {
+        filename,
+        contentType: mimeType
+      });
+
+      const response = await smartsheetHttpClient.request(encryptedTokens, {
+        method: 'POST',
+        url: `${this.baseUrl}/sheets/${sheetId}/rows/${rowId}/attachments`,
+        data: formData.getBuffer(),
+        headers: formData.getHeaders(),
+        maxBodyLength: Infinity,
+        timeout: 120000
+      });
+
+      return response.data.result.id;
+    } catch (error: any) {
+      if (error.response?.status === 413) {
+        throw new Error('File too large to attach');
+      }
+      throw new Error(`Failed to attach file to row: ${error.message}`);
+    }
+  }
+
+  // Attaches a link to the file in Google Drive rather than a copy of it
+  public async attachDriveLinkToRow(
+    encryptedTokens: EncryptedTokens,
+    sheetId: number,
+    rowId: number,
+    name: string,
+    url: string
+  ): Promise<number> {
+    try {
+      const response = await smartsheetAuthService.makeAuthenticatedRequest(
+        encryptedTokens,
+        'POST',
+        `/sheets/${sheetId}/rows/${rowId}/attachments`,
+        { name, url, attachmentType: 'GOOGLE_DRIVE' }
+      );
+
+      return response.result.id;
+    } catch (error: any) {
+      throw new Error(`Failed to attach Drive link to row: ${error.message}`);
+    }
+  }
+
   public async validateSheetAccess(
     encryptedTokens: EncryptedTokens,
     sheetId: number
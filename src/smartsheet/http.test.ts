@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import { EncryptedTokens } from '../types';
+import { SmartsheetHttpClient, ThrottleMeter } from './http';
+
+jest.mock('axios');
+jest.mock('../utils/encryption', () => ({
+  encryptionService: {
+    decryptTokens: (encryptedData: string): { accessToken: string } => ({ accessToken: encryptedData }),
+    generateSecureHash: (value: string): string => value
+  }
+}));
+
+const request = axios.request as jest.MockedFunction<typeof axios.request>;
+
+const tokens = (accessToken = 'token-a'): EncryptedTokens => ({ accessToken: '', encryptedData: accessToken });
+
+const apiError = (status: number, extra: { headers?: Record<string, string>; errorCode?: number } = {}): Error =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers: extra.headers || {}, data: { errorCode: extra.errorCode } }
+  });
+
+describe('SmartsheetHttpClient', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    request.mockReset();
+    request.mockResolvedValue({ data: 'ok' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('waits as long as Retry-After asks before retrying', async () => {
+    const client = new SmartsheetHttpClient();
+    const meter = new ThrottleMeter();
+    request.mockRejectedValueOnce(apiError(429, { headers: { 'retry-after': '2' } }));
+
+    const response = client.measure(meter, () => client.request(tokens(), { method: 'GET', url: '/sheets' }));
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    await expect(response).resolves.toEqual({ data: 'ok' });
+    expect(meter.take()).toBe(2000);
+  });
+
+  it('retries the 4003 rate limit error code but not other client errors', async () => {
+    const client = new SmartsheetHttpClient();
+    request.mockRejectedValueOnce(apiError(400, { errorCode: 4003 }));
+
+    const limited = client.request(tokens(), { method: 'GET', url: '/sheets' });
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    await expect(limited).resolves.toEqual({ data: 'ok' });
+    expect(request).toHaveBeenCalledTimes(2);
+
+    request.mockRejectedValueOnce(apiError(400, { errorCode: 1006 }));
+    await expect(client.request(tokens(), { method: 'GET', url: '/sheets/1' })).rejects.toThrow('status code 400');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('holds requests past 300 a minute on one token until the oldest leaves the window', async () => {
+    const client = new SmartsheetHttpClient();
+    const meter = new ThrottleMeter();
+
+    const responses = client.measure(meter, () => Promise.all(
+      Array.from({ length: 301 }, () => client.request(tokens(), { method: 'GET', url: '/sheets' }))
+    ));
+    // Another token has its own budget
+    await client.request(tokens('token-b'), { method: 'GET', url: '/sheets' });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(301);
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(request).toHaveBeenCalledTimes(302);
+    await expect(responses).resolves.toHaveLength(301);
+    expect(meter.take()).toBe(60 * 1000);
+  });
+
+  it('reports waits only to the meter of the work that waited', async () => {
+    const client = new SmartsheetHttpClient();
+    const waiting = new ThrottleMeter();
+    const other = new ThrottleMeter();
+    request.mockRejectedValueOnce(apiError(503, { headers: { 'retry-after': '1' } }));
+
+    const response = client.measure(waiting, () => client.request(tokens(), { method: 'GET', url: '/sheets' }));
+    await client.measure(other, () => client.request(tokens('token-b'), { method: 'GET', url: '/sheets' }));
+    await jest.advanceTimersByTimeAsync(1000);
+    await response;
+
+    expect(waiting.take()).toBe(1000);
+    expect(waiting.take()).toBe(0);
+    expect(other.take()).toBe(0);
+  });
+});
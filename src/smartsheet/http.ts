@@ -0,0 +1,128 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import config from '../config';
+import { encryptionService } from '../utils/encryption';
+import { EncryptedTokens } from '../types';
+
+const BUDGET_WINDOW_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+const RATE_LIMIT_ERROR_CODE = 4003;
+
+interface TokenBudget {
+  requestTimes: number[]; // Start times of requests in the last minute
+  blockedUntil: number; // Set by a 429 so every request on the token waits, not just the one that hit it
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Adds up the time one caller's requests spent waiting on the rate limit. Jobs sharing an access token share its
+// budget, so each job keeps its own meter to report only its own waits.
+export class ThrottleMeter {
+  private waitedMs = 0;
+
+  public add(ms: number): void {
+    this.waitedMs += ms;
+  }
+
+  // Milliseconds waited since the last call
+  public take(): number {
+    const waitedMs = this.waitedMs;
+    this.waitedMs = 0;
+    return waitedMs;
+  }
+}
+
+// Every Smartsheet API call goes through here so one access token never goes over its request budget,
+// and rate-limit or unavailable responses are retried instead of failing the caller
+export class SmartsheetHttpClient {
+  private readonly budgets = new Map<string, TokenBudget>();
+  private readonly meters = new AsyncLocalStorage<ThrottleMeter>();
+
+  // Runs work whose requests, however deep in the call stack, add their waits to the meter
+  public measure<T>(meter: ThrottleMeter, run: () => Promise<T>): Promise<T> {
+    return this.meters.run(meter, run);
+  }
+
+  public async request<T = any>(
+    encryptedTokens: EncryptedTokens,
+    requestConfig: AxiosRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    const tokens = encryptionService.decryptTokens(encryptedTokens.encryptedData);
+    const budget = this.getBudget(tokens.accessToken);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget(budget);
+
+      try {
+        return await axios.request<T>({
+          ...requestConfig,
+          headers: {
+            ...requestConfig.headers,
+            Authorization: `Bearer ${tokens.accessToken}`
+          }
+        });
+      } catch (error: any) {
+        if (!this.isRetryable(error) || attempt >= config.smartsheet.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.retryDelay(error, attempt);
+        budget.blockedUntil = Math.max(budget.blockedUntil, Date.now() + delay);
+        console.warn(`⏳ Smartsheet ${error.response?.status} on ${requestConfig.method?.toUpperCase()} ${requestConfig.url}, retrying in ${delay}ms (attempt ${attempt + 1}/${config.smartsheet.maxRetries})`);
+      }
+    }
+  }
+
+  private getBudget(accessToken: string): TokenBudget {
+    // Keyed by a hash so access tokens aren't kept as map keys
+    const key = encryptionService.generateSecureHash(accessToken);
+    let budget = this.budgets.get(key);
+    if (!budget) {
+      budget = { requestTimes: [], blockedUntil: 0 };
+      this.budgets.set(key, budget);
+    }
+    return budget;
+  }
+
+  private async waitForBudget(budget: TokenBudget): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      budget.requestTimes = budget.requestTimes.filter(time => time > now - BUDGET_WINDOW_MS);
+
+      let waitMs = budget.blockedUntil - now;
+      if (budget.requestTimes.length >= config.smartsheet.requestsPerMinute) {
+        waitMs = Math.max(waitMs, budget.requestTimes[0] + BUDGET_WINDOW_MS - now);
+      }
+
+      if (waitMs <= 0) {
+        budget.requestTimes.push(now);
+        return;
+      }
+
+      this.meters.getStore()?.add(waitMs);
+      await sleep(waitMs);
+    }
+  }
+
+  private isRetryable(error: any): boolean {
+    const status = error.response?.status;
+    return status === 429 || status === 503 || error.response?.data?.errorCode === RATE_LIMIT_ERROR_CODE;
+  }
+
+  // Retry-After when Smartsheet sends one, otherwise exponential backoff with full jitter
+  private retryDelay(error: any, attempt: number): number {
+    const retryAfter = error.response?.headers?.['retry-after'];
+    if (retryAfter !== undefined) {
+      const seconds = Number(retryAfter);
+      const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+      if (!isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), MAX_BACKOFF_MS);
+      }
+    }
+
+    const ceiling = Math.min(config.smartsheet.retryBaseDelayMs * 2 ** attempt, MAX_BACKOFF_MS);
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+export const smartsheetHttpClient = new SmartsheetHttpClient();
@@ -35,6 +35,17 @@ export interface SmartsheetSheet {
   name: string;
   columns: SmartsheetColumn[];
   permalink: string;
+  totalRowCount?: number;
+}
+
+export interface SmartsheetRow {
+  id: number;
+  rowNumber: number;
+  cells: Array<{
+    columnId: number;
+    value?: any;
+    displayValue?: string;
+  }>;
 }
 
 export interface SmartsheetColumn {
@@ -43,13 +54,62 @@ export interface SmartsheetColumn {
   type: string;
   primary?: boolean;
   index: number;
+  formula?: string; // Column formula, if the column has one
+}
+
+export type ColumnDataType =
+  'text' | 'number' | 'date' | 'boolean' | 'picklist' | 'multi_picklist' | 'contact' | 'image' | 'hyperlink' | 'attachment';
+
+// 'row_groups' reads the sheet's row grouping; 'column' parses WBS numbers (1, 1.1, 1.1.2) or leading indentation
+export type HierarchySource = 'row_groups' | 'column';
+
+export type MergedCellStrategy = 'fill' | 'first' | 'concatenate';
+
+// Where pictures placed over the grid go: into a mapped image column of their row, or attached to the row
+export type FloatingImageMode = 'image_column' | 'attachment';
+
+// How a transfer of several tabs is laid out: every tab's rows in one sheet, or one sheet per tab
+export type MultiTabMode = 'merge' | 'fan_out';
+
+export type SmartsheetColumnType = 'TEXT_NUMBER' | 'DATE' | 'CHECKBOX' | 'PICKLIST' | 'MULTI_PICKLIST' | 'CONTACT_LIST';
+
+export interface ColumnTypeSuggestion {
+  columnIndex: number;
+  header: string;
+  type: SmartsheetColumnType;
+  dataType: ColumnDataType;
+  options?: string[]; // PICKLIST and MULTI_PICKLIST only
+  validation?: boolean; // Restrict the column to its options, as the Google rule did
+  fromDataValidation?: boolean; // Options came from a Google data-validation rule rather than the values
+  sampleSize: number; // Non-empty values the suggestion is based on
 }
 
 export interface ColumnMapping {
   googleColumn: string;
   smartsheetColumnId: number;
-  dataType: 'text' | 'number' | 'date' | 'image' | 'hyperlink';
+  dataType: ColumnDataType;
   googleColumnIndex?: number;
+  smartsheetColumnTitle?: string; // Used to re-match the column when its ID is stale
+  skip?: boolean; // Leave this source column out of the transfer
+  columnFormula?: string; // Set during a transfer when the whole column is written as a column formula
+  attachAsDriveLink?: boolean; // 'attachment' only: attach a link to the Drive file instead of a copy
+}
+
+// Per-tab settings for a multi-tab transfer. A tab without a header row has it detected; a merged tab without
+// mappings is aligned to the job's mappings by header, and a fanned-out tab without a sheet gets a new one.
+export interface TabTransferSettings {
+  tabName: string;
+  headerRowIndex?: number;
+  columnMappings?: ColumnMapping[];
+  smartsheetId?: number; // 'fan_out' only
+}
+
+export interface UnresolvedColumnMapping {
+  googleColumn: string;
+  googleColumnIndex: number;
+  smartsheetColumnId?: number;
+  smartsheetColumnTitle?: string;
+  reason: 'column_not_found' | 'duplicate_target';
 }
 
 export interface TransferJob {
@@ -59,11 +119,31 @@ export interface TransferJob {
   googleSheetTabs: string[];
   smartsheetId: number;
   columnMappings: ColumnMapping[];
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: TransferProgress;
   dryRun: boolean;
   headerRowIndex?: number;
   selectedColumns?: number[];
+  priority?: number;
+  queuePosition?: number; // Computed for queued jobs, not stored
+  syncMode?: boolean;
+  lineageId?: string; // Shared by every sync run that targets the same sheet
+  deleteRemovedRows?: boolean;
+  upsertKeyColumnIndex?: number; // Google column index of the mapped key column
+  scheduleId?: string; // Set when the job was spawned by a schedule
+  migrationId?: string; // Set when the job moves one tab of a Drive folder migration
+  preserveFormatting?: boolean; // Copy bold, colors and alignment onto the Smartsheet cells (on unless turned off)
+  includeComments?: boolean; // Copy cell notes and Drive comments onto inserted rows as discussions
+  hierarchySource?: HierarchySource; // Where parent/child structure comes from; flat when unset
+  hierarchyColumnIndex?: number; // Google column index holding WBS numbers or indented text ('column' source only)
+  mergedCellStrategy?: MergedCellStrategy; // How cells covered by a merge are filled ('first' unless set)
+  floatingImageMode?: FloatingImageMode; // Transfer pictures placed over cells; left out when unset
+  floatingImageColumnIndex?: number; // Google column index of the mapped column that receives them ('image_column' only)
+  multiTabMode?: MultiTabMode; // Set when each tab has its own header row and mappings
+  tabSettings?: TabTransferSettings[]; // Multi-tab only; the first tab falls back to the job's own settings
+  includeSourceTabColumn?: boolean; // 'merge' only: record each row's tab in a "Source Tab" column
+  targetWorkspaceId?: number; // 'fan_out' only: where sheets for the other tabs are created
+  targetFolderId?: number;
   createdAt: Date;
   completedAt?: Date;
   // Enhanced job metadata
@@ -72,6 +152,78 @@ export interface TransferJob {
   logs?: TransferLog[];
 }
 
+export interface TransferSchedule {
+  id: string;
+  userId: string;
+  name: string;
+  cronExpression: string;
+  googleSpreadsheetId: string;
+  googleSheetTabs: string[];
+  smartsheetId: number;
+  columnMappings: ColumnMapping[];
+  headerRowIndex?: number;
+  selectedColumns?: number[];
+  syncMode: boolean;
+  deleteRemovedRows: boolean;
+  upsertKeyColumnIndex?: number;
+  // Passed to every job the schedule starts, with the same meaning as on TransferJob
+  preserveFormatting?: boolean;
+  includeComments?: boolean;
+  hierarchySource?: HierarchySource;
+  hierarchyColumnIndex?: number;
+  mergedCellStrategy?: MergedCellStrategy;
+  floatingImageMode?: FloatingImageMode;
+  floatingImageColumnIndex?: number;
+  multiTabMode?: MultiTabMode;
+  tabSettings?: TabTransferSettings[];
+  includeSourceTabColumn?: boolean;
+  targetWorkspaceId?: number;
+  targetFolderId?: number;
+  status: 'active' | 'paused';
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastJobId?: string;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A whole Drive folder moved into a Smartsheet workspace: the folder tree is mirrored as Smartsheet folders and
+// each spreadsheet tab gets its own sheet and transfer job
+export interface FolderMigration {
+  id: string;
+  userId: string;
+  driveFolderId: string;
+  driveFolderName: string;
+  workspaceId: number;
+  // 'preparing' while folders, sheets and jobs are created; 'running' until every job has finished
+  status: 'preparing' | 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'cancelled';
+  foldersCreated: number;
+  spreadsheetsFound: number;
+  failures: FolderMigrationFailure[]; // Stored setup failures; failed jobs are added when progress is read
+  progress?: FolderMigrationProgress; // Aggregated from the migration's jobs when read, not stored
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface FolderMigrationFailure {
+  path: string; // The folder, spreadsheet or tab, e.g. "Projects/2023/Budget > Q1"
+  message: string;
+  jobId?: string;
+}
+
+export interface FolderMigrationProgress {
+  totalJobs: number;
+  waitingJobs: number;
+  runningJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  cancelledJobs: number;
+  totalRows: number;
+  processedRows: number;
+}
+
 export interface TransferProgress {
   totalRows: number;
   processedRows: number;
@@ -82,10 +234,35 @@ export interface TransferProgress {
   failedImages?: number;
   currentBatch?: number;
   totalBatches?: number;
+  syncSummary?: SyncSummary;
+  upsertSummary?: UpsertSummary;
+  conflicts?: UpsertConflict[];
   errors: TransferError[];
   warnings: TransferWarning[];
 }
 
+export interface SyncSummary {
+  insertedRows: number;
+  updatedRows: number;
+  unchangedRows: number;
+  deletedRows: number;
+}
+
+export interface UpsertSummary {
+  insertedRows: number;
+  updatedRows: number;
+  skippedRows: number;
+}
+
+export interface UpsertConflict {
+  type: 'duplicate_source_key' | 'duplicate_target_key' | 'missing_key';
+  key: string;
+  tabName?: string;
+  row?: number; // 1-based data row within the source tab
+  smartsheetRowIds?: number[];
+  message: string;
+}
+
 export interface SourceInfo {
   spreadsheetTitle: string;
   tabNames: string[];
@@ -110,24 +287,72 @@ export interface TransferLog {
 }
 
 export interface TransferWarning {
-  type: 'image_fallback' | 'data_truncation' | 'type_conversion';
+  type: 'image_fallback' | 'data_truncation' | 'type_conversion' | 'comment_skipped' | 'hierarchy_flattened' | 'attachment_skipped' | 'floating_image_skipped' | 'row_changed';
   message: string;
   count?: number;
 }
 
 export interface TransferError {
-  type: 'image_access_denied' | 'image_upload_failed' | 'row_insert_failed' | 'general_error';
+  type: 'image_access_denied' | 'image_upload_failed' | 'row_insert_failed' | 'row_update_failed' | 'row_delete_failed' | 'column_unresolved' | 'general_error';
   message: string;
   row?: number;
   column?: string;
   details?: any;
 }
 
+export interface TransferCheckpoint {
+  jobId: string;
+  tabName: string;
+  batchIndex: number; // Next batch to process within tabName
+  insertedRows: number; // Rows the job has inserted so far
+  pendingImages: PendingImage[];
+  hierarchy?: CheckpointHierarchy; // Set when the job builds a row hierarchy
+  updatedAt: Date;
+}
+
+// Where a resumed job's row hierarchy carries on from: the ancestors of the last row of tabName handed to Smartsheet
+export interface CheckpointHierarchy {
+  indentUnit?: number;
+  ancestors: Array<{ depth: number; smartsheetRowId?: number }>; // Outermost first; no row ID when it failed to write
+}
+
+export interface PendingImage {
+  rowId: number;
+  columnId: number;
+  imageUrl: string;
+  imageId?: string;
+}
+
+export interface SyncFingerprint {
+  lineageId: string;
+  tabName: string;
+  rowIndex: number; // Position of the data row within its tab at the last sync
+  fingerprint: string;
+  smartsheetRowId: number;
+  updatedAt: Date;
+}
+
+export interface QueueEntry {
+  id: number;
+  jobId: string;
+  userId: string;
+  priority: number;
+  state: 'waiting' | 'active';
+  enqueuedAt: Date;
+  startedAt?: Date;
+}
+
 export interface ImageCache {
-  hash: string;
-  smartsheetImageId: string;
+  hash: string; // SHA-256 of the image bytes
+  smartsheetImageId: string; // Empty when only the bytes are stored
   url: string;
+  driveFileId?: string;
+  driveModifiedTime?: string; // The Drive file's modifiedTime when the bytes were downloaded
+  size: number; // Bytes kept in the local image store, 0 if none
+  mimeType?: string;
+  filename?: string;
   createdAt: Date;
+  lastUsedAt?: Date;
 }
 
 export interface OAuthState {
@@ -145,14 +370,129 @@ export interface GoogleCellValue {
   isImage: boolean;
   imageUrl?: string;
   imageId?: string;
+  driveFile?: GoogleDriveFile; // The Drive file the cell links to, images included
+  floatingImages?: GoogleFloatingImage[]; // Pictures over the grid anchored at this cell, attached during a transfer
+  chips?: GoogleCellChip[]; // Smart chips in the cell's text, in order
+  validation?: GoogleDataValidation;
+  format?: GoogleCellFormat;
+  typedValue?: number | boolean; // Unformatted number or boolean, when the cell holds one
+  dateValue?: string; // YYYY-MM-DD (or with THH:mm:ss for date-times) from a serial date or a date typed as text
+  note?: string;
+  comments?: GoogleCellComment[]; // Drive comment threads anchored to this cell, attached during a transfer
+  smartsheetFormula?: string; // Set during a transfer when the formula translates to Smartsheet syntax
+  smartsheetFormat?: string; // Set during a transfer from format, as a Smartsheet format descriptor
+}
+
+// A Drive file linked from a cell, classified by its MIME type
+export interface GoogleDriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: number; // Bytes; unset for Docs, Sheets and other files Drive stores in its own formats
+  webViewLink?: string;
+}
+
+// A smart chip. Types the API doesn't describe are 'unknown' and are copied as their display text.
+export interface GoogleCellChip {
+  type: 'person' | 'file' | 'unknown';
+  text: string; // What the chip shows in the cell
+  email?: string; // 'person' only
+  uri?: string; // 'file' only: the linked file, usually in Drive
+  mimeType?: string; // 'file' only
+}
+
+export interface GoogleFloatingImage {
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+// Spreadsheet-level properties that decide how dates and numbers typed as text are read
+export interface GoogleSpreadsheetSettings {
+  locale?: string; // e.g. en_US, de_DE
+  timeZone?: string; // IANA name, e.g. Europe/Berlin
+}
+
+export interface SheetReadOptions {
+  includeFormulas?: boolean;
+  includeFormatting?: boolean;
+  mergedCells?: MergedCellStrategy;
+  windowRows?: number; // Rows fetched per request (config default when unset)
+}
+
+// Consecutive rows read from one tab
+export interface SheetRowWindow {
+  startRowIndex: number; // 0-based sheet row of rows[0]
+  rows: GoogleCellValue[][];
+}
+
+export interface GoogleCommentReply {
+  author: string;
+  content: string;
+  createdTime?: string;
+}
+
+export interface GoogleCellComment extends GoogleCommentReply {
+  resolved: boolean;
+  replies: GoogleCommentReply[];
+}
+
+// A Drive comment on a spreadsheet, before it is matched to a cell
+export interface GoogleDriveComment extends GoogleCellComment {
+  id: string;
+  anchor?: string; // Opaque JSON from Drive; for Sheets it names the tab (uid) and sometimes an A1 range
+  quotedValue?: string; // Cell content at the time the comment was made
+}
+
+// A row discussion to create in Smartsheet: the first text opens it, the rest are added as replies
+export interface SmartsheetRowDiscussion {
+  comments: string[];
+}
+
+// Lookup tables from Smartsheet's /serverinfo; format descriptors hold indexes into these
+export interface SmartsheetFormatTables {
+  fontFamily: Array<{ name: string }>;
+  fontSize: string[];
+  horizontalAlign: string[];
+  verticalAlign: string[];
+  color: string[];
+}
+
+export interface GoogleCellFormat {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  fontFamily?: string;
+  fontSize?: number;
+  textColor?: string; // #RRGGBB
+  backgroundColor?: string; // #RRGGBB
+  horizontalAlignment?: 'LEFT' | 'CENTER' | 'RIGHT';
+  verticalAlignment?: 'TOP' | 'MIDDLE' | 'BOTTOM';
+}
+
+export interface GoogleDataValidation {
+  type: 'ONE_OF_LIST' | 'ONE_OF_RANGE';
+  values: string[]; // Allowed values, with ranges already resolved
+  strict: boolean; // Google rejects input outside the list
+  sourceRange?: string; // ONE_OF_RANGE only, e.g. Lists!A2:A10
 }
 
 export interface SmartsheetCellValue {
   columnId: number;
   value?: any;
+  formula?: string;
+  format?: string;
   objectValue?: {
     objectType: 'IMAGE';
     imageId: string;
+  } | {
+    objectType: 'MULTI_PICKLIST';
+    values: string[];
+  } | {
+    objectType: 'CONTACT';
+    email: string;
+    name?: string;
   };
   hyperlink?: {
     url: string;
@@ -0,0 +1,24 @@
+export class TransferCancelledError extends Error {
+  constructor(message: string = 'Transfer cancelled by user') {
+    super(message);
+    this.name = 'TransferCancelledError';
+  }
+}
+
+export class CancellationToken {
+  private cancelled = false;
+
+  public cancel(): void {
+    this.cancelled = true;
+  }
+
+  public get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  public throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new TransferCancelledError();
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { ColumnMapping, GoogleCellComment, GoogleCellValue, GoogleDriveComment, SmartsheetRowDiscussion } from '../types';
+import { columnLettersToIndex } from './formulas';
+
+// Longer comments are cut so Smartsheet doesn't reject the whole discussion
+const MAX_COMMENT_LENGTH = 4000;
+
+interface CommentAnchor {
+  sheetId?: number;
+  column?: number;
+  row?: number; // 1-based sheet row
+}
+
+// Drive anchors for Sheets look like {"type":"workbook-range","uid":0,"range":"..."}. The uid is the tab's sheetId;
+// the range is only usable when it's an A1 reference, otherwise it's an internal ID.
+function parseAnchor(anchor?: string): CommentAnchor {
+  if (!anchor) return {};
+
+  try {
+    const parsed = JSON.parse(anchor);
+    const result: CommentAnchor = {};
+    if (parsed.uid !== undefined && !isNaN(Number(parsed.uid))) {
+      result.sheetId = Number(parsed.uid);
+    }
+
+    const range = typeof parsed.range === 'string' ? parsed.range.match(/^(?:.*!)?\$?([A-Z]{1,3})\$?(\d+)/i) : null;
+    if (range) {
+      result.column = columnLettersToIndex(range[1]);
+      result.row = parseInt(range[2], 10);
+    }
+    return result;
+  } catch {
+    return {};
+  }
+}
+
+// Finds the one data cell holding the quoted text; ambiguous quotes are left unplaced
+function findQuotedCell(tabs: GoogleCellValue[][][], quotedValue: string): GoogleCellValue | undefined {
+  let match: GoogleCellValue | undefined;
+  for (const tabData of tabs) {
+    for (const row of tabData.slice(1)) {
+      for (const cell of row) {
+        if (cell && String(cell.value ?? '').trim() === quotedValue.trim()) {
+          if (match) return undefined;
+          match = cell;
+        }
+      }
+    }
+  }
+  return match;
+}
+
+// Attaches each Drive comment thread to the cell it is anchored to. tabSheetIds lists the tabs being transferred,
+// which may be more than googleData holds when a tab is read in windows. Returns the IDs of the comments that were
+// attached or belong to tabs outside the transfer; the rest couldn't be placed in this data.
+export function attachDriveComments(
+  googleData: { [tabName: string]: GoogleCellValue[][] },
+  tabSheetIds: Map<string, number>,
+  comments: GoogleDriveComment[],
+  headerRowIndex: number
+): Set<string> {
+  const tabsBySheetId = new Map<number, GoogleCellValue[][]>();
+  for (const [tabName, tabData] of Object.entries(googleData)) {
+    const sheetId = tabSheetIds.get(tabName);
+    if (sheetId !== undefined) {
+      tabsBySheetId.set(sheetId, tabData);
+    }
+  }
+
+  const transferredSheetIds = new Set(tabSheetIds.values());
+  const handled = new Set<string>();
+
+  for (const comment of comments) {
+    const anchor = parseAnchor(comment.anchor);
+    if (anchor.sheetId !== undefined && tabSheetIds.size > 0) {
+      if (!transferredSheetIds.has(anchor.sheetId)) {
+        handled.add(comment.id);
+        continue;
+      }
+      if (!tabsBySheetId.has(anchor.sheetId)) continue; // Another part of the transfer holds this tab
+    }
+
+    const candidateTabs = anchor.sheetId !== undefined && tabsBySheetId.has(anchor.sheetId)
+      ? [tabsBySheetId.get(anchor.sheetId)!]
+      : Object.values(googleData);
+
+    let cell: GoogleCellValue | undefined;
+    if (anchor.row !== undefined && anchor.column !== undefined && candidateTabs.length === 1) {
+      // Tab data starts at the header row, which has no Smartsheet row of its own
+      const dataIndex = anchor.row - 1 - headerRowIndex;
+      cell = dataIndex >= 1 ? candidateTabs[0][dataIndex]?.[anchor.column] : undefined;
+    } else if (comment.quotedValue) {
+      cell = findQuotedCell(candidateTabs, comment.quotedValue);
+    }
+
+    if (!cell) {
+      continue;
+    }
+
+    const thread: GoogleCellComment = {
+      author: comment.author,
+      content: comment.content,
+      createdTime: comment.createdTime,
+      resolved: comment.resolved,
+      replies: comment.replies
+    };
+    cell.comments = [...(cell.comments || []), thread];
+    handled.add(comment.id);
+  }
+
+  return handled;
+}
+
+function formatTimestamp(timestamp?: string): string {
+  const date = timestamp ? new Date(timestamp) : null;
+  if (!date || isNaN(date.getTime())) {
+    return 'an unknown date';
+  }
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function truncateComment(text: string): string {
+  return text.length > MAX_COMMENT_LENGTH ? `${text.slice(0, MAX_COMMENT_LENGTH - 1)}…` : text;
+}
+
+// One discussion per note and per comment thread on the row's mapped cells
+export function buildRowDiscussions(row: GoogleCellValue[], columnMappings: ColumnMapping[]): SmartsheetRowDiscussion[] {
+  const discussions: SmartsheetRowDiscussion[] = [];
+
+  for (const mapping of columnMappings) {
+    const cell = row[mapping.googleColumnIndex!];
+    if (!cell) continue;
+    const column = mapping.smartsheetColumnTitle || mapping.googleColumn;
+
+    // The Sheets API doesn't expose who wrote a note or when
+    if (cell.note?.trim()) {
+      discussions.push({ comments: [truncateComment(`Google Sheets note on "${column}":\n${cell.note.trim()}`)] });
+    }
+
+    for (const thread of cell.comments || []) {
+      const status = thread.resolved ? ' (resolved)' : '';
+      discussions.push({
+        comments: [
+          `${thread.author} commented on "${column}" on ${formatTimestamp(thread.createdTime)}${status}:\n${thread.content}`,
+          ...thread.replies.map(reply => `${reply.author} replied on ${formatTimestamp(reply.createdTime)}:\n${reply.content}`)
+        ].map(truncateComment)
+      });
+    }
+  }
+
+  return discussions;
+}
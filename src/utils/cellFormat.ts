@@ -0,0 +1,99 @@
+import { GoogleCellFormat, SmartsheetFormatTables } from '../types';
+
+// Positions in a Smartsheet format descriptor, e.g. ",,1,,,,,,,22,,,,,,," is bold with background color 22
+const FORMAT_FIELD_COUNT = 17;
+const FONT_FAMILY = 0;
+const FONT_SIZE = 1;
+const BOLD = 2;
+const ITALIC = 3;
+const UNDERLINE = 4;
+const STRIKETHROUGH = 5;
+const HORIZONTAL_ALIGN = 6;
+const VERTICAL_ALIGN = 7;
+const TEXT_COLOR = 8;
+const BACKGROUND_COLOR = 9;
+
+// Google's defaults look the same as Smartsheet's, so they are left out to keep descriptors short
+const DEFAULT_FONT_FAMILY = 'arial';
+const DEFAULT_FONT_SIZE = 10;
+const DEFAULT_TEXT_COLOR = '#000000';
+const DEFAULT_BACKGROUND_COLOR = '#FFFFFF';
+
+function hexToRgb(hex: string): [number, number, number] | null {
+  const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : null;
+}
+
+// Smartsheet only accepts colors from its palette, so pick the closest one
+function nearestColorIndex(hex: string, palette: string[]): number | undefined {
+  const target = hexToRgb(hex);
+  if (!target) return undefined;
+
+  let bestIndex: number | undefined;
+  let bestDistance = Infinity;
+  palette.forEach((color, index) => {
+    const rgb = hexToRgb(color);
+    if (!rgb) return; // Index 0 is "none"
+    const distance = (rgb[0] - target[0]) ** 2 + (rgb[1] - target[1]) ** 2 + (rgb[2] - target[2]) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
+
+function nearestFontSizeIndex(size: number, sizes: string[]): number | undefined {
+  let bestIndex: number | undefined;
+  let bestDistance = Infinity;
+  sizes.forEach((candidate, index) => {
+    const distance = Math.abs(parseFloat(candidate) - size);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
+
+function indexOfName(values: string[], name: string): number | undefined {
+  const index = values.findIndex(value => value.toLowerCase() === name.toLowerCase());
+  return index === -1 ? undefined : index;
+}
+
+// Returns undefined when nothing differs from the defaults
+export function buildSmartsheetFormat(format: GoogleCellFormat, tables: SmartsheetFormatTables): string | undefined {
+  const fields: Array<number | undefined> = new Array(FORMAT_FIELD_COUNT).fill(undefined);
+
+  if (format.fontFamily && format.fontFamily.toLowerCase() !== DEFAULT_FONT_FAMILY) {
+    fields[FONT_FAMILY] = indexOfName(tables.fontFamily.map(font => font.name), format.fontFamily);
+  }
+  if (format.fontSize && format.fontSize !== DEFAULT_FONT_SIZE) {
+    fields[FONT_SIZE] = nearestFontSizeIndex(format.fontSize, tables.fontSize);
+  }
+
+  // The bold/italic/underline/strikethrough tables are all ["none", "on"]
+  if (format.bold) fields[BOLD] = 1;
+  if (format.italic) fields[ITALIC] = 1;
+  if (format.underline) fields[UNDERLINE] = 1;
+  if (format.strikethrough) fields[STRIKETHROUGH] = 1;
+
+  if (format.horizontalAlignment) {
+    fields[HORIZONTAL_ALIGN] = indexOfName(tables.horizontalAlign, format.horizontalAlignment);
+  }
+  if (format.verticalAlignment) {
+    fields[VERTICAL_ALIGN] = indexOfName(tables.verticalAlign, format.verticalAlignment);
+  }
+
+  if (format.textColor && format.textColor !== DEFAULT_TEXT_COLOR) {
+    fields[TEXT_COLOR] = nearestColorIndex(format.textColor, tables.color);
+  }
+  if (format.backgroundColor && format.backgroundColor !== DEFAULT_BACKGROUND_COLOR) {
+    fields[BACKGROUND_COLOR] = nearestColorIndex(format.backgroundColor, tables.color);
+  }
+
+  if (fields.every(field => field === undefined)) {
+    return undefined;
+  }
+  return fields.map(field => (field === undefined ? '' : String(field))).join(',');
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseLocaleDate, parseLocaleNumber, serialToIsoDate } from './cellValues';
+
+describe('serialToIsoDate', () => {
+  it('counts days from 1899-12-30', () => {
+    expect(serialToIsoDate(0)).toBe('1899-12-30');
+    expect(serialToIsoDate(60)).toBe('1900-02-28');
+    expect(serialToIsoDate(45000)).toBe('2023-03-15');
+  });
+
+  it('drops the time of day unless asked for it', () => {
+    expect(serialToIsoDate(45000.75)).toBe('2023-03-15');
+    expect(serialToIsoDate(45000.75, true)).toBe('2023-03-15T18:00:00');
+  });
+});
+
+describe('parseLocaleDate', () => {
+  it('reads short dates month first by default and for US locales', () => {
+    expect(parseLocaleDate('3/4/24')).toBe('2024-03-04');
+    expect(parseLocaleDate('3/4/2024', { locale: 'en_US' })).toBe('2024-03-04');
+  });
+
+  it('reads short dates day first for other locales', () => {
+    expect(parseLocaleDate('3/4/24', { locale: 'en_GB' })).toBe('2024-04-03');
+    expect(parseLocaleDate('31.12.2024', { locale: 'de_DE' })).toBe('2024-12-31');
+  });
+
+  it('puts two-digit years before 70 in the 2000s', () => {
+    expect(parseLocaleDate('12/31/69')).toBe('2069-12-31');
+    expect(parseLocaleDate('1/1/70')).toBe('1970-01-01');
+  });
+
+  it('reads ISO dates whatever the locale', () => {
+    expect(parseLocaleDate('2024-03-04', { locale: 'en_GB' })).toBe('2024-03-04');
+    expect(parseLocaleDate('2024/3/4 10:30')).toBe('2024-03-04');
+  });
+
+  it('reads written-out month names', () => {
+    expect(parseLocaleDate('March 4, 2024', { locale: 'de_DE' })).toBe('2024-03-04');
+  });
+
+  it("reads times with an offset in the spreadsheet's time zone", () => {
+    expect(parseLocaleDate('2024-03-04T23:30:00Z', { timeZone: 'America/New_York' })).toBe('2024-03-04');
+    expect(parseLocaleDate('2024-03-04T23:30:00Z', { timeZone: 'Asia/Tokyo' })).toBe('2024-03-05');
+    expect(parseLocaleDate('2024-03-04T23:30:00+09:00')).toBe('2024-03-04');
+  });
+
+  it('falls back to UTC for an unknown time zone', () => {
+    expect(parseLocaleDate('2024-03-04T23:30:00Z', { timeZone: 'Not/AZone' })).toBe('2024-03-04');
+  });
+
+  it('rejects dates that do not exist instead of rolling them over', () => {
+    expect(parseLocaleDate('2/30/2024')).toBeUndefined();
+    expect(parseLocaleDate('31/02/2024', { locale: 'en_GB' })).toBeUndefined();
+    expect(parseLocaleDate('2023-02-29')).toBeUndefined();
+  });
+
+  it.each(['', '   ', 'hello', '12', '1.5', 'Q3 report'])('does not read %p as a date', text => {
+    expect(parseLocaleDate(text)).toBeUndefined();
+  });
+});
+
+describe('parseLocaleNumber', () => {
+  it('reads thousands separators and decimals for the locale', () => {
+    expect(parseLocaleNumber('1,234.56')).toBe(1234.56);
+    expect(parseLocaleNumber('1,234,567', 'en_US')).toBe(1234567);
+    expect(parseLocaleNumber('1.234,56', 'de_DE')).toBe(1234.56);
+    expect(parseLocaleNumber('1,5', 'fr')).toBe(1.5);
+  });
+
+  it('keeps a decimal point for Spanish locales in the Americas', () => {
+    expect(parseLocaleNumber('1,234.5', 'es_MX')).toBe(1234.5);
+    expect(parseLocaleNumber('1.234,5', 'es_MX')).toBeUndefined();
+    expect(parseLocaleNumber('1.234,5', 'es_ES')).toBe(1234.5);
+  });
+
+  it('strips currency symbols and spaces', () => {
+    expect(parseLocaleNumber('$1,234')).toBe(1234);
+    expect(parseLocaleNumber('€ 1.000', 'fr_FR')).toBe(1000);
+    expect(parseLocaleNumber('1 234,5 €', 'fr_FR')).toBe(1234.5);
+  });
+
+  it('reads signs and accounting negatives', () => {
+    expect(parseLocaleNumber('-7')).toBe(-7);
+    expect(parseLocaleNumber('+7.5')).toBe(7.5);
+    expect(parseLocaleNumber('(42.50)')).toBe(-42.5);
+  });
+
+  it.each([
+    ['1,5', undefined],
+    ['12,34,567', undefined],
+    ['1.234.5', undefined],
+    ['abc', undefined],
+    ['12 apples', undefined],
+    ['', undefined]
+  ])('does not read %p as a number in en_US', (text, expected) => {
+    expect(parseLocaleNumber(text, 'en_US')).toBe(expected);
+  });
+});
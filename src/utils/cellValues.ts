@@ -0,0 +1,108 @@
+import { GoogleSpreadsheetSettings } from '../types';
+
+// Sheets serial numbers count days from 1899-12-30 in the spreadsheet's own wall-clock time
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Locales whose short dates put the month first (Sheets defaults to en_US)
+const MONTH_FIRST_LOCALES = ['en_US', 'es_US', 'en_PH', 'fil_PH'];
+// Languages that write 1.234,56 rather than 1,234.56
+const DECIMAL_COMMA_LANGUAGES = [
+  'de', 'fr', 'es', 'it', 'pt', 'nl', 'ru', 'pl', 'tr', 'sv', 'da', 'fi', 'nb', 'no', 'cs', 'sk',
+  'hu', 'ro', 'id', 'vi', 'uk', 'el', 'bg', 'hr', 'sl', 'lt', 'lv', 'et'
+];
+const DECIMAL_POINT_LOCALES = ['es_MX', 'es_US'];
+
+const ISO_DATE_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T]\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?$/;
+const SHORT_DATE_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/;
+const EXPLICIT_ZONE_PATTERN = /(?:[zZ]|[+-]\d{2}:?\d{2})$/;
+
+// Returns YYYY-MM-DD, or YYYY-MM-DDTHH:mm:ss when the time of day matters
+export function serialToIsoDate(serial: number, includeTime: boolean = false): string {
+  if (!includeTime) {
+    return new Date(SERIAL_EPOCH + Math.floor(serial) * MS_PER_DAY).toISOString().slice(0, 10);
+  }
+  return new Date(SERIAL_EPOCH + Math.round(serial * MS_PER_DAY)).toISOString().slice(0, 19);
+}
+
+function isoFromParts(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined; // Rejects 31/02 and friends instead of rolling them over
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Parses a date typed as text. Numeric dates follow the spreadsheet's locale, and times with an explicit
+// offset are read in the spreadsheet's time zone so the day doesn't depend on where the server runs.
+export function parseLocaleDate(text: string, settings: GoogleSpreadsheetSettings = {}): string | undefined {
+  const trimmed = text.trim();
+  if (trimmed === '') return undefined;
+
+  if (EXPLICIT_ZONE_PATTERN.test(trimmed) && /\d:\d{2}/.test(trimmed)) {
+    const instant = new Date(trimmed);
+    if (isNaN(instant.getTime())) return undefined;
+    try {
+      // en-CA formats as YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', {
+        timeZone: settings.timeZone || 'UTC',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit'
+      }).format(instant);
+    } catch {
+      return instant.toISOString().slice(0, 10); // Unknown time zone name
+    }
+  }
+
+  const iso = trimmed.match(ISO_DATE_PATTERN);
+  if (iso) {
+    return isoFromParts(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+  }
+
+  const short = trimmed.match(SHORT_DATE_PATTERN);
+  if (short) {
+    const monthFirst = !settings.locale || MONTH_FIRST_LOCALES.includes(settings.locale);
+    const [first, second] = [parseInt(short[1], 10), parseInt(short[2], 10)];
+    let year = parseInt(short[3], 10);
+    if (short[3].length === 2) {
+      year += year < 70 ? 2000 : 1900;
+    }
+    return monthFirst ? isoFromParts(year, first, second) : isoFromParts(year, second, first);
+  }
+
+  // Written-out month names ("March 4, 2024") have no locale ambiguity
+  if (/[A-Za-z]{3}/.test(trimmed) && /\d{4}/.test(trimmed)) {
+    const date = new Date(trimmed);
+    if (!isNaN(date.getTime())) {
+      return isoFromParts(date.getFullYear(), date.getMonth() + 1, date.getDate());
+    }
+  }
+
+  return undefined;
+}
+
+function usesDecimalComma(locale?: string): boolean {
+  if (!locale || DECIMAL_POINT_LOCALES.includes(locale)) return false;
+  return DECIMAL_COMMA_LANGUAGES.includes(locale.split(/[_-]/)[0]);
+}
+
+// Parses a number typed as text, allowing the locale's thousands separators and a currency symbol
+export function parseLocaleNumber(text: string, locale?: string): number | undefined {
+  let cleaned = text.trim().replace(/[\s\u00a0\u202f$€£¥₹]/g, '');
+  const negative = /^\(.*\)$/.test(cleaned);
+  if (negative) {
+    cleaned = cleaned.slice(1, -1);
+  }
+
+  const [group, decimal] = usesDecimalComma(locale) ? ['.', ','] : [',', '.'];
+  const escape = (character: string) => `\\${character}`;
+  const grouped = new RegExp(`^[-+]?\\d{1,3}(${escape(group)}\\d{3})+(${escape(decimal)}\\d+)?$`);
+  const plain = new RegExp(`^[-+]?\\d+(${escape(decimal)}\\d+)?$`);
+  if (!grouped.test(cleaned) && !plain.test(cleaned)) {
+    return undefined;
+  }
+
+  const value = parseFloat(cleaned.split(group).join('').replace(decimal, '.'));
+  return negative ? -value : value;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from '@jest/globals';
+import { ColumnMapping, SmartsheetColumn } from '../types';
+import { alignColumnMappings, newSheetColumnTitles, resolveColumnMappings } from './columnMapping';
+
+const column = (id: number, title: string, index: number): SmartsheetColumn => ({ id, title, type: 'TEXT_NUMBER', index });
+
+const mapping = (googleColumn: string, smartsheetColumnId: number, extra: Partial<ColumnMapping> = {}): ColumnMapping =>
+  ({ googleColumn, smartsheetColumnId, dataType: 'text', ...extra });
+
+const columns = [column(10, 'Task', 0), column(11, 'Due  Date', 1), column(12, 'Owner', 2)];
+
+describe('resolveColumnMappings', () => {
+  it('matches by column ID before title', () => {
+    // The column was renamed to "Owner" but its ID still points at "Task"
+    const { mappings, unresolved } = resolveColumnMappings([mapping('Owner', 10, { smartsheetColumnTitle: 'Owner' })], columns);
+
+    expect(mappings).toEqual([
+      mapping('Owner', 10, { smartsheetColumnTitle: 'Task', googleColumnIndex: 0 })
+    ]);
+    expect(unresolved).toEqual([]);
+  });
+
+  it('falls back to the normalized title when the ID is stale', () => {
+    const { mappings } = resolveColumnMappings([
+      mapping('Task', 99, { smartsheetColumnTitle: ' due date ' }),
+      mapping('OWNER', 98)
+    ], columns);
+
+    expect(mappings.map(entry => [entry.smartsheetColumnId, entry.smartsheetColumnTitle])).toEqual([
+      [11, 'Due  Date'],
+      [12, 'Owner']
+    ]);
+  });
+
+  it('reports columns that no longer exist', () => {
+    const { mappings, unresolved } = resolveColumnMappings([mapping('Budget', 99, { smartsheetColumnTitle: 'Budget' })], columns);
+
+    expect(mappings).toEqual([]);
+    expect(unresolved).toEqual([{
+      googleColumn: 'Budget',
+      googleColumnIndex: 0,
+      smartsheetColumnId: 99,
+      smartsheetColumnTitle: 'Budget',
+      reason: 'column_not_found'
+    }]);
+  });
+
+  it('reports a second mapping to the same column as a duplicate target', () => {
+    const { mappings, unresolved } = resolveColumnMappings([mapping('Task', 10), mapping('Task copy', 99, { smartsheetColumnTitle: 'task' })], columns);
+
+    expect(mappings.map(entry => entry.googleColumn)).toEqual(['Task']);
+    expect(unresolved).toEqual([expect.objectContaining({
+      googleColumn: 'Task copy',
+      googleColumnIndex: 1,
+      smartsheetColumnTitle: 'Task',
+      reason: 'duplicate_target'
+    })]);
+  });
+
+  it('keeps source column indexes when mappings are skipped', () => {
+    const { mappings, skipped } = resolveColumnMappings([
+      mapping('Notes', 0, { skip: true }),
+      mapping('Task', 10),
+      mapping('Owner', 12, { googleColumnIndex: 5 })
+    ], columns);
+
+    expect(skipped).toEqual([mapping('Notes', 0, { skip: true, googleColumnIndex: 0 })]);
+    expect(mappings.map(entry => entry.googleColumnIndex)).toEqual([1, 5]);
+  });
+});
+
+describe('alignColumnMappings', () => {
+  it('points mappings at the same headers in a reordered tab', () => {
+    const alignment = alignColumnMappings(
+      [mapping('Task', 10, { googleColumnIndex: 0 }), mapping('Owner', 12, { googleColumnIndex: 1 })],
+      ['owner ', 'Status', 'TASK']
+    );
+
+    expect(alignment.mappings.map(entry => [entry.googleColumn, entry.googleColumnIndex])).toEqual([['Task', 2], ['Owner', 0]]);
+    expect(alignment.missingColumns).toEqual([]);
+    expect(alignment.extraColumns).toEqual(['Status']);
+  });
+
+  it('reports mapped columns the tab lacks and leaves skipped mappings out', () => {
+    const alignment = alignColumnMappings(
+      [mapping('Task', 10), mapping('Budget', 13), mapping('Notes', 0, { skip: true })],
+      ['Task', 'Notes', '']
+    );
+
+    expect(alignment.mappings.map(entry => entry.googleColumn)).toEqual(['Task']);
+    expect(alignment.missingColumns).toEqual(['Budget']);
+    expect(alignment.extraColumns).toEqual(['Notes']);
+  });
+
+  it('gives repeated headers to mappings in order', () => {
+    const alignment = alignColumnMappings([mapping('Name', 1), mapping('Name', 2)], ['Name', 'Name']);
+
+    expect(alignment.mappings.map(entry => entry.googleColumnIndex)).toEqual([0, 1]);
+  });
+});
+
+describe('newSheetColumnTitles', () => {
+  it('fills blank headers and collapses whitespace', () => {
+    expect(newSheetColumnTitles(['  Task  name ', '', 'Owner'])).toEqual(['Task name', 'Column 2', 'Owner']);
+  });
+
+  it('numbers titles that repeat, ignoring case', () => {
+    expect(newSheetColumnTitles(['Name', 'name', 'NAME'])).toEqual(['Name', 'name 2', 'NAME 3']);
+  });
+
+  it('keeps titles within 50 characters, including numbered duplicates', () => {
+    const long = 'x'.repeat(60);
+    const titles = newSheetColumnTitles([long, long]);
+
+    expect(titles).toEqual(['x'.repeat(50), `${'x'.repeat(48)} 2`]);
+    expect(titles.every(title => title.length <= 50)).toBe(true);
+  });
+
+  it('dedupes titles that only match after being cut to 50 characters', () => {
+    const titles = newSheetColumnTitles([`${'y'.repeat(50)} first`, `${'y'.repeat(50)} second`]);
+
+    expect(titles).toEqual(['y'.repeat(50), `${'y'.repeat(48)} 2`]);
+  });
+});
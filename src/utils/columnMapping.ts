@@ -0,0 +1,115 @@
+import { ColumnMapping, SmartsheetColumn, UnresolvedColumnMapping } from '../types';
+
+export interface ColumnMappingResolution {
+  mappings: ColumnMapping[];
+  skipped: ColumnMapping[];
+  unresolved: UnresolvedColumnMapping[];
+}
+
+export function normalizeColumnTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Matches each mapping to a target column by stored column ID first, then by normalized title.
+// Every resolved mapping carries an explicit googleColumnIndex so skipping entries never shifts the source columns.
+export function resolveColumnMappings(mappings: ColumnMapping[], columns: SmartsheetColumn[]): ColumnMappingResolution {
+  const columnsById = new Map(columns.map(column => [column.id, column]));
+  const columnsByTitle = new Map<string, SmartsheetColumn>();
+  for (const column of columns) {
+    const title = normalizeColumnTitle(column.title || '');
+    if (!columnsByTitle.has(title)) {
+      columnsByTitle.set(title, column);
+    }
+  }
+
+  const resolution: ColumnMappingResolution = { mappings: [], skipped: [], unresolved: [] };
+  const claimedColumnIds = new Set<number>();
+
+  mappings.forEach((mapping, index) => {
+    const googleColumnIndex = mapping.googleColumnIndex !== undefined ? mapping.googleColumnIndex : index;
+
+    if (mapping.skip) {
+      resolution.skipped.push({ ...mapping, googleColumnIndex });
+      return;
+    }
+
+    const column = columnsById.get(mapping.smartsheetColumnId) ||
+      columnsByTitle.get(normalizeColumnTitle(mapping.smartsheetColumnTitle || mapping.googleColumn));
+
+    if (!column || claimedColumnIds.has(column.id)) {
+      resolution.unresolved.push({
+        googleColumn: mapping.googleColumn,
+        googleColumnIndex,
+        smartsheetColumnId: mapping.smartsheetColumnId,
+        smartsheetColumnTitle: column?.title || mapping.smartsheetColumnTitle,
+        reason: column ? 'duplicate_target' : 'column_not_found'
+      });
+      return;
+    }
+
+    claimedColumnIds.add(column.id);
+    resolution.mappings.push({
+      ...mapping,
+      googleColumnIndex,
+      smartsheetColumnId: column.id,
+      smartsheetColumnTitle: column.title
+    });
+  });
+
+  return resolution;
+}
+
+export function describeUnresolvedMapping(unresolved: UnresolvedColumnMapping): string {
+  if (unresolved.reason === 'duplicate_target') {
+    return `"${unresolved.googleColumn}" maps to column "${unresolved.smartsheetColumnTitle}" which is already mapped`;
+  }
+  return `"${unresolved.googleColumn}" has no matching column${unresolved.smartsheetColumnTitle ? ` "${unresolved.smartsheetColumnTitle}"` : ''}`;
+}
+
+export interface ColumnAlignment {
+  mappings: ColumnMapping[];
+  missingColumns: string[]; // Mapped columns the tab has no header for
+  extraColumns: string[]; // Tab headers no mapping uses
+}
+
+// Points each mapping at the column with the same header in another tab, so tabs that share columns in a
+// different order land in the same target columns
+export function alignColumnMappings(mappings: ColumnMapping[], headers: string[]): ColumnAlignment {
+  const claimed = new Set<number>();
+  const alignment: ColumnAlignment = { mappings: [], missingColumns: [], extraColumns: [] };
+
+  for (const mapping of mappings) {
+    if (mapping.skip) continue;
+    const title = normalizeColumnTitle(mapping.googleColumn);
+    const columnIndex = headers.findIndex((header, index) => !claimed.has(index) && normalizeColumnTitle(header) === title);
+
+    if (columnIndex === -1) {
+      alignment.missingColumns.push(mapping.googleColumn);
+      continue;
+    }
+    claimed.add(columnIndex);
+    alignment.mappings.push({ ...mapping, googleColumnIndex: columnIndex });
+  }
+
+  headers.forEach((header, index) => {
+    if (header.trim() && !claimed.has(index)) {
+      alignment.extraColumns.push(header.trim());
+    }
+  });
+  return alignment;
+}
+
+// Titles for a new sheet's columns: Smartsheet needs them non-empty, unique and at most 50 characters
+export function newSheetColumnTitles(headers: string[]): string[] {
+  const used = new Set<string>();
+  return headers.map((header, index) => {
+    const base = (header.trim().replace(/\s+/g, ' ') || `Column ${index + 1}`).slice(0, 50);
+    let title = base;
+    for (let counter = 2; used.has(normalizeColumnTitle(title)); counter++) {
+      const suffix = ` ${counter}`;
+      title = `${base.slice(0, 50 - suffix.length)}${suffix}`;
+    }
+    used.add(normalizeColumnTitle(title));
+    return title;
+  });
+}
@@ -0,0 +1,152 @@
+import { ColumnDataType, ColumnTypeSuggestion, GoogleCellValue, GoogleDataValidation, SmartsheetColumnType } from '../types';
+
+const TRUE_VALUES = ['true', 'yes', 'y', 'checked', '✓', '✔'];
+const FALSE_VALUES = ['false', 'no', 'n', 'unchecked', '✗', '✘'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Plain numbers typed as text; formatted numbers are recognised through the cell's typed value
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+// Common written date shapes; plain numbers are never treated as dates
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?)?$/,
+  /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/,
+  /^[A-Za-z]{3,9}\.? \d{1,2},? \d{4}$/,
+  /^\d{1,2} [A-Za-z]{3,9}\.? \d{4}$/
+];
+
+// A picklist is only proposed when values repeat enough to look like a fixed set
+const MAX_PICKLIST_OPTIONS = 25;
+const MIN_PICKLIST_SAMPLE = 4;
+
+export function parseBooleanValue(value: any): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = String(value ?? '').trim().toLowerCase();
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text) || text === '') return false;
+  return null;
+}
+
+function isDateValue(text: string): boolean {
+  return DATE_PATTERNS.some(pattern => pattern.test(text)) && !isNaN(new Date(text).getTime());
+}
+
+// Values in a multi-select dropdown cell are comma separated
+export function splitMultiPicklistValue(value: any): string[] {
+  return String(value ?? '')
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part !== '');
+}
+
+// The dropdown rule most of the column's cells share, if any
+function findColumnValidation(cells: GoogleCellValue[]): GoogleDataValidation | undefined {
+  const counts = new Map<string, { rule: GoogleDataValidation; count: number }>();
+  for (const cell of cells) {
+    if (!cell?.validation || cell.validation.values.length === 0) continue;
+    const key = JSON.stringify(cell.validation.values);
+    const entry = counts.get(key) || { rule: cell.validation, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+
+  const best = Array.from(counts.values()).sort((a, b) => b.count - a.count)[0];
+  return best && best.count >= cells.filter(Boolean).length / 2 ? best.rule : undefined;
+}
+
+export function inferColumnType(
+  cells: GoogleCellValue[],
+  columnIndex: number = 0,
+  header: string = ''
+): ColumnTypeSuggestion {
+  const values: string[] = [];
+  const valueCells: GoogleCellValue[] = [];
+  let hyperlinks = 0;
+  let images = 0;
+  let attachments = 0;
+  let people = 0;
+
+  for (const cell of cells) {
+    if (!cell) continue;
+    if (cell.isImage) {
+      images++;
+      continue;
+    }
+    const text = String(cell.value ?? '').trim();
+    if (text === '') continue;
+    if (cell.hyperlink) hyperlinks++;
+    if (cell.driveFile) attachments++;
+    if (cell.chips?.some(chip => chip.type === 'person')) people++;
+    values.push(text);
+    valueCells.push(cell);
+  }
+
+  const suggest = (type: SmartsheetColumnType, dataType: ColumnDataType, options?: string[]): ColumnTypeSuggestion => ({
+    columnIndex,
+    header,
+    type,
+    dataType,
+    options,
+    sampleSize: values.length + images
+  });
+
+  // Every value links a Drive file and some aren't images, so attaching them keeps them all
+  if (attachments > 0 && attachments === values.length) {
+    return suggest('TEXT_NUMBER', 'attachment');
+  }
+  if (images > 0) {
+    return suggest('TEXT_NUMBER', 'image');
+  }
+
+  const validation = findColumnValidation(cells);
+  if (validation) {
+    const options = new Set(validation.values);
+    // A value that isn't an option itself but splits into options came from a multi-select dropdown
+    const isMultiSelect = values.some(value =>
+      !options.has(value) && splitMultiPicklistValue(value).every(part => options.has(part))
+    );
+    return {
+      ...suggest(isMultiSelect ? 'MULTI_PICKLIST' : 'PICKLIST', isMultiSelect ? 'multi_picklist' : 'picklist', validation.values),
+      validation: validation.strict,
+      fromDataValidation: true
+    };
+  }
+  if (values.length === 0) {
+    return suggest('TEXT_NUMBER', 'text');
+  }
+  if (hyperlinks === values.length) {
+    return suggest('TEXT_NUMBER', 'hyperlink');
+  }
+  if (valueCells.every(cell => typeof cell.typedValue === 'boolean' || parseBooleanValue(cell.value) !== null)) {
+    return suggest('CHECKBOX', 'boolean');
+  }
+  if (people === values.length || values.every(value => EMAIL_PATTERN.test(value))) {
+    return suggest('CONTACT_LIST', 'contact');
+  }
+  if (valueCells.every(cell => cell.dateValue !== undefined || isDateValue(String(cell.value).trim()))) {
+    return suggest('DATE', 'date');
+  }
+  if (valueCells.every(cell => typeof cell.typedValue === 'number' || NUMBER_PATTERN.test(String(cell.value).trim()))) {
+    return suggest('TEXT_NUMBER', 'number');
+  }
+
+  // Keep options in first-seen order so they read like the source data
+  const distinct = Array.from(new Set(values));
+  if (values.length >= MIN_PICKLIST_SAMPLE &&
+      distinct.length <= MAX_PICKLIST_OPTIONS &&
+      distinct.length <= values.length / 2) {
+    return suggest('PICKLIST', 'picklist', distinct);
+  }
+
+  return suggest('TEXT_NUMBER', 'text');
+}
+
+// Infers a type for each selected column from the data rows (header row excluded)
+export function inferColumnTypes(
+  rows: GoogleCellValue[][],
+  columnIndexes: number[],
+  headers: string[]
+): ColumnTypeSuggestion[] {
+  return columnIndexes.map(columnIndex =>
+    inferColumnType(rows.map(row => row[columnIndex]), columnIndex, headers[columnIndex] || `Column ${columnIndex + 1}`)
+  );
+}
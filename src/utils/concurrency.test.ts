@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { ConcurrencyPool } from './concurrency';
+
+// A task that stays running until release() is called
+const deferred = (): { promise: Promise<void>; release: () => void; fail: (error: Error) => void } => {
+  let release!: () => void;
+  let fail!: (error: Error) => void;
+  const promise = new Promise<void>((resolve, reject) => {
+    release = resolve;
+    fail = reject;
+  });
+  return { promise, release, fail };
+};
+
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe('ConcurrencyPool', () => {
+  it('never runs more than its limit at once, starting waiters in arrival order', async () => {
+    const pool = new ConcurrencyPool(2);
+    const tasks = Array.from({ length: 5 }, () => deferred());
+    const started: number[] = [];
+    let running = 0;
+    let mostRunning = 0;
+
+    const results = tasks.map((task, index) => pool.run(async () => {
+      started.push(index);
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await task.promise;
+      running--;
+      return index;
+    }));
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    tasks[1].release();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks.forEach(task => task.release());
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2, 3, 4]);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+    expect(mostRunning).toBe(2);
+  });
+
+  it("passes a task's error to its caller and keeps the queue moving", async () => {
+    const pool = new ConcurrencyPool(1);
+    const failing = deferred();
+
+    const first = pool.run(() => failing.promise);
+    const second = pool.run(async () => 'second');
+    failing.fail(new Error('upload failed'));
+
+    await expect(first).rejects.toThrow('upload failed');
+    await expect(second).resolves.toBe('second');
+    await expect(pool.run(async () => 'after')).resolves.toBe('after');
+  });
+
+  it('treats a limit below one as one', async () => {
+    const pool = new ConcurrencyPool(0);
+    const task = deferred();
+    let secondStarted = false;
+
+    const first = pool.run(() => task.promise);
+    const second = pool.run(async () => {
+      secondStarted = true;
+    });
+
+    await flush();
+    expect(secondStarted).toBe(false);
+    task.release();
+    await Promise.all([first, second]);
+    expect(secondStarted).toBe(true);
+  });
+});
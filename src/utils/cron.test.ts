@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { getNextCronRun, isValidCronExpression, parseCronExpression } from './cron';
+
+// Dates are built in server local time, which is what the schedules run in
+const at = (year: number, month: number, day: number, hour: number = 0, minute: number = 0): Date =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe('parseCronExpression', () => {
+  it('expands ranges, steps, lists and names', () => {
+    const schedule = parseCronExpression('*/15 9-17/4 1,15 JAN-mar mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('starts a step from a single value', () => {
+    expect([...parseCronExpression('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('records which day fields are restricted', () => {
+    const schedule = parseCronExpression('0 0 * * 1');
+
+    expect(schedule.dayOfMonthRestricted).toBe(false);
+    expect(schedule.dayOfWeekRestricted).toBe(true);
+  });
+
+  it.each([
+    ['0 0 * *', 'must have 5 fields'],
+    ['60 * * * *', 'out of range'],
+    ['* * 0 * *', 'out of range'],
+    ['* * * * 5-1', 'out of range'],
+    ['*/0 * * * *', 'Invalid cron step'],
+    ['abc * * * *', 'Invalid cron value']
+  ])('rejects "%s"', (expression, message) => {
+    expect(() => parseCronExpression(expression)).toThrow(message);
+    expect(isValidCronExpression(expression)).toBe(false);
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    expect(getNextCronRun('*/15 * * * *', at(2024, 5, 10, 10, 7))).toEqual(at(2024, 5, 10, 10, 15));
+    expect(getNextCronRun('*/15 * * * *', at(2024, 5, 10, 10, 15))).toEqual(at(2024, 5, 10, 10, 30));
+  });
+
+  it('ignores seconds on the starting time', () => {
+    const after = new Date(2024, 4, 10, 10, 14, 59, 500);
+
+    expect(getNextCronRun('* * * * *', after)).toEqual(at(2024, 5, 10, 10, 15));
+  });
+
+  it('rolls over hours, days, months and years', () => {
+    expect(getNextCronRun('30 2 * * *', at(2024, 5, 10, 3))).toEqual(at(2024, 5, 11, 2, 30));
+    expect(getNextCronRun('0 0 1 * *', at(2024, 12, 15))).toEqual(at(2025, 1, 1));
+  });
+
+  it('skips to the next weekday', () => {
+    // 2024-05-10 is a Friday
+    expect(getNextCronRun('0 9 * * MON-FRI', at(2024, 5, 10, 10))).toEqual(at(2024, 5, 13, 9));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th of the month or any Friday, whichever comes first
+    expect(getNextCronRun('0 0 13 * FRI', at(2024, 5, 1))).toEqual(at(2024, 5, 3));
+    expect(getNextCronRun('0 0 13 * FRI', at(2024, 5, 11))).toEqual(at(2024, 5, 13));
+  });
+
+  it('finds February 29 in the next leap year', () => {
+    expect(getNextCronRun('0 12 29 2 *', at(2025, 3, 1))).toEqual(at(2028, 2, 29, 12));
+  });
+
+  it('throws for an expression that never matches', () => {
+    expect(() => getNextCronRun('0 0 31 2 *', at(2024, 1, 1))).toThrow('never matches');
+  });
+});
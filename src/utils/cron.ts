@@ -0,0 +1,147 @@
+// Minimal five-field cron support: minute hour day-of-month month day-of-week
+// Fields accept *, numbers, ranges (1-5), steps (*/15, 1-10/2), lists (1,15) and month/day names.
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Roughly five years of minutes - enough for any expression that can match at all (e.g. Feb 29)
+const MAX_SEARCH_STEPS = 5 * 366 * 24 * 60;
+
+function parseValue(value: string, names?: string[], nameOffset: number = 0): number {
+  const upper = value.toUpperCase();
+  if (names && names.includes(upper)) {
+    return names.indexOf(upper) + nameOffset;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron value "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset: number = 0): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? parseValue(stepPart) : 1;
+    if (step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(rangePart, names, nameOffset);
+      // "5/15" means every 15 starting at 5
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minuteField, hourField, dayOfMonthField, monthField, dayOfWeekField] = fields;
+
+  const daysOfWeek = parseField(dayOfWeekField, 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minuteField, 0, 59),
+    hours: parseField(hourField, 0, 23),
+    daysOfMonth: parseField(dayOfMonthField, 1, 31),
+    months: parseField(monthField, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthRestricted: !dayOfMonthField.startsWith('*'),
+    dayOfWeekRestricted: !dayOfWeekField.startsWith('*')
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonthMatch = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeekMatch = schedule.daysOfWeek.has(date.getDay());
+
+  // Like standard cron, a restricted day-of-month and day-of-week match if either does
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  if (schedule.dayOfMonthRestricted) return dayOfMonthMatch;
+  if (schedule.dayOfWeekRestricted) return dayOfWeekMatch;
+  return true;
+}
+
+// Returns the first matching minute strictly after `after`, in server local time
+export function getNextCronRun(expression: string, after: Date = new Date()): Date {
+  const schedule = parseCronExpression(expression);
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
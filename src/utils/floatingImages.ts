@@ -0,0 +1,147 @@
+import path from 'path';
+import mime from 'mime-types';
+import { GoogleCellValue } from '../types';
+import { extractZipEntry, readZipEntries, ZipEntry } from './zip';
+
+const DRAWING_RELATIONSHIP = /\/drawing$/;
+const ANCHOR_PATTERN = /<(?:\w+:)?(twoCellAnchor|oneCellAnchor)\b[\s\S]*?<\/(?:\w+:)?\1>/g;
+
+// A picture placed over the grid rather than in a cell. It belongs to the cell under its top-left corner.
+export interface FloatingImageAnchor {
+  id: string;
+  tabName: string;
+  row: number; // 0-based sheet row
+  column: number; // 0-based
+  mediaPath: string; // Path of the picture inside the XLSX archive
+  name: string;
+  mimeType: string;
+}
+
+// The XLSX export that floating images are read from, and the images found in it
+export interface FloatingImageSource {
+  xlsx: Buffer;
+  entries: Map<string, ZipEntry>;
+  anchors: FloatingImageAnchor[];
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+function readText(xlsx: Buffer, entries: Map<string, ZipEntry>, entryPath: string): string | undefined {
+  const entry = entries.get(entryPath);
+  return entry ? extractZipEntry(xlsx, entry).toString('utf8') : undefined;
+}
+
+// Relationship targets by ID from the .rels file that belongs to partPath, resolved to archive paths
+function readRelationships(
+  xlsx: Buffer,
+  entries: Map<string, ZipEntry>,
+  partPath: string
+): Map<string, { type: string; target: string }> {
+  const directory = path.posix.dirname(partPath);
+  const xml = readText(xlsx, entries, path.posix.join(directory, '_rels', `${path.posix.basename(partPath)}.rels`));
+  const relationships = new Map<string, { type: string; target: string }>();
+
+  for (const tag of xml?.match(/<Relationship\b[^>]*>/g) || []) {
+    const id = attribute(tag, 'Id');
+    const target = attribute(tag, 'Target');
+    if (!id || !target || attribute(tag, 'TargetMode') === 'External') continue;
+    relationships.set(id, {
+      type: attribute(tag, 'Type') || '',
+      target: target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join(directory, target))
+    });
+  }
+  return relationships;
+}
+
+// Finds the pictures placed over each tab's grid in an XLSX export of the spreadsheet.
+// Pictures anchored to the sheet itself rather than a cell (absoluteAnchor) have no row and are left out.
+export function findFloatingImages(xlsx: Buffer): FloatingImageSource {
+  const entries = readZipEntries(xlsx);
+  const anchors: FloatingImageAnchor[] = [];
+  const workbook = readText(xlsx, entries, 'xl/workbook.xml') || '';
+  const workbookRelationships = readRelationships(xlsx, entries, 'xl/workbook.xml');
+
+  for (const sheetTag of workbook.match(/<sheet\b[^>]*>/g) || []) {
+    const tabName = attribute(sheetTag, 'name');
+    const sheetPath = workbookRelationships.get(attribute(sheetTag, 'r:id') || '')?.target;
+    if (!tabName || !sheetPath) continue;
+
+    const drawings = Array.from(readRelationships(xlsx, entries, sheetPath).values())
+      .filter(relationship => DRAWING_RELATIONSHIP.test(relationship.type));
+
+    for (const drawing of drawings) {
+      const xml = readText(xlsx, entries, drawing.target);
+      if (!xml) continue;
+      const media = readRelationships(xlsx, entries, drawing.target);
+
+      for (const anchor of xml.match(ANCHOR_PATTERN) || []) {
+        const from = anchor.match(/<(?:\w+:)?from>([\s\S]*?)<\/(?:\w+:)?from>/)?.[1] || '';
+        const column = from.match(/<(?:\w+:)?col>(\d+)</)?.[1];
+        const row = from.match(/<(?:\w+:)?row>(\d+)</)?.[1];
+        const embed = anchor.match(/<(?:\w+:)?blip\b[^>]*\sr:embed="([^"]+)"/)?.[1];
+        const mediaPath = embed ? media.get(embed)?.target : undefined;
+        if (column === undefined || row === undefined || !mediaPath || !entries.has(mediaPath)) continue;
+
+        anchors.push({
+          id: `${tabName}:${anchors.length}`,
+          tabName,
+          row: parseInt(row, 10),
+          column: parseInt(column, 10),
+          mediaPath,
+          name: path.posix.basename(mediaPath),
+          mimeType: mime.lookup(mediaPath) || 'application/octet-stream'
+        });
+      }
+    }
+  }
+
+  return { xlsx, entries, anchors };
+}
+
+// Adds each floating image to its anchor cell, with the picture's bytes. googleData holds each tab's header row
+// first, at sheet row headerRowIndex. Returns the IDs of the anchors that were placed; anchors for rows outside
+// the data are left for a later part of the transfer, or unplaced.
+export function attachFloatingImages(
+  googleData: { [tabName: string]: GoogleCellValue[][] },
+  source: FloatingImageSource,
+  anchors: FloatingImageAnchor[],
+  headerRowIndex: number
+): Set<string> {
+  const placed = new Set<string>();
+
+  for (const anchor of anchors) {
+    const rows = googleData[anchor.tabName];
+    const dataIndex = anchor.row - headerRowIndex;
+    if (!rows || dataIndex < 1 || dataIndex >= rows.length) continue;
+
+    const row = rows[dataIndex];
+    for (let column = row.length; column <= anchor.column; column++) {
+      row[column] = { value: '', isImage: false };
+    }
+    const cell = row[anchor.column];
+
+    cell.floatingImages = [
+      ...(cell.floatingImages || []),
+      {
+        name: anchor.name,
+        mimeType: anchor.mimeType,
+        data: extractZipEntry(source.xlsx, source.entries.get(anchor.mediaPath)!)
+      }
+    ];
+    placed.add(anchor.id);
+  }
+
+  return placed;
+}
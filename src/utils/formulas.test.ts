@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { columnIndexToLetters, columnLettersToIndex, translateFormula } from './formulas';
+
+const columnTitles = new Map([
+  [0, 'Qty'],
+  [1, 'Price'],
+  [2, 'Total']
+]);
+
+// Formulas on sheet row 2, the first data row under a header in row 1
+const translate = (formula: string) => translateFormula(formula, columnTitles, 2);
+
+describe('translateFormula', () => {
+  it.each([
+    ['=A2+B2', '=[Qty]@row + [Price]@row'],
+    ['=$A$2*B$2', '=[Qty]@row * [Price]@row'],
+    ['=SUM(A2:C2)', '=SUM([Qty]@row:[Total]@row)'],
+    ['=SUM(C:C)', '=SUM([Total]:[Total])'],
+    ['=IF(A2>10,"big","small")', '=IF([Qty]@row > 10, "big", "small")'],
+    ['=IFERROR((A2-B2)/C2, 0)', '=IFERROR(([Qty]@row - [Price]@row) / [Total]@row, 0)'],
+    ['=AVERAGE(A2, B2)', '=AVG([Qty]@row, [Price]@row)'],
+    ['=AND(TRUE, A2<>B2)', '=AND(true, [Qty]@row <> [Price]@row)'],
+    ['=A2&" units"', '=[Qty]@row + " units"'],
+    ['=TODAY()', '=TODAY()']
+  ])('translates %s', (formula, expected) => {
+    expect(translate(formula)).toEqual({ formula: expected });
+  });
+
+  it('rewrites an exact-match VLOOKUP as INDEX/MATCH over whole columns', () => {
+    expect(translate('=VLOOKUP(A2, A1:C100, 3, FALSE)')).toEqual({
+      formula: '=INDEX([Total]:[Total], MATCH([Qty]@row, [Qty]:[Qty], 0))'
+    });
+  });
+
+  it.each([
+    ['=A3', 'references another row'],
+    ['=SUM(A1:A10)', 'references another row'],
+    ['=Sheet2!A2', 'references another sheet'],
+    ["='Other tab'!A2", 'references another sheet'],
+    ['=D2', 'references a column that is not transferred'],
+    ['=SUM(A:B)', 'multi-column ranges are not supported'],
+    ['=SUMIF(A:A, ">0")', 'function SUMIF is not supported'],
+    ['=A2^2', 'operator ^ is not supported'],
+    ['=VLOOKUP(A2, A1:C100, 3)', 'only exact-match VLOOKUP is supported'],
+    ['=VLOOKUP(A2, A1:C100, 4, FALSE)', 'VLOOKUP column index is outside the range'],
+    ['=SUM(A2', 'formula ends unexpectedly'],
+    ['={1,2}', 'unsupported syntax near "{1,2}"']
+  ])('reports %s as untranslatable', (formula, reason) => {
+    expect(translate(formula)).toEqual({ reason });
+  });
+
+  it('reports columns whose titles Smartsheet formulas cannot reference', () => {
+    const result = translateFormula('=A2', new Map([[0, 'Size [cm]']]), 2);
+
+    expect(result).toEqual({ reason: 'column "Size [cm]" can\'t be referenced in a Smartsheet formula' });
+  });
+
+  it('ignores values that are not formulas', () => {
+    expect(translate('plain text')).toEqual({ reason: 'not a formula' });
+    // The FORMULA render returns numbers and booleans as they are
+    expect(translate(5 as unknown as string)).toEqual({ reason: 'not a formula' });
+    expect(translate(true as unknown as string)).toEqual({ reason: 'not a formula' });
+  });
+});
+
+describe('column letters', () => {
+  it.each([
+    ['A', 0],
+    ['Z', 25],
+    ['AA', 26],
+    ['AZ', 51],
+    ['ZZ', 701],
+    ['AAA', 702]
+  ])('maps %s to index %i and back', (letters, index) => {
+    expect(columnLettersToIndex(letters)).toBe(index);
+    expect(columnIndexToLetters(index)).toBe(letters);
+  });
+
+  it('accepts lowercase letters', () => {
+    expect(columnLettersToIndex('ab')).toBe(27);
+  });
+});
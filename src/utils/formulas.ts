@@ -0,0 +1,342 @@
+// Translates the common subset of Google Sheets formulas into Smartsheet syntax.
+// Cell references must stay within the formula's own row ([Column]@row) or cover whole columns ([Column]:[Column]);
+// anything else is reported as untranslatable so the caller can fall back to the computed value.
+
+export interface FormulaTranslation {
+  formula?: string;
+  reason?: string; // Why the formula could not be translated
+}
+
+type TokenType = 'string' | 'number' | 'boolean' | 'ref' | 'function' | 'operator' | 'open' | 'close' | 'comma';
+
+interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface CellRef {
+  startColumn: number;
+  startRow?: number; // Undefined for whole-column references like A:A
+  endColumn: number;
+  endRow?: number;
+}
+
+class UntranslatableFormulaError extends Error {}
+
+// Google function -> Smartsheet function
+const FUNCTION_NAMES: Record<string, string> = {
+  SUM: 'SUM',
+  IF: 'IF',
+  IFERROR: 'IFERROR',
+  AND: 'AND',
+  OR: 'OR',
+  NOT: 'NOT',
+  TODAY: 'TODAY',
+  MIN: 'MIN',
+  MAX: 'MAX',
+  AVERAGE: 'AVG',
+  COUNT: 'COUNT',
+  ROUND: 'ROUND',
+  ABS: 'ABS',
+  ISBLANK: 'ISBLANK',
+  LEN: 'LEN',
+  LEFT: 'LEFT',
+  RIGHT: 'RIGHT',
+  MID: 'MID',
+  UPPER: 'UPPER',
+  LOWER: 'LOWER',
+  YEAR: 'YEAR',
+  MONTH: 'MONTH',
+  DAY: 'DAY',
+  INDEX: 'INDEX',
+  MATCH: 'MATCH'
+};
+
+const TOKEN_PATTERN = new RegExp([
+  '(\\s+)',
+  '("(?:[^"]|"")*")',
+  "((?:'[^']+'|[A-Za-z0-9_]+)!)", // Sheet prefix - other tabs can't be referenced
+  '(\\$?[A-Za-z]{1,3}\\$?\\d+(?::\\$?[A-Za-z]{1,3}\\$?\\d+)?|\\$?[A-Za-z]{1,3}:\\$?[A-Za-z]{1,3})(?![A-Za-z0-9_(])',
+  '([A-Za-z][A-Za-z0-9_.]*)\\s*(?=\\()',
+  '(TRUE|FALSE)\\b',
+  '(\\d+(?:\\.\\d+)?(?:[eE][-+]?\\d+)?)',
+  '(<>|<=|>=|[-+*/&=<>^%])',
+  '(\\()',
+  '(\\))',
+  '(,)'
+].join('|'), 'iy');
+
+const GROUP_TYPES: Array<TokenType | 'space' | 'sheet'> = [
+  'space', 'string', 'sheet', 'ref', 'function', 'boolean', 'number', 'operator', 'open', 'close', 'comma'
+];
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < formula.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(formula);
+    if (!match || match.index !== start) {
+      throw new UntranslatableFormulaError(`unsupported syntax near "${formula.slice(start, start + 10)}"`);
+    }
+
+    const groupIndex = match.slice(1).findIndex(group => group !== undefined);
+    const type = GROUP_TYPES[groupIndex];
+    if (type === 'space') continue;
+    if (type === 'sheet') {
+      throw new UntranslatableFormulaError('references another sheet');
+    }
+    tokens.push({ type, text: match[groupIndex + 1] });
+  }
+
+  return tokens;
+}
+
+export function columnLettersToIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+export function columnIndexToLetters(index: number): string {
+  let letters = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((remaining - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function parseRef(text: string): CellRef {
+  const [start, end = start] = text.replace(/\$/g, '').toUpperCase().split(':');
+  const parsePart = (part: string) => {
+    const match = part.match(/^([A-Z]+)(\d+)?$/)!;
+    return { column: columnLettersToIndex(match[1]), row: match[2] ? parseInt(match[2], 10) : undefined };
+  };
+  const from = parsePart(start);
+  const to = parsePart(end);
+  return { startColumn: from.column, startRow: from.row, endColumn: to.column, endRow: to.row };
+}
+
+class FormulaTranslator {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly columnTitles: Map<number, string>,
+    private readonly rowNumber: number
+  ) {}
+
+  public translate(): string {
+    const expression = this.parseExpression();
+    if (this.position < this.tokens.length) {
+      throw new UntranslatableFormulaError(`unexpected "${this.tokens[this.position].text}"`);
+    }
+    return `=${expression}`;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new UntranslatableFormulaError('formula ends unexpectedly');
+    }
+    return token;
+  }
+
+  // Reads tokens up to the next top-level comma or closing parenthesis
+  private parseExpression(): string {
+    let output = '';
+
+    while (this.position < this.tokens.length) {
+      const token = this.peek()!;
+      if (token.type === 'comma' || token.type === 'close') break;
+      this.position++;
+
+      switch (token.type) {
+        case 'string':
+        case 'number':
+          output += token.text;
+          break;
+        case 'boolean':
+          output += token.text.toLowerCase();
+          break;
+        case 'operator':
+          output += this.translateOperator(token.text);
+          break;
+        case 'ref':
+          output += this.translateRef(parseRef(token.text));
+          break;
+        case 'open': {
+          const inner = this.parseExpression();
+          this.expect('close');
+          output += `(${inner})`;
+          break;
+        }
+        case 'function':
+          output += this.translateFunction(token.text.toUpperCase());
+          break;
+      }
+    }
+
+    return output;
+  }
+
+  private expect(type: TokenType): void {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new UntranslatableFormulaError(`expected ${type} but found "${token.text}"`);
+    }
+  }
+
+  // Consumes an expression without translating it, for arguments that are rewritten structurally
+  private skipExpression(): void {
+    let depth = 0;
+    while (this.position < this.tokens.length) {
+      const token = this.peek()!;
+      if (depth === 0 && (token.type === 'comma' || token.type === 'close')) break;
+      if (token.type === 'open') depth++;
+      if (token.type === 'close') depth--;
+      this.position++;
+    }
+  }
+
+  // Arguments listed in rawArguments keep only their tokens
+  private parseArguments(rawArguments: number[] = []): Array<{ text: string; tokens: Token[] }> {
+    this.expect('open');
+    const args: Array<{ text: string; tokens: Token[] }> = [];
+
+    if (this.peek()?.type === 'close') {
+      this.position++;
+      return args;
+    }
+
+    for (;;) {
+      const start = this.position;
+      let text = '';
+      if (rawArguments.includes(args.length)) {
+        this.skipExpression();
+      } else {
+        text = this.parseExpression();
+      }
+      args.push({ text, tokens: this.tokens.slice(start, this.position) });
+
+      const separator = this.next();
+      if (separator.type === 'close') return args;
+      if (separator.type !== 'comma') {
+        throw new UntranslatableFormulaError(`unexpected "${separator.text}"`);
+      }
+    }
+  }
+
+  private translateFunction(name: string): string {
+    if (name === 'VLOOKUP') {
+      return this.translateVlookup();
+    }
+
+    const smartsheetName = FUNCTION_NAMES[name];
+    if (!smartsheetName) {
+      throw new UntranslatableFormulaError(`function ${name} is not supported`);
+    }
+
+    const args = this.parseArguments();
+    return `${smartsheetName}(${args.map(arg => arg.text).join(', ')})`;
+  }
+
+  // VLOOKUP(key, range, n, FALSE) becomes INDEX(<nth column>, MATCH(key, <first column>, 0)).
+  // Bounded lookup ranges are widened to whole columns, since the Smartsheet copy only holds the transferred rows.
+  private translateVlookup(): string {
+    const args = this.parseArguments([1]);
+    if (args.length < 3 || args.length > 4) {
+      throw new UntranslatableFormulaError('VLOOKUP needs 3 or 4 arguments');
+    }
+
+    const isExactMatch = args.length === 4 && ['false', '0'].includes(args[3].text.toLowerCase());
+    if (!isExactMatch) {
+      throw new UntranslatableFormulaError('only exact-match VLOOKUP is supported');
+    }
+
+    const [rangeToken] = args[1].tokens;
+    if (args[1].tokens.length !== 1 || rangeToken.type !== 'ref') {
+      throw new UntranslatableFormulaError('VLOOKUP range must be a plain range');
+    }
+
+    const offset = parseInt(args[2].text, 10);
+    const range = parseRef(rangeToken.text);
+    const resultColumn = range.startColumn + offset - 1;
+    if (isNaN(offset) || offset < 1 || resultColumn > range.endColumn) {
+      throw new UntranslatableFormulaError('VLOOKUP column index is outside the range');
+    }
+
+    return `INDEX(${this.columnRange(resultColumn)}, MATCH(${args[0].text}, ${this.columnRange(range.startColumn)}, 0))`;
+  }
+
+  private translateOperator(operator: string): string {
+    switch (operator) {
+      case '&':
+        return ' + '; // Smartsheet concatenates text with +
+      case '^':
+      case '%':
+        throw new UntranslatableFormulaError(`operator ${operator} is not supported`);
+      default:
+        return ` ${operator} `;
+    }
+  }
+
+  private translateRef(ref: CellRef): string {
+    const isWholeColumn = ref.startRow === undefined && ref.endRow === undefined;
+    if (isWholeColumn) {
+      if (ref.startColumn !== ref.endColumn) {
+        throw new UntranslatableFormulaError('multi-column ranges are not supported');
+      }
+      return this.columnRange(ref.startColumn);
+    }
+
+    if (ref.startRow !== this.rowNumber || ref.endRow !== this.rowNumber) {
+      throw new UntranslatableFormulaError('references another row');
+    }
+
+    if (ref.startColumn === ref.endColumn) {
+      return `${this.columnReference(ref.startColumn)}@row`;
+    }
+    return `${this.columnReference(ref.startColumn)}@row:${this.columnReference(ref.endColumn)}@row`;
+  }
+
+  private columnRange(columnIndex: number): string {
+    const reference = this.columnReference(columnIndex);
+    return `${reference}:${reference}`;
+  }
+
+  private columnReference(columnIndex: number): string {
+    const title = this.columnTitles.get(columnIndex);
+    if (!title) {
+      throw new UntranslatableFormulaError('references a column that is not transferred');
+    }
+    if (/[[\]]/.test(title)) {
+      throw new UntranslatableFormulaError(`column "${title}" can't be referenced in a Smartsheet formula`);
+    }
+    return `[${title}]`;
+  }
+}
+
+// columnTitles maps Google column indexes to Smartsheet column titles; rowNumber is the 1-based sheet row
+export function translateFormula(formula: string, columnTitles: Map<number, string>, rowNumber: number): FormulaTranslation {
+  if (typeof formula !== 'string' || !formula.startsWith('=')) {
+    return { reason: 'not a formula' };
+  }
+
+  try {
+    const translator = new FormulaTranslator(tokenize(formula.slice(1)), columnTitles, rowNumber);
+    return { formula: translator.translate() };
+  } catch (error: any) {
+    if (error instanceof UntranslatableFormulaError) {
+      return { reason: error.message };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from '@jest/globals';
+import { detectIndentUnit, outlineDepths, ParentTracker } from './hierarchy';
+
+describe('outlineDepths', () => {
+  it('reads depth from WBS numbers', () => {
+    expect(outlineDepths(['1', '1.1', '1.1.2', '1.2.', '2', '10.3'])).toEqual([0, 1, 2, 1, 0, 1]);
+  });
+
+  it('reads depth from indentation in the detected unit', () => {
+    expect(outlineDepths(['Design', '    Wireframes', '        Review', '    Mockups', 'Build'])).toEqual([0, 1, 2, 1, 0]);
+    expect(outlineDepths(['Design', '  Wireframes', '    Review'])).toEqual([0, 1, 2]);
+  });
+
+  it('counts a tab as four spaces', () => {
+    expect(outlineDepths(['Design', '\tWireframes', '\t\tReview'])).toEqual([0, 1, 2]);
+  });
+
+  it('uses the unit it is given', () => {
+    expect(outlineDepths(['  Wireframes', '    Review'], 2)).toEqual([1, 2]);
+  });
+
+  it('treats blank cells as top-level rows', () => {
+    expect(outlineDepths(['1', '', null, undefined, '   '])).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  it('treats numbers as WBS values', () => {
+    expect(outlineDepths([1, 1.1, 2])).toEqual([0, 1, 0]);
+  });
+});
+
+describe('detectIndentUnit', () => {
+  it('uses the smallest indent in the column', () => {
+    expect(detectIndentUnit(['Design', '   Wireframes', '      Review'])).toBe(3);
+  });
+
+  it('leaves WBS numbers out', () => {
+    expect(detectIndentUnit([' 1.1', 'Design', '  Wireframes'])).toBe(2);
+  });
+
+  it('is undefined when nothing is indented', () => {
+    expect(detectIndentUnit(['Design', 'Build', null])).toBeUndefined();
+  });
+});
+
+describe('ParentTracker', () => {
+  it('makes the closest earlier shallower row the parent', () => {
+    const tracker = new ParentTracker<string>();
+
+    expect(tracker.next('1', 0)).toBeUndefined();
+    expect(tracker.next('1.1', 1)).toBe('1');
+    expect(tracker.next('1.1.1', 2)).toBe('1.1');
+    expect(tracker.next('1.2', 1)).toBe('1');
+    expect(tracker.next('2', 0)).toBeUndefined();
+    expect(tracker.next('2.1', 1)).toBe('2');
+  });
+
+  it('nests a jump of several levels one level down', () => {
+    const tracker = new ParentTracker<string>();
+
+    tracker.next('Phase', 0);
+    expect(tracker.next('Deep task', 3)).toBe('Phase');
+    expect(tracker.next('Sibling', 3)).toBe('Phase');
+    expect(tracker.next('Child', 4)).toBe('Sibling');
+  });
+
+  it('keeps only the current chain of ancestors', () => {
+    const tracker = new ParentTracker<string>();
+
+    tracker.next('1', 0);
+    tracker.next('1.1', 1);
+    tracker.next('1.1.1', 2);
+    tracker.next('1.2', 1);
+
+    expect(tracker.ancestors()).toEqual(['1', '1.2']);
+  });
+
+  it('rebuilds the same parents from its chain', () => {
+    const tracker = new ParentTracker<string>();
+    tracker.next('Phase', 0);
+    tracker.next('Deep task', 3);
+    tracker.next('Sibling', 3);
+
+    const restored = new ParentTracker<string>();
+    for (const { item, depth } of tracker.chain()) {
+      restored.next(item, depth);
+    }
+
+    expect(tracker.chain()).toEqual([{ item: 'Phase', depth: 0 }, { item: 'Sibling', depth: 3 }]);
+    expect(restored.next('Child', 4)).toBe('Sibling');
+    expect(restored.next('Next phase', 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+// WBS numbers like 1, 1.2 or 1.2.3. (trailing dot allowed)
+const WBS_PATTERN = /^\d+(\.\d+)*\.?$/;
+
+function leadingIndent(text: string): number {
+  return (text.match(/^[ \t]*/)?.[0] || '').replace(/\t/g, '    ').length;
+}
+
+// The smallest indent in the column, so it works whether the sheet indents by one space or four
+export function detectIndentUnit(values: any[]): number | undefined {
+  const indents = values
+    .map(value => String(value ?? ''))
+    .filter(text => !WBS_PATTERN.test(text.trim()))
+    .map(leadingIndent)
+    .filter(indent => indent > 0);
+  return indents.length > 0 ? Math.min(...indents) : undefined;
+}
+
+// Depth of each row from a WBS or indented column. Blank cells are treated as top-level rows.
+export function outlineDepths(values: any[], indentUnit: number = detectIndentUnit(values) || 1): number[] {
+  return values.map(value => {
+    const text = String(value ?? '');
+    const trimmed = text.trim();
+    if (trimmed === '') return 0;
+    if (WBS_PATTERN.test(trimmed)) {
+      return trimmed.replace(/\.$/, '').split('.').length - 1;
+    }
+    return Math.round(leadingIndent(text) / indentUnit);
+  });
+}
+
+// Assigns parents one row at a time, keeping only the current chain of ancestors, so a tab can be read in windows.
+// Each row's parent is the closest earlier row that is shallower; a jump of several levels still nests one level.
+export class ParentTracker<T> {
+  private stack: Array<{ item: T; depth: number }> = [];
+
+  public next(item: T, depth: number): T | undefined {
+    while (this.stack.length > 0 && this.stack[this.stack.length - 1].depth >= depth) {
+      this.stack.pop();
+    }
+    const parent = this.stack.length > 0 ? this.stack[this.stack.length - 1].item : undefined;
+    this.stack.push({ item, depth });
+    return parent;
+  }
+
+  public ancestors(): T[] {
+    return this.stack.map(entry => entry.item);
+  }
+
+  // The current chain with the depth each row was given, which replays through next() to rebuild the tracker
+  public chain(): Array<{ item: T; depth: number }> {
+    return this.stack.map(entry => ({ ...entry }));
+  }
+}
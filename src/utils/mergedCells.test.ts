@@ -0,0 +1,112 @@
+import { describe, expect, it } from '@jest/globals';
+import { GoogleCellValue } from '../types';
+import { applyMergedCellStrategy, MergedRange } from './mergedCells';
+
+const cell = (value: any, extra: Partial<GoogleCellValue> = {}): GoogleCellValue => ({ value, isImage: false, ...extra });
+const values = (rows: GoogleCellValue[][]): any[][] => rows.map(row => row.map(entry => entry.value));
+
+// Column A, sheet rows 1-4 merged; "Fruit" is the merge's value
+const categoryMerge: MergedRange = { startRowIndex: 0, endRowIndex: 4, startColumnIndex: 0, endColumnIndex: 1 };
+
+const categoryRows = (): GoogleCellValue[][] => [
+  [cell('Fruit', { formula: '=UPPER("fruit")', note: 'Seasonal' }), cell('Apple')],
+  [cell(''), cell('Pear')],
+  [cell(''), cell('Plum')],
+  [cell(''), cell('Fig')]
+];
+
+describe('applyMergedCellStrategy', () => {
+  it("keeps only the top-left value with 'first'", () => {
+    const rows = categoryRows();
+    applyMergedCellStrategy(rows, [categoryMerge], 0, 'first');
+
+    expect(values(rows)).toEqual([['Fruit', 'Apple'], ['', 'Pear'], ['', 'Plum'], ['', 'Fig']]);
+  });
+
+  it("copies the value into every covered cell with 'fill', without the formula or note", () => {
+    const rows = categoryRows();
+    applyMergedCellStrategy(rows, [categoryMerge], 0, 'fill');
+
+    expect(values(rows)).toEqual([['Fruit', 'Apple'], ['Fruit', 'Pear'], ['Fruit', 'Plum'], ['Fruit', 'Fig']]);
+    expect(rows[0][0]).toMatchObject({ formula: '=UPPER("fruit")', note: 'Seasonal' });
+    expect(rows[2][0].formula).toBeUndefined();
+    expect(rows[2][0].note).toBeUndefined();
+  });
+
+  it("joins the covered values into the top-left cell with 'concatenate'", () => {
+    const rows = [
+      [cell('Q1'), cell(' revenue ')],
+      [cell(''), cell('')]
+    ];
+    applyMergedCellStrategy(rows, [{ startRowIndex: 0, endRowIndex: 2, startColumnIndex: 0, endColumnIndex: 2 }], 0, 'concatenate');
+
+    expect(values(rows)).toEqual([['Q1 revenue', ''], ['', '']]);
+  });
+
+  it('fills cells missing from short rows', () => {
+    const rows = [[cell('Fruit')], []];
+    applyMergedCellStrategy(rows, [categoryMerge], 0, 'fill');
+
+    expect(values(rows)).toEqual([['Fruit'], ['Fruit']]);
+  });
+
+  it('uses the sheet row offset of the rows it is given', () => {
+    // Rows read from sheet row 3, so the merge starts at the second of them
+    const rows = [[cell('Header')], [cell('Veg')], [cell('')]];
+    applyMergedCellStrategy(rows, [{ startRowIndex: 3, endRowIndex: 5, startColumnIndex: 0, endColumnIndex: 1 }], 2, 'fill');
+
+    expect(values(rows)).toEqual([['Header'], ['Veg'], ['Veg']]);
+  });
+
+  it('ignores merges outside the rows', () => {
+    const rows = categoryRows();
+    applyMergedCellStrategy(rows, [{ startRowIndex: 10, endRowIndex: 12, startColumnIndex: 0, endColumnIndex: 1 }], 0, 'fill');
+
+    expect(values(rows)).toEqual(values(categoryRows()));
+  });
+
+  describe('across windows', () => {
+    const readInWindows = (strategy: 'first' | 'fill' | 'concatenate'): any[][] => {
+      const rows = categoryRows();
+      const carried = new Map<string, GoogleCellValue>();
+      const first = rows.slice(0, 2);
+      const second = rows.slice(2);
+
+      applyMergedCellStrategy(first, [categoryMerge], 0, strategy, carried);
+      expect(carried.size).toBe(1);
+      applyMergedCellStrategy(second, [categoryMerge], 2, strategy, carried);
+      // The merge ends in the second window, so nothing is carried past it
+      expect(carried.size).toBe(0);
+
+      return values([...first, ...second]);
+    };
+
+    it('fills a merge that continues into the next window', () => {
+      expect(readInWindows('fill')).toEqual([['Fruit', 'Apple'], ['Fruit', 'Pear'], ['Fruit', 'Plum'], ['Fruit', 'Fig']]);
+    });
+
+    it('blanks the rest of a merge in later windows', () => {
+      expect(readInWindows('first')).toEqual([['Fruit', 'Apple'], ['', 'Pear'], ['', 'Plum'], ['', 'Fig']]);
+    });
+
+    it('concatenates only the values in the window that holds the top-left cell', () => {
+      const rows = [[cell('Notes')], [cell('more')], [cell('later')]];
+      const carried = new Map<string, GoogleCellValue>();
+      const merge = { startRowIndex: 0, endRowIndex: 3, startColumnIndex: 0, endColumnIndex: 1 };
+      const first = rows.slice(0, 2);
+      const second = rows.slice(2);
+
+      applyMergedCellStrategy(first, [merge], 0, 'concatenate', carried);
+      applyMergedCellStrategy(second, [merge], 2, 'concatenate', carried);
+
+      expect(values([...first, ...second])).toEqual([['Notes more'], [''], ['']]);
+    });
+
+    it('skips a merge whose top-left cell was never read', () => {
+      const rows = [[cell('Pear')], [cell('Plum')]];
+      applyMergedCellStrategy(rows, [categoryMerge], 2, 'fill');
+
+      expect(values(rows)).toEqual([['Pear'], ['Plum']]);
+    });
+  });
+});
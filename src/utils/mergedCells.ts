@@ -0,0 +1,66 @@
+import { GoogleCellValue, MergedCellStrategy } from '../types';
+
+// A merge as reported by the Sheets API: 0-based sheet indexes, end exclusive
+export interface MergedRange {
+  startRowIndex?: number | null;
+  endRowIndex?: number | null;
+  startColumnIndex?: number | null;
+  endColumnIndex?: number | null;
+}
+
+const emptyCell = (): GoogleCellValue => ({ value: '', isImage: false });
+
+// Rewrites the cells each merge covers. rowOffset is the sheet row that rows[0] was read from.
+// 'first' keeps the top-left value only, 'fill' copies it into every covered cell and
+// 'concatenate' joins all covered values into the top-left cell.
+// When a tab is read in windows, pass the same carried map for every window so merges that continue past a window
+// can still be filled. Values in later windows can't be added to a concatenated cell that was already read.
+export function applyMergedCellStrategy(
+  rows: GoogleCellValue[][],
+  merges: MergedRange[],
+  rowOffset: number,
+  strategy: MergedCellStrategy,
+  carried: Map<string, GoogleCellValue> = new Map()
+): void {
+  for (const merge of merges) {
+    const startRow = (merge.startRowIndex ?? 0) - rowOffset;
+    const endRow = (merge.endRowIndex ?? 0) - rowOffset;
+    const startColumn = merge.startColumnIndex ?? 0;
+    const endColumn = merge.endColumnIndex ?? 0;
+    const key = `${merge.startRowIndex ?? 0}:${startColumn}`;
+
+    if (endRow <= 0 || startRow >= rows.length) continue;
+
+    // Merges that start above the window only have a top-left value if an earlier window read it
+    const first = startRow >= 0 ? rows[startRow][startColumn] || emptyCell() : carried.get(key);
+    if (!first) continue;
+    if (startRow >= 0 && endRow > rows.length) {
+      carried.set(key, first);
+    } else if (startRow < 0 && endRow <= rows.length) {
+      carried.delete(key);
+    }
+
+    const coveredValues: string[] = [];
+
+    for (let rowIndex = Math.max(startRow, 0); rowIndex < Math.min(endRow, rows.length); rowIndex++) {
+      const row = rows[rowIndex];
+      for (let columnIndex = startColumn; columnIndex < endColumn; columnIndex++) {
+        const text = String(row[columnIndex]?.value ?? '').trim();
+        if (text !== '') coveredValues.push(text);
+
+        if (rowIndex === startRow && columnIndex === startColumn) continue;
+
+        if (strategy === 'fill') {
+          // Formulas, notes and comments belong to the original cell only
+          row[columnIndex] = { ...first, formula: undefined, note: undefined, comments: undefined };
+        } else {
+          row[columnIndex] = emptyCell();
+        }
+      }
+    }
+
+    if (strategy === 'concatenate' && startRow >= 0 && coveredValues.length > 1) {
+      rows[startRow][startColumn] = { ...first, value: coveredValues.join(' '), formula: undefined };
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from '@jest/globals';
+import { ColumnMapping, GoogleCellValue, SmartsheetRow, SyncFingerprint } from '../types';
+import { buildSyncPlan, buildUpsertPlan, fingerprintRow, normalizeKey, PlannedRow, SourceKey } from './rowPlans';
+
+const cell = (value: any, extra: Partial<GoogleCellValue> = {}): GoogleCellValue => ({ value, isImage: false, ...extra });
+
+const mappings: ColumnMapping[] = [
+  { googleColumn: 'Task', smartsheetColumnId: 1, dataType: 'text' },
+  { googleColumn: 'Owner', smartsheetColumnId: 2, dataType: 'text' }
+];
+
+const sourceRow = (rowIndex: number, fingerprint: string, tabName = 'Tasks'): PlannedRow =>
+  ({ tabName, rowIndex, fingerprint, action: 'insert' });
+
+const previous = (rowIndex: number, fingerprint: string, smartsheetRowId: number, tabName = 'Tasks'): SyncFingerprint =>
+  ({ lineageId: 'lineage', tabName, rowIndex, fingerprint, smartsheetRowId, updatedAt: new Date(0) });
+
+const KEY_COLUMN_ID = 7;
+
+const sourceKey = (rowIndex: number, key: any): SourceKey => ({ tabName: 'Jobs', rowIndex, key });
+
+const targetRow = (id: number, key: any): SmartsheetRow =>
+  ({ id, rowNumber: id, cells: [{ columnId: 1, value: 'other' }, { columnId: KEY_COLUMN_ID, value: key }] });
+
+describe('fingerprintRow', () => {
+  it('changes when a mapped value or formula changes', () => {
+    const base = fingerprintRow([cell('Plan'), cell('Ana')], mappings);
+
+    expect(fingerprintRow([cell('Plan'), cell('Ana')], mappings)).toBe(base);
+    expect(fingerprintRow([cell('Plan'), cell('Bo')], mappings)).not.toBe(base);
+    expect(fingerprintRow([cell('Plan', { formula: '=A1' }), cell('Ana')], mappings)).not.toBe(base);
+  });
+
+  it('ignores columns that are not mapped', () => {
+    expect(fingerprintRow([cell('Plan'), cell('Ana'), cell('note 1')], mappings))
+      .toBe(fingerprintRow([cell('Plan'), cell('Ana'), cell('note 2')], mappings));
+  });
+
+  it('reads mapped columns by their Google column index', () => {
+    const skipped: ColumnMapping[] = [{ ...mappings[1], googleColumnIndex: 2 }];
+
+    expect(fingerprintRow([cell('x'), cell('y'), cell('Ana')], skipped))
+      .toBe(fingerprintRow([cell('a'), cell('b'), cell('Ana')], skipped));
+  });
+});
+
+describe('buildSyncPlan', () => {
+  it('keeps rows with an unchanged fingerprint, even when they moved', () => {
+    const { plan, removed } = buildSyncPlan(
+      [sourceRow(0, 'b'), sourceRow(1, 'a')],
+      [previous(0, 'a', 100), previous(1, 'b', 101)]
+    );
+
+    expect(plan.map(row => [row.action, row.smartsheetRowId])).toEqual([['unchanged', 101], ['unchanged', 100]]);
+    expect(removed).toEqual([]);
+  });
+
+  it('gives duplicate rows their own Smartsheet rows, preferring the same position', () => {
+    const { plan } = buildSyncPlan(
+      [sourceRow(0, 'dup'), sourceRow(1, 'dup'), sourceRow(2, 'dup')],
+      [previous(1, 'dup', 201), previous(0, 'dup', 200)]
+    );
+
+    expect(plan.map(row => [row.action, row.smartsheetRowId])).toEqual([
+      ['unchanged', 200],
+      ['unchanged', 201],
+      ['insert', undefined]
+    ]);
+  });
+
+  it('treats a changed row at the same tab position as an edit of that row', () => {
+    const { plan, removed } = buildSyncPlan(
+      [sourceRow(0, 'a'), sourceRow(1, 'b2')],
+      [previous(0, 'a', 100), previous(1, 'b', 101)]
+    );
+
+    expect(plan[1]).toMatchObject({ action: 'update', smartsheetRowId: 101 });
+    expect(removed).toEqual([]);
+  });
+
+  it('does not match positions across tabs', () => {
+    const { plan, removed } = buildSyncPlan([sourceRow(0, 'b2', 'Other')], [previous(0, 'b', 101)]);
+
+    expect(plan[0].action).toBe('insert');
+    expect(removed.map(record => record.smartsheetRowId)).toEqual([101]);
+  });
+
+  it('reports previous rows that nothing matched as removed', () => {
+    const { plan, removed } = buildSyncPlan(
+      [sourceRow(0, 'a')],
+      [previous(0, 'a', 100), previous(1, 'b', 101), previous(2, 'c', 102)]
+    );
+
+    expect(plan[0].action).toBe('unchanged');
+    expect(removed.map(record => record.smartsheetRowId)).toEqual([101, 102]);
+  });
+
+  it('does not reuse a row claimed by a moved fingerprint for a position match', () => {
+    // "a" moved to row 1; the new row 0 must not overwrite a's Smartsheet row
+    const { plan } = buildSyncPlan([sourceRow(0, 'new'), sourceRow(1, 'a')], [previous(0, 'a', 100)]);
+
+    expect(plan.map(row => [row.action, row.smartsheetRowId])).toEqual([['insert', undefined], ['unchanged', 100]]);
+  });
+});
+
+describe('normalizeKey', () => {
+  it('ignores case and surrounding whitespace', () => {
+    expect(normalizeKey('  JOB-1 ')).toBe('job-1');
+    expect(normalizeKey(42)).toBe('42');
+    expect(normalizeKey(null)).toBe('');
+    expect(normalizeKey(undefined)).toBe('');
+  });
+});
+
+describe('buildUpsertPlan', () => {
+  it('updates rows whose key exists in the sheet and inserts the rest', () => {
+    const { plan, conflicts } = buildUpsertPlan(
+      [sourceKey(0, 'Job-1'), sourceKey(1, 'Job-2')],
+      KEY_COLUMN_ID,
+      [targetRow(500, ' job-1')]
+    );
+
+    expect(plan).toEqual([
+      { tabName: 'Jobs', rowIndex: 0, action: 'update', smartsheetRowId: 500, key: 'job-1' },
+      { tabName: 'Jobs', rowIndex: 1, action: 'insert', smartsheetRowId: undefined, key: 'job-2' }
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('prefers the display value of the target key cell', () => {
+    const row: SmartsheetRow = { id: 500, rowNumber: 1, cells: [{ columnId: KEY_COLUMN_ID, value: 1001, displayValue: 'A-1001' }] };
+
+    const { plan } = buildUpsertPlan([sourceKey(0, 'a-1001')], KEY_COLUMN_ID, [row]);
+
+    expect(plan[0]).toMatchObject({ action: 'update', smartsheetRowId: 500 });
+  });
+
+  it('reports source rows with a blank key', () => {
+    const { plan, conflicts } = buildUpsertPlan([sourceKey(0, '  '), sourceKey(1, null)], KEY_COLUMN_ID, []);
+
+    expect(plan).toEqual([]);
+    expect(conflicts.map(conflict => [conflict.type, conflict.row])).toEqual([['missing_key', 1], ['missing_key', 2]]);
+  });
+
+  it('writes only the first source row of a duplicated key', () => {
+    const { plan, conflicts } = buildUpsertPlan([sourceKey(0, 'Job-1'), sourceKey(3, 'JOB-1 ')], KEY_COLUMN_ID, []);
+
+    expect(plan.map(row => row.rowIndex)).toEqual([0]);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'duplicate_source_key', key: 'JOB-1 ', row: 4 });
+  });
+
+  it('skips keys that match more than one Smartsheet row', () => {
+    const { plan, conflicts } = buildUpsertPlan(
+      [sourceKey(0, 'Job-1')],
+      KEY_COLUMN_ID,
+      [targetRow(500, 'Job-1'), targetRow(501, 'job-1')]
+    );
+
+    expect(plan).toEqual([]);
+    expect(conflicts[0]).toMatchObject({ type: 'duplicate_target_key', smartsheetRowIds: [500, 501] });
+  });
+
+  it('ignores Smartsheet rows with a blank key', () => {
+    const { plan } = buildUpsertPlan([sourceKey(0, 'Job-1')], KEY_COLUMN_ID, [targetRow(500, ''), targetRow(501, null)]);
+
+    expect(plan[0].action).toBe('insert');
+  });
+});
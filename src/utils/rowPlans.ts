@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { ColumnMapping, GoogleCellValue, SmartsheetRow, SyncFingerprint, UpsertConflict } from '../types';
+
+// A source row's planned write, decided before its cells are read back in to be written
+export interface PlannedRow {
+  tabName: string;
+  rowIndex: number;
+  action: 'insert' | 'update' | 'unchanged';
+  smartsheetRowId?: number;
+  fingerprint?: string; // Sync mode only
+  key?: string; // Upsert only: the normalized key the row was matched by
+}
+
+// The raw key cell value of a source row, as read in the upsert planning pass
+export interface SourceKey {
+  tabName: string;
+  rowIndex: number;
+  key: any;
+}
+
+export function fingerprintRow(googleRow: GoogleCellValue[], columnMappings: ColumnMapping[]): string {
+  const mappedCells = columnMappings.map((mapping, index) => {
+    const cell = googleRow[mapping.googleColumnIndex !== undefined ? mapping.googleColumnIndex : index];
+    if (!cell) return null;
+    return [cell.value ?? null, cell.formula ?? null, cell.hyperlink ?? null, cell.imageUrl ?? null];
+  });
+
+  return crypto.createHash('sha256').update(JSON.stringify(mappedCells)).digest('hex');
+}
+
+export function normalizeKey(value: any): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim().toLowerCase();
+}
+
+// Matches current source rows to the previous run: identical fingerprints are unchanged rows
+// (even if they moved), and leftovers at the same tab position are treated as edits of that row
+export function buildSyncPlan(
+  plan: PlannedRow[],
+  previousFingerprints: SyncFingerprint[]
+): { plan: PlannedRow[]; removed: SyncFingerprint[] } {
+  const claimedRowIds = new Set<number>();
+
+  const byFingerprint = new Map<string, SyncFingerprint[]>();
+  for (const record of previousFingerprints) {
+    const records = byFingerprint.get(record.fingerprint) || [];
+    records.push(record);
+    byFingerprint.set(record.fingerprint, records);
+  }
+
+  for (const rowPlan of plan) {
+    const candidates = (byFingerprint.get(rowPlan.fingerprint!) || [])
+      .filter(record => !claimedRowIds.has(record.smartsheetRowId));
+    if (candidates.length === 0) continue;
+
+    // Prefer the record at the same position so duplicate rows keep their own Smartsheet rows
+    const match = candidates.find(record => record.tabName === rowPlan.tabName && record.rowIndex === rowPlan.rowIndex)
+      || candidates[0];
+    rowPlan.action = 'unchanged';
+    rowPlan.smartsheetRowId = match.smartsheetRowId;
+    claimedRowIds.add(match.smartsheetRowId);
+  }
+
+  const byPosition = new Map<string, SyncFingerprint>();
+  for (const record of previousFingerprints) {
+    if (!claimedRowIds.has(record.smartsheetRowId)) {
+      byPosition.set(`${record.tabName}:${record.rowIndex}`, record);
+    }
+  }
+
+  for (const rowPlan of plan) {
+    if (rowPlan.action !== 'insert') continue;
+
+    const match = byPosition.get(`${rowPlan.tabName}:${rowPlan.rowIndex}`);
+    if (match && !claimedRowIds.has(match.smartsheetRowId)) {
+      rowPlan.action = 'update';
+      rowPlan.smartsheetRowId = match.smartsheetRowId;
+      claimedRowIds.add(match.smartsheetRowId);
+    }
+  }
+
+  const removed = previousFingerprints.filter(record => !claimedRowIds.has(record.smartsheetRowId));
+  return { plan, removed };
+}
+
+// Matches Google rows to existing Smartsheet rows by key; ambiguous or missing keys are reported, not written
+export function buildUpsertPlan(
+  sourceKeys: SourceKey[],
+  keyColumnId: number,
+  existingRows: SmartsheetRow[]
+): { plan: PlannedRow[]; conflicts: UpsertConflict[] } {
+  const plan: PlannedRow[] = [];
+  const conflicts: UpsertConflict[] = [];
+
+  const targetRowsByKey = new Map<string, number[]>();
+  for (const row of existingRows) {
+    const keyCell = row.cells.find(cell => cell.columnId === keyColumnId);
+    const key = normalizeKey(keyCell?.displayValue ?? keyCell?.value);
+    if (!key) continue;
+
+    const rowIds = targetRowsByKey.get(key) || [];
+    rowIds.push(row.id);
+    targetRowsByKey.set(key, rowIds);
+  }
+
+  const seenSourceKeys = new Set<string>();
+
+  for (const { tabName, rowIndex, key: rawKey } of sourceKeys) {
+    const key = normalizeKey(rawKey);
+
+    if (!key) {
+      conflicts.push({
+        type: 'missing_key',
+        key: '',
+        tabName,
+        row: rowIndex + 1,
+        message: `Row ${rowIndex + 1} in "${tabName}" has no key value`
+      });
+      continue;
+    }
+
+    if (seenSourceKeys.has(key)) {
+      conflicts.push({
+        type: 'duplicate_source_key',
+        key: String(rawKey),
+        tabName,
+        row: rowIndex + 1,
+        message: `Key "${rawKey}" appears more than once in the Google Sheet - only the first row was used`
+      });
+      continue;
+    }
+    seenSourceKeys.add(key);
+
+    const targetRowIds = targetRowsByKey.get(key) || [];
+    if (targetRowIds.length > 1) {
+      conflicts.push({
+        type: 'duplicate_target_key',
+        key: String(rawKey),
+        tabName,
+        row: rowIndex + 1,
+        smartsheetRowIds: targetRowIds,
+        message: `Key "${rawKey}" matches ${targetRowIds.length} Smartsheet rows - row was skipped`
+      });
+      continue;
+    }
+
+    plan.push({
+      tabName,
+      rowIndex,
+      action: targetRowIds.length === 1 ? 'update' : 'insert',
+      smartsheetRowId: targetRowIds[0],
+      key
+    });
+  }
+
+  return { plan, conflicts };
+}
@@ -0,0 +1,75 @@
+import zlib from 'zlib';
+
+// Just enough of the zip format to read files out of an XLSX export: no zip64, encryption or multi-part archives
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+// Lists the archive's files by path, read from its central directory
+export function readZipEntries(archive: Buffer): Map<string, ZipEntry> {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+  let endOffset = -1;
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 22 - 0xffff); offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let index = 0; index < entryCount; index++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      name,
+      method: archive.readUInt16LE(offset + 10),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      size: archive.readUInt32LE(offset + 24),
+      localHeaderOffset: archive.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+export function extractZipEntry(archive: Buffer, entry: ZipEntry): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (archive.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt zip entry ${entry.name}`);
+  }
+
+  // The local header's name and extra field lengths can differ from the central directory's
+  const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+  const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === STORED) {
+    return Buffer.from(data);
+  }
+  if (entry.method === DEFLATED) {
+    return zlib.inflateRawSync(data);
+  }
+  throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+}